@@ -12,9 +12,18 @@ export const CALLBACK_TIMEOUT_MS = 120_000;
 // 回應限制
 export const CHARACTER_LIMIT = 25000;
 export const MAX_PAGE_SIZE = 100;
+// doc_media_download 直接回傳內容的大小上限（超過需指定 output_path）
+export const MAX_INLINE_MEDIA_BYTES = 5 * 1024 * 1024;
+// medias/upload_all 單次上傳的大小上限（附件超過時改用分片上傳）
+export const MEDIA_UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
 
 // 批次處理
 export const BATCH_SIZE = 10;
+// blocks/batch_update 單次請求的 block 數量上限
+export const BATCH_UPDATE_LIMIT = 100;
+// 建立原生表格時的列/欄上限（超過時由 table builder 拆分為多個表格）
+export const TABLE_MAX_ROWS = 100;
+export const TABLE_MAX_COLUMNS = 100;
 
 // Rate Limiting（基於官方文件：單一應用 QPS 3 次/秒）
 export const RATE_LIMIT_QPS = 3;
@@ -47,3 +56,12 @@ export enum ResponseFormat {
   MARKDOWN = "markdown",
   JSON = "json",
 }
+
+// 文件讀取格式
+export enum DocumentFormat {
+  BLOCKS = "blocks",
+  MARKDOWN = "markdown",
+  ANNOTATED_MARKDOWN = "annotated_markdown",
+  PLAIN_TEXT = "plain_text",
+  OUTLINE = "outline",
+}
@@ -6,6 +6,7 @@
  * - Wiki: Read, write, search wiki documents
  * - Documents: Create, read, update, delete documents
  * - Tasks: Manage todos and tasklists
+ * - Resources: Documents, wiki pages and tasklists as Markdown context
  *
  * Uses User Access Token (OAuth 2.0) for authentication.
  */
@@ -17,6 +18,7 @@ import { registerAuthTools } from "./tools/auth.js";
 import { registerWikiTools } from "./tools/wiki.js";
 import { registerDocTools } from "./tools/doc.js";
 import { registerTodoTools } from "./tools/todo.js";
+import { registerLarkResources } from "./resources/lark.js";
 
 // Create MCP server instance
 const server = new McpServer({
@@ -30,6 +32,9 @@ registerWikiTools(server);
 registerDocTools(server);
 registerTodoTools(server);
 
+// Register resources (lark-doc://, lark-wiki://, lark-tasklist://)
+registerLarkResources(server);
+
 // Start server
 async function main() {
   const transport = new StdioServerTransport();
@@ -0,0 +1,141 @@
+/**
+ * MCP Resources
+ * 將 Lark 文件、Wiki 頁面與任務清單以 Markdown 提供給 MCP client 作為 context
+ */
+
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  getDocumentBlocks,
+  getWikiNode,
+  getRecentFiles,
+  larkRequest,
+} from "../services/lark-client.js";
+import { blocksToMarkdown } from "../utils/markdown.js";
+
+// resources/list 列出的最近檔案數量
+const RECENT_RESOURCE_LIMIT = 50;
+
+/**
+ * 列出最近存取的檔案中符合類型者（與 drive_recent 同一來源）
+ */
+async function listRecentResources(types: string[], scheme: string) {
+  const files = await getRecentFiles(RECENT_RESOURCE_LIMIT).catch(() => []);
+  return {
+    resources: files
+      .filter((f) => f.token && types.includes(f.type))
+      .map((f) => ({
+        uri: `${scheme}://${f.token}`,
+        name: f.name,
+        mimeType: "text/markdown",
+      })),
+  };
+}
+
+function markdownResource(uri: URL, text: string): ReadResourceResult {
+  return {
+    contents: [{ uri: uri.href, mimeType: "text/markdown", text }],
+  };
+}
+
+/**
+ * 將任務清單渲染為 Markdown 待辦列表
+ */
+async function tasklistToMarkdown(guid: string): Promise<string> {
+  const data = await larkRequest<{
+    tasklist: { name?: string };
+  }>(`/task/v2/tasklists/${guid}`);
+
+  const lines = [`# ${data.tasklist.name || "(untitled)"}`, ""];
+  let pageToken: string | undefined;
+
+  do {
+    const params: Record<string, string | number> = { page_size: 100 };
+    if (pageToken) {
+      params.page_token = pageToken;
+    }
+
+    const page = await larkRequest<{
+      items?: Array<{
+        guid?: string;
+        summary?: string;
+        completed_at?: string;
+        due?: { timestamp?: string };
+      }>;
+      page_token?: string;
+      has_more?: boolean;
+    }>(`/task/v2/tasklists/${guid}/tasks`, { params });
+
+    for (const task of page.items || []) {
+      const done = !!task.completed_at && task.completed_at !== "0";
+      const due = task.due?.timestamp
+        ? ` (due ${new Date(parseInt(task.due.timestamp) * 1000).toISOString().slice(0, 10)})`
+        : "";
+      lines.push(`- [${done ? "x" : " "}] ${task.summary || "(untitled)"}${due}`);
+    }
+
+    pageToken = page.has_more ? page.page_token : undefined;
+  } while (pageToken);
+
+  if (lines.length === 2) {
+    lines.push("(no tasks)");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 註冊 MCP Resources
+ */
+export function registerLarkResources(server: McpServer): void {
+  // lark-doc://{document_id}
+  server.registerResource(
+    "lark-doc",
+    new ResourceTemplate("lark-doc://{document_id}", {
+      list: () => listRecentResources(["docx"], "lark-doc"),
+    }),
+    {
+      title: "Lark Document",
+      description: "Lark docx document rendered as Markdown",
+      mimeType: "text/markdown",
+    },
+    async (uri, { document_id }) => {
+      const blocks = await getDocumentBlocks(String(document_id));
+      return markdownResource(uri, await blocksToMarkdown(blocks));
+    }
+  );
+
+  // lark-wiki://{wiki_token}
+  server.registerResource(
+    "lark-wiki",
+    new ResourceTemplate("lark-wiki://{wiki_token}", {
+      list: () => listRecentResources(["wiki"], "lark-wiki"),
+    }),
+    {
+      title: "Lark Wiki Page",
+      description: "Lark wiki page rendered as Markdown",
+      mimeType: "text/markdown",
+    },
+    async (uri, { wiki_token }) => {
+      const node = await getWikiNode(String(wiki_token));
+      if (node.objType !== "docx") {
+        throw new Error(`Wiki node type "${node.objType}" cannot be rendered as Markdown (only docx is supported)`);
+      }
+      const blocks = await getDocumentBlocks(node.objToken);
+      return markdownResource(uri, await blocksToMarkdown(blocks));
+    }
+  );
+
+  // lark-tasklist://{guid}
+  server.registerResource(
+    "lark-tasklist",
+    new ResourceTemplate("lark-tasklist://{guid}", { list: undefined }),
+    {
+      title: "Lark Tasklist",
+      description: "Lark tasklist rendered as a Markdown checklist",
+      mimeType: "text/markdown",
+    },
+    async (uri, { guid }) => {
+      return markdownResource(uri, await tasklistToMarkdown(String(guid)));
+    }
+  );
+}
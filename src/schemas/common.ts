@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { ResponseFormat, MAX_PAGE_SIZE } from "../constants.js";
+import { ResponseFormat, DocumentFormat, MAX_PAGE_SIZE } from "../constants.js";
 
 // ─── MCP string coercion helpers ────────────────────────────
 // Claude Code 透過 MCP protocol 傳參時，所有值可能是 JSON 字串。
@@ -39,6 +39,178 @@ export function coerceArray<T extends z.ZodTypeAny>(itemSchema: T) {
   }, z.array(itemSchema));
 }
 
+/** string → object coercion（用於 variables 等 JSON 物件參數） */
+export function coerceRecord<T extends z.ZodTypeAny>(valueSchema: T) {
+  return z.preprocess((v) => {
+    if (typeof v === "string") {
+      try { const parsed = JSON.parse(v); return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : v; }
+      catch { return v; }
+    }
+    return v;
+  }, z.record(valueSchema));
+}
+
+/**
+ * 寫入內容參數（blocks 與 markdown 擇一，由 resolveContentBlocks 驗證）
+ */
+export const ContentInputFields = {
+  blocks: coerceArray(z.record(z.unknown()))
+    .optional()
+    .describe("Lark Block JSON array (mutually exclusive with markdown)"),
+  markdown: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Markdown content (CommonMark + GFM), converted to Lark blocks (mutually exclusive with blocks)"),
+};
+
+/**
+ * 樂觀並行控制參數（版本號來自 doc_read / wiki_read）
+ */
+export const ExpectedRevisionField = {
+  expected_revision: coerceNumber
+    .pipe(z.number().int().min(1))
+    .optional()
+    .describe("Document revision the edit is based on (from doc_read/wiki_read). Fails with a conflict error if the document has changed since (optional)"),
+};
+
+/**
+ * 插入位置參數（after_block_id / before_block_id 優先於 parent_block_id + index）
+ */
+export const BlockPositionFields = {
+  parent_block_id: z
+    .string()
+    .optional()
+    .describe("Parent block ID to insert into, e.g. a callout or list item (optional, default: document root)"),
+  after_block_id: z
+    .string()
+    .optional()
+    .describe("Insert right after this block, under the same parent (optional)"),
+  before_block_id: z
+    .string()
+    .optional()
+    .describe("Insert right before this block, under the same parent (optional)"),
+  index: coerceNumber
+    .pipe(z.number().int().min(0))
+    .optional()
+    .describe("Insert position in the parent's children (0-based, default: 0; ignored with after/before_block_id)"),
+};
+
+/**
+ * 區塊範圍參數（block_id + count 或 parent_block_id 內的 start_index/end_index）
+ */
+export const BlockRangeFields = {
+  parent_block_id: z
+    .string()
+    .optional()
+    .describe("Parent block ID whose children the indices refer to (optional, default: document root)"),
+  block_id: z
+    .string()
+    .optional()
+    .describe("First block of the range; parent and indices are resolved automatically (optional)"),
+  count: coerceNumber
+    .pipe(z.number().int().min(1))
+    .optional()
+    .describe("Number of consecutive sibling blocks starting at block_id (default: 1)"),
+  start_index: coerceNumber
+    .pipe(z.number().int().min(0))
+    .optional()
+    .describe("Start index in the parent's children (0-based, required without block_id)"),
+  end_index: coerceNumber
+    .pipe(z.number().int().min(1))
+    .optional()
+    .describe("End index in the parent's children (exclusive, required without block_id)"),
+};
+
+/**
+ * 標題區段定位參數（heading 與 heading_block_id 擇一）
+ */
+export const SectionLocatorFields = {
+  heading: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Heading text of the section, case-insensitive; prefix with #'s to restrict the level, e.g. '## Rollback' (mutually exclusive with heading_block_id)"),
+  heading_block_id: z
+    .string()
+    .optional()
+    .describe("Block ID of a top-level heading (mutually exclusive with heading)"),
+  occurrence: coerceNumber
+    .pipe(z.number().int().min(1))
+    .optional()
+    .describe("Which match to use when the heading text occurs more than once (1-based)"),
+};
+
+/**
+ * 標題區段讀取參數
+ */
+export const SectionReadFields = {
+  include_heading: coerceBoolean
+    .default(true)
+    .describe("Include the heading block itself (default: true)"),
+  format: z
+    .nativeEnum(DocumentFormat)
+    .default(DocumentFormat.MARKDOWN)
+    .describe("Output format: 'markdown' (default), 'annotated_markdown', 'blocks', 'plain_text' or 'outline'"),
+  resolve_mentions: coerceBoolean
+    .default(true)
+    .describe("Resolve @mentions to user names and doc mentions to titles (default: true; false keeps raw IDs)"),
+};
+
+/**
+ * 標題區段 Output 欄位（區段操作前的根層級範圍）
+ */
+export const SectionOutputFields = {
+  heading: z.string().describe("Heading text"),
+  heading_block_id: z.string(),
+  level: z.number().describe("Heading level (1-9)"),
+  start_index: z.number().describe("Root index of the heading"),
+  end_index: z.number().describe("Root index where the section ends (exclusive), before the edit"),
+};
+
+/**
+ * 大綱讀取參數
+ */
+export const OutlineReadFields = {
+  max_level: coerceNumber
+    .pipe(z.number().int().min(1).max(9))
+    .default(9)
+    .describe("Deepest heading level to include (1-9, default: 9); deeper headings count toward their parent section"),
+};
+
+interface OutlineNodeOutput {
+  level: number;
+  text: string;
+  block_id: string;
+  start_index: number;
+  end_index: number;
+  word_count: number;
+  children: OutlineNodeOutput[];
+}
+
+const OutlineNodeSchema: z.ZodType<OutlineNodeOutput> = z.lazy(() =>
+  z.object({
+    level: z.number().describe("Heading level (1-9)"),
+    text: z.string(),
+    block_id: z.string(),
+    start_index: z.number().describe("Root index of the heading"),
+    end_index: z.number().describe("Root index where the section ends (exclusive)"),
+    word_count: z.number().describe("Words in the section body, including subsections"),
+    children: z.array(OutlineNodeSchema),
+  }).strict()
+);
+
+/**
+ * 文件大綱 Output 欄位
+ */
+export const OutlineOutputFields = {
+  revision_id: z.number().describe("Current document revision"),
+  block_count: z.number().describe("Number of top-level blocks"),
+  word_count: z.number().describe("Words in the whole document"),
+  heading_count: z.number().describe("Number of headings in the outline"),
+  headings: z.array(OutlineNodeSchema).describe("Heading tree; each heading nests under the nearest preceding higher-level heading"),
+};
+
 /**
  * List 工具分頁參數 Schema（預設 20）
  */
@@ -77,6 +249,32 @@ export const ResponseFormatSchema = z.object({
     .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
 });
 
+/**
+ * 文件讀取參數 Schema（輸出格式與根層級 block 範圍）
+ */
+export const DocumentReadOptionsSchema = z.object({
+  format: z
+    .nativeEnum(DocumentFormat)
+    .default(DocumentFormat.BLOCKS)
+    .describe("Output format: 'blocks' (raw Lark blocks), 'markdown', 'annotated_markdown' (markdown with block_id anchors), 'plain_text' or 'outline' (headings only)"),
+  start_index: coerceNumber
+    .pipe(z.number().int().min(0))
+    .default(0)
+    .describe("Root block index to start reading from (use next_index from the previous page)"),
+  end_index: coerceNumber
+    .pipe(z.number().int().min(1))
+    .optional()
+    .describe("Root block index to stop at (exclusive, optional; default: as many blocks as fit in one response)"),
+  resolve_mentions: coerceBoolean
+    .default(true)
+    .describe("Resolve @mentions to user names and doc mentions to titles (default: true; false keeps raw IDs)"),
+  media_dir: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Download images/attachments into this local directory and link them by path (markdown formats only)"),
+});
+
 /**
  * 結合 List 分頁與回應格式
  */
@@ -97,8 +295,36 @@ export const PaginationOutputFields = {
   next_offset: z.number().optional().describe("Offset for next page (only present when has_more is true)"),
 };
 
+/**
+ * 差異同步 Output 欄位（doc_sync / wiki_sync 共用）
+ */
+export const SyncOutputFields = {
+  dry_run: z.boolean(),
+  unchanged_count: z.number().describe("Number of blocks kept as-is"),
+  edits: z.array(z.object({
+    op: z.enum(["update", "insert", "delete", "move"]),
+    parent_block_id: z.string(),
+    block_type: z.number(),
+    block_id: z.string().optional(),
+    index: z.number(),
+    to_parent_block_id: z.string().optional(),
+    to_index: z.number().optional(),
+    text: z.string().optional(),
+  })).describe("Edit script applied (or to be applied with dry_run)"),
+};
+
+/**
+ * 差異同步 dry-run 參數
+ */
+export const SyncDryRunField = {
+  dry_run: coerceBoolean
+    .default(false)
+    .describe("Only compute and return the edit script without modifying the document (default: false)"),
+};
+
 export type ListPaginationInput = z.infer<typeof ListPaginationSchema>;
 export type SearchPaginationInput = z.infer<typeof SearchPaginationSchema>;
 export type ResponseFormatInput = z.infer<typeof ResponseFormatSchema>;
+export type DocumentReadOptionsInput = z.infer<typeof DocumentReadOptionsSchema>;
 export type ListOptionsInput = z.infer<typeof ListOptionsSchema>;
 export type SearchOptionsInput = z.infer<typeof SearchOptionsSchema>;
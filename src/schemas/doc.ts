@@ -3,7 +3,8 @@
  */
 
 import { z } from "zod";
-import { ListPaginationSchema, SearchPaginationSchema, ResponseFormatSchema, PaginationOutputFields, coerceNumber, coerceArray, coerceBoolean } from "./common.js";
+import { TABLE_MAX_ROWS } from "../constants.js";
+import { ListPaginationSchema, SearchPaginationSchema, ResponseFormatSchema, DocumentReadOptionsSchema, PaginationOutputFields, ContentInputFields, BlockPositionFields, BlockRangeFields, SyncOutputFields, SyncDryRunField, ExpectedRevisionField, SectionLocatorFields, SectionReadFields, SectionOutputFields, OutlineReadFields, OutlineOutputFields, coerceNumber, coerceArray, coerceBoolean, coerceRecord } from "./common.js";
 
 /**
  * Document ID 參數
@@ -30,13 +31,14 @@ export const DocCreateSchema = z.object({
     .describe("Document title"),
   blocks: coerceArray(z.record(z.unknown()))
     .optional()
-    .describe("Initial content as Lark Block JSON array (optional)"),
+    .describe("Initial content as Lark Block JSON array (optional, mutually exclusive with markdown)"),
+  markdown: ContentInputFields.markdown,
 }).merge(ResponseFormatSchema).strict();
 
 /**
  * 讀取文件
  */
-export const DocReadSchema = DocumentIdSchema.strict();
+export const DocReadSchema = DocumentIdSchema.merge(DocumentReadOptionsSchema).strict();
 
 /**
  * Blocks 轉 Markdown
@@ -44,15 +46,74 @@ export const DocReadSchema = DocumentIdSchema.strict();
 export const BlocksToMarkdownSchema = z.object({
   blocks: coerceArray(z.record(z.unknown()))
     .describe("Lark blocks array from wiki_read or doc_read"),
+  annotated: coerceBoolean
+    .default(false)
+    .describe("Emit <!-- block_id:xxx index:N --> anchors before each block (default: false)"),
+  resolve_mentions: coerceBoolean
+    .default(true)
+    .describe("Resolve @mentions to user names and doc mentions to titles (default: true; false keeps raw IDs)"),
+  media_dir: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Download images/attachments into this local directory and link them by path instead of lark:// placeholders"),
+}).strict();
+
+/**
+ * 匯出文件為 HTML
+ */
+export const DocExportSchema = DocumentIdSchema.extend({
+  inline_images: coerceBoolean
+    .default(false)
+    .describe("Download images and embed them as data URIs for a self-contained file (default: false; requires output_path)"),
+  standalone: coerceBoolean
+    .default(true)
+    .describe("Wrap in a full HTML document with <head> and styles (default: true; false returns a body fragment)"),
+  resolve_mentions: coerceBoolean
+    .default(true)
+    .describe("Resolve @mentions to user names and doc mentions to titles (default: true; false keeps raw IDs)"),
+  output_path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Write the HTML to this local file path instead of returning it (recommended for large docs or inline_images)"),
+}).strict();
+
+/**
+ * 下載文件中的圖片/附件
+ */
+export const DocMediaDownloadSchema = DocumentIdSchema.extend({
+  block_id: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Image (27) or file (23) block ID (get from doc_read; either block_id or file_token is required)"),
+  file_token: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Media token of an image or file block in this document, e.g. {token} from a lark://image/{token} placeholder"),
+  output_path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Local file path, or an existing directory / path ending with '/' to keep the original file name (omit to return the content inline, max 5 MB)"),
+}).strict();
+
+/**
+ * 比對編輯後的 annotated Markdown
+ */
+export const DocDiffMarkdownSchema = DocumentIdSchema.extend({
+  markdown: z
+    .string()
+    .describe("Edited annotated Markdown (from doc_read format='annotated_markdown')"),
 }).strict();
 
 /**
  * 更新文件 (支援範圍更新)
  */
 export const DocUpdateSchema = DocumentIdSchema.extend({
-  blocks: coerceArray(z.record(z.unknown()))
-    .pipe(z.array(z.record(z.unknown())).min(1))
-    .describe("Lark Block JSON array"),
+  ...ContentInputFields,
   start_index: coerceNumber
     .pipe(z.number().int().min(0))
     .optional()
@@ -61,6 +122,16 @@ export const DocUpdateSchema = DocumentIdSchema.extend({
     .pipe(z.number().int().min(1))
     .optional()
     .describe("End index for range update (exclusive, optional)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 差異同步文件內容
+ */
+export const DocSyncSchema = DocumentIdSchema.extend({
+  ...ContentInputFields,
+  ...SyncDryRunField,
+  ...ExpectedRevisionField,
 }).strict();
 
 /**
@@ -72,9 +143,8 @@ export const DocDeleteSchema = DocumentIdSchema.strict();
  * 文件內容操作 (prepend, append)
  */
 export const DocContentSchema = DocumentIdSchema.extend({
-  blocks: coerceArray(z.record(z.unknown()))
-    .pipe(z.array(z.record(z.unknown())).min(1))
-    .describe("Lark Block JSON array"),
+  ...ContentInputFields,
+  ...ExpectedRevisionField,
 }).strict();
 
 /**
@@ -95,44 +165,191 @@ export const DocMoveSchema = z.object({
     .describe("File type: doc/docx/sheet/bitable/file/folder (default: docx)"),
 }).merge(ResponseFormatSchema).strict();
 
+/**
+ * 複製整份文件（document_id 與 wiki_token 擇一為來源，folder_token 與 space_id 擇一為目標）
+ */
+export const DocCopySchema = z.object({
+  document_id: z
+    .string()
+    .optional()
+    .describe("Source document ID (mutually exclusive with wiki_token)"),
+  wiki_token: z
+    .string()
+    .optional()
+    .describe("Source wiki node token (mutually exclusive with document_id)"),
+  title: z
+    .string()
+    .min(1)
+    .max(200)
+    .describe("Title of the copy (required)"),
+  folder_token: z
+    .string()
+    .optional()
+    .describe("Target folder token (mutually exclusive with space_id)"),
+  space_id: z
+    .string()
+    .optional()
+    .describe("Target wiki space ID (mutually exclusive with folder_token)"),
+  parent_node_token: z
+    .string()
+    .optional()
+    .describe("Target parent wiki node token (optional, with space_id; default: space root)"),
+}).merge(ResponseFormatSchema).strict();
+
+/**
+ * 由範本建立文件（範本來源與目標位置與 doc_copy 相同）
+ */
+export const DocCreateFromTemplateSchema = z.object({
+  template_document_id: z
+    .string()
+    .optional()
+    .describe("Template document ID (mutually exclusive with template_wiki_token)"),
+  template_wiki_token: z
+    .string()
+    .optional()
+    .describe("Template wiki node token (mutually exclusive with template_document_id)"),
+  variables: coerceRecord(z.unknown())
+    .default({})
+    .describe('Values for {{placeholders}}; arrays drive repeating sections, e.g. {"date":"2026-10-19","items":[{"owner":"A","task":"B"}]}'),
+  title: z
+    .string()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe("Title of the new document, may contain {{placeholders}} (optional, default: the template title with placeholders substituted)"),
+  folder_token: z
+    .string()
+    .optional()
+    .describe("Target folder token (mutually exclusive with space_id)"),
+  space_id: z
+    .string()
+    .optional()
+    .describe("Target wiki space ID (mutually exclusive with folder_token)"),
+  parent_node_token: z
+    .string()
+    .optional()
+    .describe("Target parent wiki node token (optional, with space_id; default: space root)"),
+}).merge(ResponseFormatSchema).strict();
+
 /**
  * 插入區塊
  */
 export const DocInsertBlocksSchema = DocumentIdSchema.extend({
-  blocks: coerceArray(z.record(z.unknown()))
-    .pipe(z.array(z.record(z.unknown())).min(1))
-    .describe("Lark Block JSON array"),
-  index: coerceNumber
-    .pipe(z.number().int().min(0))
-    .default(0)
-    .describe("Insert position index (0-based, default: 0)"),
+  ...ContentInputFields,
+  ...BlockPositionFields,
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 插入本機圖片
+ */
+export const DocInsertImageSchema = DocumentIdSchema.extend({
+  file_path: z
+    .string()
+    .optional()
+    .describe("Local image file path (PNG, JPEG, GIF, WebP or BMP; mutually exclusive with image_base64)"),
+  image_base64: z
+    .string()
+    .optional()
+    .describe("Base64-encoded image data, optionally as a data URL (mutually exclusive with file_path)"),
+  file_name: z
+    .string()
+    .optional()
+    .describe("File name stored with the image (default: the file name of file_path, or image.<format>)"),
+  width: coerceNumber
+    .pipe(z.number().int().min(1))
+    .optional()
+    .describe("Display width in px; with only width or height the other side keeps the aspect ratio (default: original size)"),
+  height: coerceNumber
+    .pipe(z.number().int().min(1))
+    .optional()
+    .describe("Display height in px"),
+  align: z
+    .enum(["left", "center", "right"])
+    .optional()
+    .describe("Image alignment (default: center)"),
+  ...BlockPositionFields,
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 插入附件
+ */
+export const DocInsertFileSchema = DocumentIdSchema.extend({
+  file_path: z
+    .string()
+    .optional()
+    .describe("Local file path (mutually exclusive with file_base64)"),
+  file_base64: z
+    .string()
+    .optional()
+    .describe("Base64-encoded file content, optionally as a data URL (mutually exclusive with file_path; file_name required)"),
+  file_name: z
+    .string()
+    .optional()
+    .describe("File name shown on the attachment (default: the file name of file_path)"),
+  ...BlockPositionFields,
+  ...ExpectedRevisionField,
 }).strict();
 
 /**
  * 刪除區塊
  */
 export const DocDeleteBlocksSchema = DocumentIdSchema.extend({
-  start_index: coerceNumber
-    .pipe(z.number().int().min(0))
-    .describe("Start index (0-based, required)"),
-  end_index: coerceNumber
-    .pipe(z.number().int().min(1))
-    .describe("End index (exclusive, required)"),
+  ...BlockRangeFields,
+  ...ExpectedRevisionField,
 }).strict();
 
 /**
  * 移動區塊
  */
 export const DocMoveBlocksSchema = DocumentIdSchema.extend({
-  start_index: coerceNumber
+  ...BlockRangeFields,
+  target_index: coerceNumber
     .pipe(z.number().int().min(0))
-    .describe("Start index of blocks to move (0-based, required)"),
-  end_index: coerceNumber
-    .pipe(z.number().int().min(1))
-    .describe("End index of blocks to move (exclusive, required)"),
+    .optional()
+    .describe("Target position in the target parent's children, counted before the move (0-based)"),
+  target_parent_block_id: z
+    .string()
+    .optional()
+    .describe("Parent block ID to move into (optional, default: the source parent)"),
+  after_block_id: z
+    .string()
+    .optional()
+    .describe("Move right after this block, under its parent (optional)"),
+  before_block_id: z
+    .string()
+    .optional()
+    .describe("Move right before this block, under its parent (optional)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 複製區塊（可跨文件）
+ */
+export const DocCopyBlocksSchema = DocumentIdSchema.extend({
+  ...BlockRangeFields,
+  target_document_id: z
+    .string()
+    .optional()
+    .describe("Document to copy into (optional, default: the source document)"),
+  target_parent_block_id: z
+    .string()
+    .optional()
+    .describe("Parent block ID in the target document to copy into (optional, default: target document root)"),
+  after_block_id: z
+    .string()
+    .optional()
+    .describe("Copy right after this block of the target document, under its parent (optional)"),
+  before_block_id: z
+    .string()
+    .optional()
+    .describe("Copy right before this block of the target document, under its parent (optional)"),
   target_index: coerceNumber
     .pipe(z.number().int().min(0))
-    .describe("Target position to move blocks to (0-based, required)"),
+    .optional()
+    .describe("Position in the target parent's children (0-based, default: 0; ignored with after/before_block_id)"),
+  ...ExpectedRevisionField,
 }).strict();
 
 /**
@@ -142,10 +359,24 @@ export const DocSearchBlocksSchema = DocumentIdSchema.extend({
   keyword: z
     .string()
     .min(1)
-    .describe("Keyword to search (required)"),
+    .describe("Keyword or regular expression to search (required)"),
+  regex: coerceBoolean
+    .default(false)
+    .describe("Treat keyword as a JavaScript regular expression (default: false)"),
+  whole_word: coerceBoolean
+    .default(false)
+    .describe("Only match whole words, not parts of longer words (default: false)"),
   case_sensitive: coerceBoolean
     .default(false)
     .describe("Case sensitive search (default: false)"),
+  context: coerceNumber
+    .pipe(z.number().int().min(0).max(10))
+    .default(0)
+    .describe("Number of text blocks before and after each match to include (0-10, default: 0)"),
+  limit: coerceNumber
+    .pipe(z.number().int().min(1).max(200))
+    .default(50)
+    .describe("Maximum number of matching blocks to return (1-200, default: 50)"),
 }).strict();
 
 /**
@@ -154,6 +385,7 @@ export const DocSearchBlocksSchema = DocumentIdSchema.extend({
 export const DocIndentBlockSchema = DocumentIdSchema.extend({
   block_id: z.string().min(1).describe("Block ID to indent/outdent (get from doc_read)"),
   direction: z.enum(["indent", "outdent"]).describe("indent: move under preceding sibling; outdent: move to grandparent level"),
+  ...ExpectedRevisionField,
 }).strict();
 
 /**
@@ -169,6 +401,281 @@ export const DocBatchUpdateBlocksSchema = DocumentIdSchema.extend({
     }).strict())
     .pipe(z.array(z.any()).min(1).max(100))
     .describe("Array of block update requests (max 100)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 文件內搜尋取代
+ */
+export const DocReplaceTextSchema = DocumentIdSchema.extend({
+  find: z.string().min(1).describe("Text or regular expression to find (required)"),
+  replace: z
+    .string()
+    .describe("Replacement text (required, may be empty). With regex=true, supports $1, $<name>, $& and $$"),
+  regex: coerceBoolean
+    .default(false)
+    .describe("Treat find as a JavaScript regular expression (default: false)"),
+  case_sensitive: coerceBoolean
+    .default(true)
+    .describe("Case sensitive matching (default: true)"),
+  dry_run: coerceBoolean
+    .default(false)
+    .describe("Preview matches without modifying the document (default: false)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 對文件中的文字套用或移除樣式
+ */
+export const DocStyleTextSchema = DocumentIdSchema.extend({
+  find: z.string().min(1).describe("Text or regular expression to find (required)"),
+  regex: coerceBoolean
+    .default(false)
+    .describe("Treat find as a JavaScript regular expression (default: false)"),
+  case_sensitive: coerceBoolean
+    .default(true)
+    .describe("Case sensitive matching (default: true)"),
+  block_ids: coerceArray(z.string())
+    .optional()
+    .describe("Only search these blocks and their descendants (default: whole document)"),
+  bold: coerceBoolean.optional().describe("true applies bold, false removes it"),
+  italic: coerceBoolean.optional().describe("true applies italic, false removes it"),
+  underline: coerceBoolean.optional().describe("true applies underline, false removes it"),
+  strikethrough: coerceBoolean.optional().describe("true applies strikethrough, false removes it"),
+  inline_code: coerceBoolean.optional().describe("true applies inline code, false removes it"),
+  link: z.string().optional().describe("Link URL to apply; empty string removes the link"),
+  text_color: coerceNumber
+    .pipe(z.number().int().min(0).max(7))
+    .optional()
+    .describe("Text color 1-7 (1=red, 2=orange, 3=yellow, 4=green, 5=blue, 6=purple, 7=gray); 0 removes it"),
+  background_color: coerceNumber
+    .pipe(z.number().int().min(0).max(15))
+    .optional()
+    .describe("Background color 1-15 (1-7 light, 8-14 dark, 15 light gray); 0 removes it"),
+  clear: coerceBoolean
+    .default(false)
+    .describe("Remove all existing styles from the matched text before applying the given ones (default: false)"),
+  dry_run: coerceBoolean
+    .default(false)
+    .describe("Preview matches without modifying the document (default: false)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 讀取文件大綱
+ */
+export const DocOutlineSchema = DocumentIdSchema.extend({
+  ...OutlineReadFields,
+}).strict();
+
+/**
+ * 讀取標題區段
+ */
+export const DocSectionReadSchema = DocumentIdSchema.extend({
+  ...SectionLocatorFields,
+  ...SectionReadFields,
+}).strict();
+
+/**
+ * 取代標題區段內容
+ */
+export const DocSectionReplaceSchema = DocumentIdSchema.extend({
+  ...SectionLocatorFields,
+  ...ContentInputFields,
+  include_heading: coerceBoolean
+    .default(false)
+    .describe("Also replace the heading block; the new content should then start with a heading (default: false)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 在標題區段末尾追加內容
+ */
+export const DocSectionAppendSchema = DocumentIdSchema.extend({
+  ...SectionLocatorFields,
+  ...ContentInputFields,
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 刪除標題區段
+ */
+export const DocSectionDeleteSchema = DocumentIdSchema.extend({
+  ...SectionLocatorFields,
+  keep_heading: coerceBoolean
+    .default(false)
+    .describe("Only delete the section body and keep the heading block (default: false)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+// 表格工具共用：表格 block ID
+const TableBlockIdField = {
+  block_id: z
+    .string()
+    .min(1)
+    .describe("Table block ID (block_type 31, get from doc_read)"),
+};
+
+// 表格新增列/欄的初始內容：values[r][c] 為第 r 列第 c 格的 Markdown
+const TableValuesField = {
+  values: coerceArray(z.array(z.string()))
+    .optional()
+    .describe('Initial cell contents as a 2D array of Markdown strings, row by row, e.g. [["a","b"],["c","d"]] (optional)'),
+};
+
+/**
+ * 讀取表格
+ */
+export const DocTableReadSchema = DocumentIdSchema.extend({
+  ...TableBlockIdField,
+  resolve_mentions: coerceBoolean
+    .default(true)
+    .describe("Resolve @mentions to user names and doc mentions to titles (default: true; false keeps raw IDs)"),
+}).strict();
+
+/**
+ * 更新表格儲存格
+ */
+export const DocTableUpdateCellsSchema = DocumentIdSchema.extend({
+  ...TableBlockIdField,
+  cells: coerceArray(z.object({
+      row: coerceNumber.pipe(z.number().int().min(0)).describe("Row index (0-based)"),
+      column: coerceNumber.pipe(z.number().int().min(0)).describe("Column index (0-based)"),
+      markdown: z.string().describe("New cell content in Markdown (empty string clears the cell)"),
+    }).strict())
+    .pipe(z.array(z.any()).min(1))
+    .describe('Cells to update, e.g. [{"row":3,"column":2,"markdown":"**Done**"}]'),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 插入表格列
+ */
+export const DocTableInsertRowsSchema = DocumentIdSchema.extend({
+  ...TableBlockIdField,
+  row_index: coerceNumber
+    .pipe(z.number().int().min(0))
+    .optional()
+    .describe("Insert before this row (0-based, default: append after the last row)"),
+  count: coerceNumber
+    .pipe(z.number().int().min(1).max(100))
+    .default(1)
+    .describe("Number of rows to insert (default: 1)"),
+  ...TableValuesField,
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 插入表格欄
+ */
+export const DocTableInsertColumnsSchema = DocumentIdSchema.extend({
+  ...TableBlockIdField,
+  column_index: coerceNumber
+    .pipe(z.number().int().min(0))
+    .optional()
+    .describe("Insert before this column (0-based, default: append after the last column)"),
+  count: coerceNumber
+    .pipe(z.number().int().min(1).max(100))
+    .default(1)
+    .describe("Number of columns to insert (default: 1)"),
+  ...TableValuesField,
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 刪除表格列
+ */
+export const DocTableDeleteRowsSchema = DocumentIdSchema.extend({
+  ...TableBlockIdField,
+  start_index: coerceNumber
+    .pipe(z.number().int().min(0))
+    .describe("First row to delete (0-based, required)"),
+  end_index: coerceNumber
+    .pipe(z.number().int().min(1))
+    .describe("End row (exclusive, required)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 刪除表格欄
+ */
+export const DocTableDeleteColumnsSchema = DocumentIdSchema.extend({
+  ...TableBlockIdField,
+  start_index: coerceNumber
+    .pipe(z.number().int().min(0))
+    .describe("First column to delete (0-based, required)"),
+  end_index: coerceNumber
+    .pipe(z.number().int().min(1))
+    .describe("End column (exclusive, required)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 合併/取消合併表格儲存格
+ */
+export const DocTableMergeCellsSchema = DocumentIdSchema.extend({
+  ...TableBlockIdField,
+  row_start_index: coerceNumber
+    .pipe(z.number().int().min(0))
+    .describe("First row of the range (0-based, required)"),
+  row_end_index: coerceNumber
+    .pipe(z.number().int().min(1))
+    .optional()
+    .describe("End row (exclusive, required when merging)"),
+  column_start_index: coerceNumber
+    .pipe(z.number().int().min(0))
+    .describe("First column of the range (0-based, required)"),
+  column_end_index: coerceNumber
+    .pipe(z.number().int().min(1))
+    .optional()
+    .describe("End column (exclusive, required when merging)"),
+  unmerge: coerceBoolean
+    .default(false)
+    .describe("Unmerge the merged cell at (row_start_index, column_start_index) instead of merging (default: false)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * 由 CSV / TSV / JSON records 建立表格（csv、tsv、records 擇一）
+ */
+export const DocTableCreateSchema = DocumentIdSchema.extend({
+  csv: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Comma-separated data; quoted fields may contain commas, newlines and \"\" (mutually exclusive with tsv/records)"),
+  tsv: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Tab-separated data, e.g. copied from a spreadsheet (mutually exclusive with csv/records)"),
+  records: coerceArray(z.record(z.unknown()))
+    .optional()
+    .describe('Array of JSON objects; field names become the header row, e.g. [{"name":"A","count":1}] (mutually exclusive with csv/tsv)'),
+  columns: coerceArray(z.string())
+    .optional()
+    .describe("Fields to include for records, in order (optional, default: all fields in first-seen order)"),
+  header_row: coerceBoolean
+    .default(true)
+    .describe("Treat the first row as a header row; always true for records (default: true)"),
+  header_column: coerceBoolean
+    .default(false)
+    .describe("Treat the first column as a header column (default: false)"),
+  column_width: coerceArray(coerceNumber.pipe(z.number().int().min(1)))
+    .optional()
+    .describe("Column widths in px, one per column, e.g. [120,300,80] (optional)"),
+  align: coerceArray(z.enum(["left", "center", "right"]))
+    .optional()
+    .describe('Column alignment, one per column from the left, e.g. ["left","right"] (optional)'),
+  inline_markdown: coerceBoolean
+    .default(false)
+    .describe("Parse cell values as inline Markdown (bold, links, code); default treats them as plain text"),
+  max_rows: coerceNumber
+    .pipe(z.number().int().min(2).max(TABLE_MAX_ROWS))
+    .default(TABLE_MAX_ROWS)
+    .describe(`Maximum rows per table including the header; larger data is split into several tables that repeat the header (default: ${TABLE_MAX_ROWS})`),
+  ...BlockPositionFields,
+  ...ExpectedRevisionField,
 }).strict();
 
 /**
@@ -203,6 +710,28 @@ export const DocPrependOutputSchema = z.object({
   doc_url: z.string().describe("Document URL"),
 }).strict();
 
+export const DocCopyOutputSchema = z.object({
+  document_id: z.string().describe("Document ID of the copy"),
+  title: z.string(),
+  url: z.string(),
+  method: z.enum(["drive_copy", "wiki_copy", "block_copy"]).describe("How the copy was made"),
+  node_token: z.string().optional().describe("Wiki node token when copied into a wiki space"),
+}).strict();
+
+export const DocCreateFromTemplateOutputSchema = z.object({
+  document_id: z.string(),
+  title: z.string(),
+  url: z.string(),
+  node_token: z.string().optional().describe("Wiki node token when created in a wiki space"),
+  missing_variables: z.array(z.string()).describe("Placeholders without a value (left unchanged in the document)"),
+}).strict();
+
+export const DocCopyBlocksOutputSchema = z.object({
+  document_id: z.string().describe("Target document ID"),
+  url: z.string(),
+  block_ids: z.array(z.string()).describe("IDs of the new top-level blocks, in order"),
+}).strict();
+
 export const DocDeleteOutputSchema = z.object({
   document_id: z.string(),
 }).strict();
@@ -213,12 +742,142 @@ export const DocMoveOutputSchema = z.object({
   task_id: z.string().optional(),
 }).strict();
 
+const BlockRefSchema = z.object({
+  block_id: z.string(),
+  block_type: z.number(),
+  text: z.string().optional(),
+}).strict();
+
 export const DocSearchBlocksOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  total: z.number().describe("Number of matching blocks, including those beyond limit"),
   items: z.array(z.object({
-    index: z.number(),
+    block_id: z.string(),
     block_type: z.number(),
+    index: z.number().describe("Root index of the enclosing top-level block"),
+    parent_chain: z.array(BlockRefSchema).describe("Ancestors from the top-level block down to the direct parent"),
+    heading: z.object({
+      block_id: z.string(),
+      level: z.number(),
+      text: z.string(),
+    }).strict().optional().describe("Nearest preceding heading in document order"),
     text: z.string(),
+    matches: z.array(z.object({
+      offset: z.number(),
+      length: z.number(),
+      match: z.string(),
+    }).strict()),
+    context_before: z.array(BlockRefSchema).optional(),
+    context_after: z.array(BlockRefSchema).optional(),
+  }).strict()),
+}).strict();
+
+export const MarkdownDiffOutputSchema = z.object({
+  changed: z.array(z.object({
+    block_id: z.string(),
+    index: z.number().optional(),
+    block_type: z.number(),
+    markdown: z.string(),
+    elements: z.array(z.record(z.unknown())).optional(),
   })),
+  removed: z.array(z.object({
+    block_id: z.string(),
+    index: z.number().optional(),
+    block_type: z.number(),
+  })),
+  added: z.array(z.object({
+    after_block_id: z.string().nullable(),
+    after_index: z.number().optional(),
+    markdown: z.string(),
+  })),
+  unchanged_count: z.number(),
+  revision_id: z.number().optional(),
+}).strict();
+
+export const DocReplaceTextOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  dry_run: z.boolean(),
+  match_count: z.number(),
+  block_count: z.number(),
+  matches: z.array(z.object({
+    block_id: z.string(),
+    block_type: z.number(),
+    offset: z.number(),
+    match: z.string(),
+    replacement: z.string(),
+    context: z.string(),
+  })),
+}).strict();
+
+export const DocStyleTextOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  dry_run: z.boolean(),
+  match_count: z.number(),
+  block_count: z.number().describe("Blocks whose styles changed"),
+  matches: z.array(z.object({
+    block_id: z.string(),
+    block_type: z.number(),
+    offset: z.number(),
+    match: z.string(),
+    context: z.string(),
+  })),
+}).strict();
+
+export const DocSyncOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  ...SyncOutputFields,
+}).strict();
+
+export const DocOutlineOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  ...OutlineOutputFields,
+}).strict();
+
+export const DocSectionOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  ...SectionOutputFields,
+}).strict();
+
+export const DocTableOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  block_id: z.string().describe("Table block ID"),
+  rows: z.number().describe("Row count after the edit"),
+  columns: z.number().describe("Column count after the edit"),
+}).strict();
+
+export const DocInsertImageOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  block_id: z.string().describe("Image block ID"),
+  file_token: z.string().describe("Uploaded media token"),
+  width: z.number(),
+  height: z.number(),
+}).strict();
+
+export const DocInsertFileOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  block_id: z.string().describe("Outer block ID (the view block wrapping the file block)"),
+  file_block_id: z.string().describe("File block ID"),
+  file_token: z.string().describe("Uploaded media token (usable with doc_media_download)"),
+  file_name: z.string(),
+  bytes: z.number(),
+  chunked: z.boolean().describe("Whether the file was uploaded in parts"),
+}).strict();
+
+export const DocTableCreateOutputSchema = z.object({
+  document_id: z.string(),
+  url: z.string(),
+  tables: z.number().describe("Number of tables created (more than 1 when the data was split)"),
+  rows: z.number().describe("Data row count including the header"),
+  columns: z.number().describe("Data column count"),
 }).strict();
 
 export const DriveListOutputSchema = z.object({
@@ -246,14 +905,38 @@ export const DriveRecentOutputSchema = z.object({
 export type DocCreateInput = z.infer<typeof DocCreateSchema>;
 export type DocReadInput = z.infer<typeof DocReadSchema>;
 export type DocUpdateInput = z.infer<typeof DocUpdateSchema>;
+export type DocSyncInput = z.infer<typeof DocSyncSchema>;
 export type DocDeleteInput = z.infer<typeof DocDeleteSchema>;
 export type DocContentInput = z.infer<typeof DocContentSchema>;
 export type DocMoveInput = z.infer<typeof DocMoveSchema>;
+export type DocCopyInput = z.infer<typeof DocCopySchema>;
+export type DocCopyBlocksInput = z.infer<typeof DocCopyBlocksSchema>;
+export type DocCreateFromTemplateInput = z.infer<typeof DocCreateFromTemplateSchema>;
 export type DocInsertBlocksInput = z.infer<typeof DocInsertBlocksSchema>;
+export type DocInsertImageInput = z.infer<typeof DocInsertImageSchema>;
+export type DocInsertFileInput = z.infer<typeof DocInsertFileSchema>;
 export type DocDeleteBlocksInput = z.infer<typeof DocDeleteBlocksSchema>;
 export type DocMoveBlocksInput = z.infer<typeof DocMoveBlocksSchema>;
+export type DocExportInput = z.infer<typeof DocExportSchema>;
+export type DocMediaDownloadInput = z.infer<typeof DocMediaDownloadSchema>;
+export type DocDiffMarkdownInput = z.infer<typeof DocDiffMarkdownSchema>;
 export type DocSearchBlocksInput = z.infer<typeof DocSearchBlocksSchema>;
 export type DocIndentBlockInput = z.infer<typeof DocIndentBlockSchema>;
 export type DocBatchUpdateBlocksInput = z.infer<typeof DocBatchUpdateBlocksSchema>;
+export type DocReplaceTextInput = z.infer<typeof DocReplaceTextSchema>;
+export type DocStyleTextInput = z.infer<typeof DocStyleTextSchema>;
+export type DocOutlineInput = z.infer<typeof DocOutlineSchema>;
+export type DocSectionReadInput = z.infer<typeof DocSectionReadSchema>;
+export type DocSectionReplaceInput = z.infer<typeof DocSectionReplaceSchema>;
+export type DocSectionAppendInput = z.infer<typeof DocSectionAppendSchema>;
+export type DocSectionDeleteInput = z.infer<typeof DocSectionDeleteSchema>;
+export type DocTableReadInput = z.infer<typeof DocTableReadSchema>;
+export type DocTableUpdateCellsInput = z.infer<typeof DocTableUpdateCellsSchema>;
+export type DocTableInsertRowsInput = z.infer<typeof DocTableInsertRowsSchema>;
+export type DocTableInsertColumnsInput = z.infer<typeof DocTableInsertColumnsSchema>;
+export type DocTableDeleteRowsInput = z.infer<typeof DocTableDeleteRowsSchema>;
+export type DocTableDeleteColumnsInput = z.infer<typeof DocTableDeleteColumnsSchema>;
+export type DocTableMergeCellsInput = z.infer<typeof DocTableMergeCellsSchema>;
+export type DocTableCreateInput = z.infer<typeof DocTableCreateSchema>;
 export type DriveListInput = z.infer<typeof DriveListSchema>;
 export type DriveRecentInput = z.infer<typeof DriveRecentSchema>;
@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { ListPaginationSchema, SearchPaginationSchema, ResponseFormatSchema, PaginationOutputFields, coerceNumber, coerceArray } from "./common.js";
+import { ListPaginationSchema, SearchPaginationSchema, ResponseFormatSchema, DocumentReadOptionsSchema, PaginationOutputFields, ContentInputFields, BlockPositionFields, SyncOutputFields, SyncDryRunField, ExpectedRevisionField, SectionLocatorFields, SectionReadFields, SectionOutputFields, OutlineReadFields, OutlineOutputFields, coerceNumber, coerceBoolean } from "./common.js";
 
 /**
  * Wiki Token 參數
@@ -18,15 +18,30 @@ export const WikiTokenSchema = z.object({
 /**
  * Wiki 讀取
  */
-export const WikiReadSchema = WikiTokenSchema.strict();
+export const WikiReadSchema = WikiTokenSchema.merge(DocumentReadOptionsSchema).strict();
+
+/**
+ * Wiki 比對編輯後的 annotated Markdown
+ */
+export const WikiDiffMarkdownSchema = WikiTokenSchema.extend({
+  markdown: z
+    .string()
+    .describe("Edited annotated Markdown (from wiki_read format='annotated_markdown')"),
+}).strict();
 
 /**
  * Wiki 內容操作 (prepend, append, update)
  */
 export const WikiContentSchema = WikiTokenSchema.extend({
-  blocks: coerceArray(z.record(z.unknown()))
-    .pipe(z.array(z.record(z.unknown())).min(1))
-    .describe("Lark Block JSON array"),
+  ...ContentInputFields,
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * Wiki 差異同步
+ */
+export const WikiSyncSchema = WikiContentSchema.extend({
+  ...SyncDryRunField,
 }).strict();
 
 /**
@@ -47,10 +62,7 @@ export const WikiUpdateSchema = WikiContentSchema.extend({
  * Wiki 插入區塊
  */
 export const WikiInsertBlocksSchema = WikiContentSchema.extend({
-  index: coerceNumber
-    .pipe(z.number().int().min(0))
-    .default(0)
-    .describe("Insert position index (0-based, default: 0)"),
+  ...BlockPositionFields,
 }).strict();
 
 /**
@@ -63,6 +75,50 @@ export const WikiDeleteBlocksSchema = WikiTokenSchema.extend({
   end_index: coerceNumber
     .pipe(z.number().int().min(1))
     .describe("End index (exclusive, required)"),
+  ...ExpectedRevisionField,
+}).strict();
+
+/**
+ * Wiki 讀取文件大綱
+ */
+export const WikiOutlineSchema = WikiTokenSchema.extend({
+  ...OutlineReadFields,
+}).strict();
+
+/**
+ * Wiki 讀取標題區段
+ */
+export const WikiSectionReadSchema = WikiTokenSchema.extend({
+  ...SectionLocatorFields,
+  ...SectionReadFields,
+}).strict();
+
+/**
+ * Wiki 取代標題區段內容
+ */
+export const WikiSectionReplaceSchema = WikiContentSchema.extend({
+  ...SectionLocatorFields,
+  include_heading: coerceBoolean
+    .default(false)
+    .describe("Also replace the heading block; the new content should then start with a heading (default: false)"),
+}).strict();
+
+/**
+ * Wiki 在標題區段末尾追加內容
+ */
+export const WikiSectionAppendSchema = WikiContentSchema.extend({
+  ...SectionLocatorFields,
+}).strict();
+
+/**
+ * Wiki 刪除標題區段
+ */
+export const WikiSectionDeleteSchema = WikiTokenSchema.extend({
+  ...SectionLocatorFields,
+  keep_heading: coerceBoolean
+    .default(false)
+    .describe("Only delete the section body and keep the heading block (default: false)"),
+  ...ExpectedRevisionField,
 }).strict();
 
 /**
@@ -151,12 +207,100 @@ export const SearchAllSchema = z.object({
     .describe("Limit to specific wiki space (optional)"),
 }).merge(SearchPaginationSchema).merge(ResponseFormatSchema).strict();
 
+/**
+ * 跨文件全文搜尋（資料夾或 Wiki 子樹）
+ */
+export const ContentSearchSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .describe("Text or regular expression to find in document content (required)"),
+  regex: coerceBoolean
+    .default(false)
+    .describe("Treat query as a JavaScript regular expression (default: false)"),
+  whole_word: coerceBoolean
+    .default(false)
+    .describe("Only match whole words (default: false)"),
+  case_sensitive: coerceBoolean
+    .default(false)
+    .describe("Case sensitive matching (default: false)"),
+  folder_token: z
+    .string()
+    .optional()
+    .describe("Search documents in this Drive folder and its subfolders"),
+  wiki_token: z
+    .string()
+    .optional()
+    .describe("Search this wiki node and its descendants"),
+  wiki_space_id: z
+    .string()
+    .optional()
+    .describe("Search the whole wiki space"),
+  max_depth: coerceNumber
+    .pipe(z.number().int().min(0).max(10))
+    .default(3)
+    .describe("Levels of subfolders / child nodes to descend (0-10, default: 3)"),
+  max_documents: coerceNumber
+    .pipe(z.number().int().min(1).max(500))
+    .default(50)
+    .describe("Maximum number of documents to read (1-500, default: 50)"),
+  max_matches_per_document: coerceNumber
+    .pipe(z.number().int().min(1).max(20))
+    .default(3)
+    .describe("Maximum matching blocks returned per document (1-20, default: 3)"),
+}).strict();
+
 // === Output Schemas ===
 
 export const WikiUrlOutputSchema = z.object({
   wiki_url: z.string().describe("Wiki page URL"),
 }).strict();
 
+export const WikiSyncOutputSchema = z.object({
+  wiki_url: z.string(),
+  ...SyncOutputFields,
+}).strict();
+
+export const WikiOutlineOutputSchema = z.object({
+  wiki_url: z.string(),
+  document_id: z.string().describe("Document ID of the wiki page"),
+  ...OutlineOutputFields,
+}).strict();
+
+export const ContentSearchOutputSchema = z.object({
+  query: z.string(),
+  scanned_documents: z.number().describe("Documents read"),
+  matched_documents: z.number(),
+  skipped: z.number().describe("Files or nodes skipped because they are not docx documents"),
+  truncated: z.boolean().describe("The crawl stopped at max_depth or max_documents before covering everything"),
+  errors: z.array(z.object({
+    title: z.string(),
+    token: z.string(),
+    message: z.string(),
+  }).strict()).describe("Folders, nodes or documents that could not be read"),
+  documents: z.array(z.object({
+    title: z.string(),
+    document_id: z.string(),
+    url: z.string(),
+    wiki_token: z.string().optional(),
+    path: z.string().describe("Parent folders or nodes, separated by ' / '"),
+    match_count: z.number().describe("Matching blocks in the document, including those beyond the limit"),
+    matches: z.array(z.object({
+      block_id: z.string(),
+      block_type: z.number(),
+      heading: z.string().optional().describe("Nearest preceding heading"),
+      heading_block_id: z.string().optional(),
+      snippet: z.string().describe("Text around the first match in the block, match marked with []"),
+      offset: z.number(),
+    }).strict()),
+  }).strict()),
+}).strict();
+
+export const WikiSectionOutputSchema = z.object({
+  wiki_url: z.string(),
+  ...SectionOutputFields,
+}).strict();
+
 export const WikiCreateNodeOutputSchema = z.object({
   node_token: z.string().optional(),
   obj_token: z.string().optional(),
@@ -201,12 +345,20 @@ export const SearchAllOutputSchema = z.object({
 
 // 型別匯出
 export type WikiReadInput = z.infer<typeof WikiReadSchema>;
+export type WikiDiffMarkdownInput = z.infer<typeof WikiDiffMarkdownSchema>;
 export type WikiContentInput = z.infer<typeof WikiContentSchema>;
 export type WikiUpdateInput = z.infer<typeof WikiUpdateSchema>;
+export type WikiSyncInput = z.infer<typeof WikiSyncSchema>;
 export type WikiInsertBlocksInput = z.infer<typeof WikiInsertBlocksSchema>;
 export type WikiDeleteBlocksInput = z.infer<typeof WikiDeleteBlocksSchema>;
+export type WikiOutlineInput = z.infer<typeof WikiOutlineSchema>;
+export type WikiSectionReadInput = z.infer<typeof WikiSectionReadSchema>;
+export type WikiSectionReplaceInput = z.infer<typeof WikiSectionReplaceSchema>;
+export type WikiSectionAppendInput = z.infer<typeof WikiSectionAppendSchema>;
+export type WikiSectionDeleteInput = z.infer<typeof WikiSectionDeleteSchema>;
 export type WikiListNodesInput = z.infer<typeof WikiListNodesSchema>;
 export type WikiSpacesInput = z.infer<typeof WikiSpacesSchema>;
 export type WikiCreateNodeInput = z.infer<typeof WikiCreateNodeSchema>;
 export type WikiMoveNodeInput = z.infer<typeof WikiMoveNodeSchema>;
 export type SearchAllInput = z.infer<typeof SearchAllSchema>;
+export type ContentSearchInput = z.infer<typeof ContentSearchSchema>;
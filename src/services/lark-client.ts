@@ -3,13 +3,13 @@
  * 使用 User Access Token (OAuth 授權流程)
  */
 
-import { readFileSync, writeFileSync } from "fs";
+import { readFileSync, writeFileSync, mkdirSync, statSync } from "fs";
 import { homedir } from "os";
-import { join } from "path";
+import { join, dirname } from "path";
 import { exec } from "child_process";
-import { BASE_URL, CALLBACK_PORT, TOKEN_FILE_NAME, setLarkBaseUrl, getLarkBaseUrl, BATCH_SIZE } from "../constants.js";
+import { BASE_URL, CALLBACK_PORT, TOKEN_FILE_NAME, setLarkBaseUrl, getLarkBaseUrl, BATCH_SIZE, MEDIA_UPLOAD_MAX_BYTES } from "../constants.js";
 import type { TokenData, LarkBlock } from "../types.js";
-import { LarkError } from "../utils/errors.js";
+import { LarkError, RevisionConflictError } from "../utils/errors.js";
 import { startCallbackServer } from "../utils/oauth-callback.js";
 import { globalRateLimiter, documentRateLimiter } from "../utils/rate-limiter.js";
 import { withRetryAndRefresh } from "../utils/retry.js";
@@ -411,12 +411,16 @@ export async function getWikiNode(wikiToken: string): Promise<{
   objToken: string;
   objType: string;
   spaceId: string;
+  title?: string;
+  hasChild?: boolean;
 }> {
   const data = await larkRequest<{
     node: {
       obj_token: string;
       obj_type: string;
       space_id: string;
+      title?: string;
+      has_child?: boolean;
     };
   }>("/wiki/v2/spaces/get_node", {
     params: { token: wikiToken },
@@ -426,6 +430,8 @@ export async function getWikiNode(wikiToken: string): Promise<{
     objToken: data.node.obj_token,
     objType: data.node.obj_type,
     spaceId: data.node.space_id,
+    title: data.node.title,
+    hasChild: data.node.has_child,
   };
 }
 
@@ -458,6 +464,16 @@ export async function getDocumentBlocks(
   return allBlocks;
 }
 
+/**
+ * 取得單一 block
+ */
+export async function getBlock(documentId: string, blockId: string): Promise<LarkBlock> {
+  const data = await larkRequest<{ block: LarkBlock }>(
+    `/docx/v1/documents/${documentId}/blocks/${blockId}`
+  );
+  return data.block;
+}
+
 /**
  * 取得文件根 block ID
  */
@@ -466,6 +482,129 @@ export async function getDocumentRootBlockId(documentId: string): Promise<string
   return documentId;
 }
 
+/**
+ * 取得文件目前的版本號
+ */
+export async function getDocumentRevision(documentId: string): Promise<number> {
+  const data = await larkRequest<{
+    document: { revision_id: number };
+  }>(`/docx/v1/documents/${documentId}`);
+  return data.document.revision_id;
+}
+
+/**
+ * 樂觀並行控制：檢查 expectedRevision 是否仍為文件目前版本
+ * 回傳要帶入第一個寫入請求的 document_revision_id（未指定時為 -1，即最新版本）
+ * 版本不符時拋出 RevisionConflictError，附上最後修改者與時間
+ */
+export async function checkDocumentRevision(documentId: string, expectedRevision?: number): Promise<number> {
+  if (expectedRevision === undefined) return -1;
+
+  const currentRevision = await getDocumentRevision(documentId);
+  if (currentRevision === expectedRevision) return expectedRevision;
+
+  const lastModified: { by?: string; at?: string } = {};
+  try {
+    const data = await larkRequest<{
+      metas?: Array<{ latest_modify_user?: string; latest_modify_time?: string }>;
+    }>("/drive/v1/metas/batch_query", {
+      method: "POST",
+      body: { request_docs: [{ doc_token: documentId, doc_type: "docx" }] },
+    });
+    const meta = data.metas?.[0];
+    if (meta?.latest_modify_user) {
+      lastModified.by = (await getUserName(meta.latest_modify_user).catch(() => undefined)) || meta.latest_modify_user;
+    }
+    if (meta?.latest_modify_time) {
+      lastModified.at = new Date(parseInt(meta.latest_modify_time) * 1000).toISOString();
+    }
+  } catch {
+    // 取不到修改資訊時仍回報版本衝突
+  }
+
+  throw new RevisionConflictError(documentId, expectedRevision, currentRevision, lastModified);
+}
+
+/**
+ * 取得 block 在 parent children 中的位置
+ */
+async function locateBlock(
+  documentId: string,
+  blockId: string
+): Promise<{ parentId: string; index: number; siblings: string[] }> {
+  const block = await getBlock(documentId, blockId);
+  if (!block.parent_id) {
+    throw new Error(`Block ${blockId} has no parent (the page block cannot be used as a position)`);
+  }
+
+  const parent = await getBlock(documentId, block.parent_id);
+  const siblings = parent.children || [];
+  const index = siblings.indexOf(blockId);
+  if (index === -1) {
+    throw new Error(`Block ${blockId} not found in parent's children`);
+  }
+
+  return { parentId: block.parent_id, index, siblings };
+}
+
+/**
+ * 解析插入位置
+ * - afterBlockId / beforeBlockId：插入到錨點 block 之後/之前（同一個 parent）
+ * - 否則插入到 parentBlockId（預設為文件根節點）children 的 index 位置
+ */
+export async function resolveInsertPosition(
+  documentId: string,
+  position: { parentBlockId?: string; afterBlockId?: string; beforeBlockId?: string; index?: number }
+): Promise<{ parentId: string; index: number }> {
+  const anchorId = position.afterBlockId || position.beforeBlockId;
+  if (anchorId) {
+    const { parentId, index } = await locateBlock(documentId, anchorId);
+    if (position.parentBlockId && position.parentBlockId !== parentId) {
+      throw new Error(`Block ${anchorId} is not a child of parent block ${position.parentBlockId}`);
+    }
+    return { parentId, index: position.afterBlockId ? index + 1 : index };
+  }
+
+  const parentId = position.parentBlockId || (await getDocumentRootBlockId(documentId));
+  const index = position.index ?? 0;
+  if (position.parentBlockId) {
+    const parent = await getBlock(documentId, parentId);
+    const count = parent.children?.length ?? 0;
+    if (index > count) {
+      throw new Error(`Invalid index: parent block ${parentId} has ${count} children, but index is ${index}`);
+    }
+  }
+  return { parentId, index };
+}
+
+/**
+ * 解析 block 範圍
+ * - blockId：從該 block 起連續 count 個 sibling（parent 自動取得）
+ * - 否則為 parentBlockId（預設為文件根節點）children 的 [startIndex, endIndex)
+ */
+export async function resolveBlockRange(
+  documentId: string,
+  range: { parentBlockId?: string; blockId?: string; count?: number; startIndex?: number; endIndex?: number }
+): Promise<{ parentId: string; startIndex: number; endIndex: number }> {
+  if (range.blockId) {
+    const { parentId, index, siblings } = await locateBlock(documentId, range.blockId);
+    if (range.parentBlockId && range.parentBlockId !== parentId) {
+      throw new Error(`Block ${range.blockId} is not a child of parent block ${range.parentBlockId}`);
+    }
+    const endIndex = index + (range.count ?? 1);
+    if (endIndex > siblings.length) {
+      throw new Error(`Invalid count: only ${siblings.length - index} blocks from ${range.blockId} to the end of its parent`);
+    }
+    return { parentId, startIndex: index, endIndex };
+  }
+
+  if (range.startIndex === undefined || range.endIndex === undefined) {
+    throw new Error("Either block_id or start_index/end_index is required");
+  }
+  const parentId = range.parentBlockId || (await getDocumentRootBlockId(documentId));
+  return { parentId, startIndex: range.startIndex, endIndex: range.endIndex };
+}
+
 /**
  * 刪除文件中指定範圍的子 blocks
  */
@@ -473,12 +612,13 @@ export async function deleteBlockRange(
   documentId: string,
   parentBlockId: string,
   startIndex: number,
-  endIndex: number
+  endIndex: number,
+  revisionId = -1
 ): Promise<void> {
   await larkRequest(`/docx/v1/documents/${documentId}/blocks/${parentBlockId}/children/batch_delete`, {
     method: "DELETE",
     body: {
-      document_revision_id: -1,
+      document_revision_id: revisionId,
       start_index: startIndex,
       end_index: endIndex,
     },
@@ -494,7 +634,8 @@ async function insertTableBlock(
   documentId: string,
   parentBlockId: string,
   block: Record<string, unknown>,
-  index: number
+  index: number,
+  revisionId = -1
 ): Promise<void> {
   // 提取 cell 內容並移除 metadata
   const cellContents = block._cellContents as Array<Record<string, unknown>> | undefined;
@@ -513,7 +654,7 @@ async function insertTableBlock(
       body: {
         children: [tableBlock],
         index,
-        document_revision_id: -1,
+        document_revision_id: revisionId,
       },
       skipRateLimit: true,
     })
@@ -549,41 +690,431 @@ export async function insertSingleBlock(
   documentId: string,
   parentBlockId: string,
   block: Record<string, unknown>,
-  index: number
+  index: number,
+  revisionId = -1
 ): Promise<string> {
+  return (await createBlock(documentId, parentBlockId, block, index, revisionId)).block_id;
+}
+
+/**
+ * Block 子樹（移除 block_id / parent_id / children 後的內容與子節點）
+ */
+export interface BlockTree {
+  content: Record<string, unknown>;
+  childTrees: BlockTree[];
+}
+
+/**
+ * 從 getDocumentBlocks 結果遞迴收集 block 子樹
+ */
+export function collectBlockTree(blockMap: Map<string, LarkBlock>, blockId: string): BlockTree {
+  const block = blockMap.get(blockId);
+  if (!block) throw new Error(`Block ${blockId} not found`);
+
+  const { block_id: _id, parent_id: _pid, children, ...content } = block;
+  const childTrees = (children || [])
+    .filter((id) => blockMap.has(id))
+    .map((id) => collectBlockTree(blockMap, id));
+  return { content, childTrees };
+}
+
+/**
+ * 無法透過 API 重建內容的 block 類型（複製會遺失資料，因此直接拒絕）
+ */
+const UNCOPYABLE_BLOCK_TYPES: Record<number, string> = {
+  18: "bitable",
+  20: "chat_card",
+  21: "diagram",
+  28: "isv",
+  29: "mindnote",
+  30: "sheet",
+  35: "task",
+  36: "okr",
+  40: "add_ons",
+  41: "jira_issue",
+  42: "wiki_catalog",
+  43: "board",
+  999: "undefined",
+};
+
+/**
+ * 檢查子樹是否都能被複製，應在刪除或寫入前呼叫
+ */
+export function assertCopyable(trees: BlockTree[]): void {
+  for (const tree of trees) {
+    const blockType = tree.content.block_type as number;
+    const name = UNCOPYABLE_BLOCK_TYPES[blockType];
+    if (name) {
+      throw new Error(`Block type ${blockType} (${name}) cannot be copied through the API`);
+    }
+    assertCopyable(tree.childTrees);
+  }
+}
+
+/**
+ * 子樹複製選項
+ */
+export interface CopyOptions {
+  /** 子樹來源文件（跨文件複製時圖片/附件需重新上傳），預設與目標文件相同 */
+  sourceDocumentId?: string;
+}
+
+/**
+ * 複製過程的共用狀態
+ * placeholders：建立時自動產生預設空段落的容器（表格儲存格、分欄），複製完成後刪除 keep 之後的多餘 children
+ */
+interface CopyContext {
+  documentId: string;
+  sameDocument: boolean;
+  placeholders: Array<{ blockId: string; keep: number }>;
+}
+
+// 需要特殊建立流程的 block：grid / image / file / view / table
+const SPECIAL_COPY_TYPES = new Set([23, 24, 27, 31, 33]);
+
+/**
+ * 移除讀取 API 才有的欄位（評論 ID 不可寫入，跨文件也無意義）
+ */
+function writableContent(content: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(content, (key, value) => (key === "comment_ids" ? undefined : value)));
+}
+
+/**
+ * 建立單一 block 並回傳 API 回應中的 block
+ */
+async function createBlock(
+  documentId: string,
+  parentBlockId: string,
+  block: Record<string, unknown>,
+  index: number,
+  revisionId = -1
+): Promise<LarkBlock> {
   const data = await documentRateLimiter.throttle(documentId, () =>
-    larkRequest<{ children?: Array<{ block_id?: string }> }>(
-      `/docx/v1/documents/${documentId}/blocks/${parentBlockId}/children`,
-      {
-        method: "POST",
-        body: {
-          children: [block],
-          index,
-          document_revision_id: -1,
-        },
-        skipRateLimit: true,
+    larkRequest<{ children?: LarkBlock[] }>(`/docx/v1/documents/${documentId}/blocks/${parentBlockId}/children`, {
+      method: "POST",
+      body: {
+        children: [block],
+        index,
+        document_revision_id: revisionId,
+      },
+      skipRateLimit: true,
+    })
+  );
+  const created = data.children?.[0];
+  if (!created?.block_id) throw new Error("Failed to get new block ID after insert");
+  return created;
+}
+
+/**
+ * 取得素材 token：同文件直接引用，跨文件則下載後上傳到新 block
+ */
+async function copyMediaToken(
+  ctx: CopyContext,
+  token: string,
+  parentType: "docx_image" | "docx_file",
+  blockId: string,
+  fileName?: string
+): Promise<string> {
+  if (ctx.sameDocument) return token;
+
+  const media = await downloadMedia(token);
+  return uploadMedia(ctx.documentId, blockId, parentType, media.data, fileName || media.fileName || token);
+}
+
+/**
+ * 依序插入多個子樹：沒有 children 的一般 block 合併成批次，其他逐一建立
+ */
+async function insertTreeList(
+  ctx: CopyContext,
+  parentBlockId: string,
+  trees: BlockTree[],
+  index: number,
+  revisionId: number
+): Promise<string[]> {
+  const ids: string[] = [];
+  let currentIndex = index;
+  let batch: Array<Record<string, unknown>> = [];
+  let pendingRevision = revisionId;
+  const takeRevision = () => {
+    const revision = pendingRevision;
+    pendingRevision = -1;
+    return revision;
+  };
+
+  const flushBatch = async () => {
+    for (let i = 0; i < batch.length; i += BATCH_SIZE) {
+      const children = batch.slice(i, i + BATCH_SIZE);
+      const data = await documentRateLimiter.throttle(ctx.documentId, () =>
+        larkRequest<{ children?: LarkBlock[] }>(
+          `/docx/v1/documents/${ctx.documentId}/blocks/${parentBlockId}/children`,
+          {
+            method: "POST",
+            body: { children, index: currentIndex, document_revision_id: takeRevision() },
+            skipRateLimit: true,
+          }
+        )
+      );
+      ids.push(...(data.children || []).map((b) => b.block_id));
+      currentIndex += children.length;
+    }
+    batch = [];
+  };
+
+  for (const tree of trees) {
+    const blockType = tree.content.block_type as number;
+    if (tree.childTrees.length === 0 && !SPECIAL_COPY_TYPES.has(blockType)) {
+      batch.push(writableContent(tree.content));
+      continue;
+    }
+    await flushBatch();
+    ids.push(await insertTreeNode(ctx, parentBlockId, tree, currentIndex, takeRevision()));
+    currentIndex += 1;
+  }
+  await flushBatch();
+
+  return ids;
+}
+
+/**
+ * 建立單一子樹，回傳新的根 block_id
+ */
+async function insertTreeNode(
+  ctx: CopyContext,
+  parentBlockId: string,
+  tree: BlockTree,
+  index: number,
+  revisionId: number
+): Promise<string> {
+  const content = writableContent(tree.content) as Partial<LarkBlock> & Record<string, unknown>;
+
+  switch (content.block_type) {
+    case 31:
+      return insertTableTree(ctx, parentBlockId, content, tree.childTrees, index, revisionId);
+    case 24:
+      return insertGridTree(ctx, parentBlockId, content, tree.childTrees, index, revisionId);
+    case 27:
+      return insertImageTree(ctx, parentBlockId, content, index, revisionId);
+    case 23:
+    case 33: {
+      // View block 只是 file block 的外框，由建立 file block 時自動產生
+      const file = content.block_type === 33 ? tree.childTrees[0]?.content : content;
+      if (!file || file.block_type !== 23) {
+        throw new Error("View block without a file cannot be copied");
       }
-    )
+      return insertFileTree(ctx, parentBlockId, file as Partial<LarkBlock>, index, revisionId);
+    }
+    default: {
+      const blockId = (await createBlock(ctx.documentId, parentBlockId, content, index, revisionId)).block_id;
+      await insertTreeList(ctx, blockId, tree.childTrees, 0, -1);
+      return blockId;
+    }
+  }
+}
+
+/**
+ * 表格：建立空表格後填入各儲存格的子樹，再還原合併儲存格
+ * merge_info 與 cells 為唯讀欄位，建立時只帶入尺寸與樣式屬性
+ */
+async function insertTableTree(
+  ctx: CopyContext,
+  parentBlockId: string,
+  content: Partial<LarkBlock>,
+  cellTrees: BlockTree[],
+  index: number,
+  revisionId: number
+): Promise<string> {
+  const { merge_info: mergeInfo, ...property } = content.table?.property || {};
+  const table = await createBlock(
+    ctx.documentId,
+    parentBlockId,
+    { block_type: 31, table: { property } },
+    index,
+    revisionId
   );
-  const newId = data.children?.[0]?.block_id;
-  if (!newId) throw new Error("Failed to get new block ID after insert");
-  return newId;
+  const cellIds = table.table?.cells || [];
+
+  for (let i = 0; i < cellTrees.length && i < cellIds.length; i++) {
+    await insertTreeList(ctx, cellIds[i], cellTrees[i].childTrees, 0, -1);
+    if (cellTrees[i].childTrees.length > 0) {
+      ctx.placeholders.push({ blockId: cellIds[i], keep: cellTrees[i].childTrees.length });
+    }
+  }
+
+  const columns = property.column_size || 0;
+  for (let i = 0; columns > 0 && i < (mergeInfo || []).length; i++) {
+    const { row_span = 1, col_span = 1 } = mergeInfo![i];
+    if (row_span <= 1 && col_span <= 1) continue;
+
+    const row = Math.floor(i / columns);
+    const column = i % columns;
+    await updateBlock(ctx.documentId, table.block_id, {
+      merge_table_cells: {
+        row_start_index: row,
+        row_end_index: row + row_span,
+        column_start_index: column,
+        column_end_index: column + col_span,
+      },
+    });
+  }
+
+  return table.block_id;
+}
+
+/**
+ * 分欄：建立後依原本的寬度比例調整，再填入各欄的子樹
+ */
+async function insertGridTree(
+  ctx: CopyContext,
+  parentBlockId: string,
+  content: Record<string, unknown>,
+  columnTrees: BlockTree[],
+  index: number,
+  revisionId: number
+): Promise<string> {
+  const grid = await createBlock(ctx.documentId, parentBlockId, content, index, revisionId);
+  const columnIds = grid.children?.length ? grid.children : (await getBlock(ctx.documentId, grid.block_id)).children || [];
+
+  const widthRatios = columnTrees.map((t) => (t.content as Partial<LarkBlock>).grid_column?.width_ratio);
+  if (widthRatios.length === columnIds.length && widthRatios.every((r) => r !== undefined)) {
+    await updateBlock(ctx.documentId, grid.block_id, {
+      update_grid_column_width_ratio: { width_ratios: widthRatios },
+    });
+  }
+
+  for (let i = 0; i < columnTrees.length && i < columnIds.length; i++) {
+    await insertTreeList(ctx, columnIds[i], columnTrees[i].childTrees, 0, -1);
+    if (columnTrees[i].childTrees.length > 0) {
+      ctx.placeholders.push({ blockId: columnIds[i], keep: columnTrees[i].childTrees.length });
+    }
+  }
+
+  return grid.block_id;
+}
+
+/**
+ * 圖片：建立空的 image block，再以 replace_image 設定素材
+ */
+async function insertImageTree(
+  ctx: CopyContext,
+  parentBlockId: string,
+  content: Partial<LarkBlock>,
+  index: number,
+  revisionId: number
+): Promise<string> {
+  const image = await createBlock(ctx.documentId, parentBlockId, { block_type: 27, image: {} }, index, revisionId);
+  const { token, ...size } = content.image || {};
+  if (token) {
+    const newToken = await copyMediaToken(ctx, token, "docx_image", image.block_id);
+    await updateBlock(ctx.documentId, image.block_id, { replace_image: { token: newToken, ...size } });
+  }
+  return image.block_id;
+}
+
+/**
+ * 附件：建立空的 file block（API 會自動包上 view block），再以 replace_file 設定素材
+ * 回傳最外層 block（view）的 ID
+ */
+async function insertFileTree(
+  ctx: CopyContext,
+  parentBlockId: string,
+  content: Partial<LarkBlock>,
+  index: number,
+  revisionId: number
+): Promise<string> {
+  const created = await createBlock(ctx.documentId, parentBlockId, { block_type: 23, file: { token: "" } }, index, revisionId);
+  const fileBlockId = created.block_type === 33 ? created.children?.[0] : created.block_id;
+  if (!fileBlockId) throw new Error("Failed to get file block ID after insert");
+
+  const { token, name } = content.file || {};
+  if (token) {
+    const newToken = await copyMediaToken(ctx, token, "docx_file", fileBlockId, name);
+    await updateBlock(ctx.documentId, fileBlockId, { replace_file: { token: newToken } });
+  }
+  return created.block_id;
+}
+
+/**
+ * 刪除容器建立時自動產生、複製後留在末尾的預設空段落
+ */
+async function trimPlaceholders(ctx: CopyContext): Promise<void> {
+  if (ctx.placeholders.length === 0) return;
+
+  const blockMap = new Map((await getDocumentBlocks(ctx.documentId)).map((b) => [b.block_id, b]));
+  for (const { blockId, keep } of ctx.placeholders) {
+    const count = blockMap.get(blockId)?.children?.length ?? 0;
+    if (count > keep) {
+      await deleteBlockRange(ctx.documentId, blockId, keep, count);
+    }
+  }
+}
+
+/**
+ * 深度複製：在目標位置依序重建多個子樹，回傳新的根 block_id
+ * - 巢狀 children、容器、表格（含儲存格內容與合併）、分欄、圖片與附件皆會重建
+ * - 跨文件複製時圖片/附件會下載後重新上傳；同文件直接引用原素材 token
+ * - 應先以 assertCopyable 檢查來源，避免寫入到一半才失敗
+ * revisionId 只帶入第一個寫入請求
+ */
+export async function insertBlockTrees(
+  documentId: string,
+  parentBlockId: string,
+  trees: BlockTree[],
+  index: number,
+  revisionId = -1,
+  options: CopyOptions = {}
+): Promise<string[]> {
+  const ctx: CopyContext = {
+    documentId,
+    sameDocument: !options.sourceDocumentId || options.sourceDocumentId === documentId,
+    placeholders: [],
+  };
+  const ids = await insertTreeList(ctx, parentBlockId, trees, index, revisionId);
+  await trimPlaceholders(ctx);
+  return ids;
+}
+
+/**
+ * 深度複製單一子樹，回傳新的根 block_id
+ */
+export async function insertBlockTree(
+  documentId: string,
+  parentBlockId: string,
+  tree: BlockTree,
+  index: number,
+  revisionId = -1,
+  options: CopyOptions = {}
+): Promise<string> {
+  const [blockId] = await insertBlockTrees(documentId, parentBlockId, [tree], index, revisionId, options);
+  return blockId;
+}
+
+function mediaToken(block: Record<string, unknown>): string | undefined {
+  const media = (block.block_type === 27 ? block.image : block.file) as { token?: string } | undefined;
+  return media?.token || undefined;
 }
 
 /**
  * 批量插入 blocks (帶自動分批)
  * 使用文件級 Rate Limiter 避免同一文件的並發編輯衝突
  * 支援表格 block 的三步驟插入流程
+ * revisionId 只帶入第一個寫入請求，後續請求基於本次操作產生的新版本（-1）
  */
 export async function insertBlocks(
   documentId: string,
   parentBlockId: string,
   blocks: Array<Record<string, unknown>>,
   index = 0,
+  revisionId = -1,
   batchSize = BATCH_SIZE
 ): Promise<void> {
   let currentIndex = index;
   let normalBatch: Array<Record<string, unknown>> = [];
+  let pendingRevision = revisionId;
+  const takeRevision = () => {
+    const revision = pendingRevision;
+    pendingRevision = -1;
+    return revision;
+  };
 
   // 輔助函數：flush 一般 blocks 批次
   const flushNormalBatch = async () => {
@@ -597,7 +1128,7 @@ export async function insertBlocks(
           body: {
             children: batch,
             index: currentIndex,
-            document_revision_id: -1,
+            document_revision_id: takeRevision(),
           },
           skipRateLimit: true,
         });
@@ -612,16 +1143,21 @@ export async function insertBlocks(
     if (block._cellContents) {
       // 表格 block：先 flush 一般批次，再處理表格
       await flushNormalBatch();
-      await insertTableBlock(documentId, parentBlockId, block, currentIndex);
+      await insertTableBlock(documentId, parentBlockId, block, currentIndex, takeRevision());
+      currentIndex += 1;
+    } else if ((block.block_type === 27 || block.block_type === 23) && mediaToken(block)) {
+      // 沿用既有素材的圖片 / 附件（Markdown 的 lark:// 佔位連結）：建立空 block 後以 replace_image / replace_file 綁定
+      await flushNormalBatch();
+      await insertBlockTree(documentId, parentBlockId, { content: block, childTrees: [] }, currentIndex, takeRevision());
       currentIndex += 1;
     } else if (block._children) {
       // 容器 block（Callout、Quote 等）：先 flush，建立父 block，再遞迴插入 children
       await flushNormalBatch();
       const children = block._children as Array<Record<string, unknown>>;
       const { _children, ...cleanBlock } = block;
-      const newBlockId = await insertSingleBlock(documentId, parentBlockId, cleanBlock, currentIndex);
+      const newBlockId = await insertSingleBlock(documentId, parentBlockId, cleanBlock, currentIndex, takeRevision());
       currentIndex += 1;
-      await insertBlocks(documentId, newBlockId, children, 0, batchSize);
+      await insertBlocks(documentId, newBlockId, children, 0, -1, batchSize);
     } else {
       // 一般 block：累積到批次
       normalBatch.push(block);
@@ -641,20 +1177,174 @@ export async function batchUpdateBlocks(
   requests: Array<{
     block_id: string;
     update_text_elements: { elements: Array<Record<string, unknown>> };
-  }>
+  }>,
+  revisionId = -1
 ): Promise<void> {
   await documentRateLimiter.throttle(documentId, () =>
     larkRequest(`/docx/v1/documents/${documentId}/blocks/batch_update`, {
       method: "PATCH",
       body: {
         requests,
-        document_revision_id: -1,
+        document_revision_id: revisionId,
       },
       skipRateLimit: true,
     })
   );
 }
 
+/**
+ * 更新單一 block（例如表格的 insert_table_row / merge_table_cells），回傳更新後的 block
+ * 使用文件級 Rate Limiter 避免同一文件的並發編輯衝突
+ */
+export async function updateBlock(
+  documentId: string,
+  blockId: string,
+  update: Record<string, unknown>,
+  revisionId = -1
+): Promise<LarkBlock | undefined> {
+  const data = await documentRateLimiter.throttle(documentId, () =>
+    larkRequest<{ block?: LarkBlock }>(`/docx/v1/documents/${documentId}/blocks/${blockId}`, {
+      method: "PATCH",
+      body: {
+        ...update,
+        document_revision_id: revisionId,
+      },
+      skipRateLimit: true,
+    })
+  );
+  return data?.block;
+}
+
+/**
+ * 取得最近存取的檔案
+ * 依序嘗試多個可能的 API 端點，皆無結果時回傳空陣列
+ */
+export async function getRecentFiles(pageSize: number): Promise<Array<{
+  token: string;
+  name: string;
+  type: string;
+  url?: string;
+}>> {
+  const endpoints = [
+    "/drive/v1/files/recent",
+    "/drive/explorer/v2/recent",
+    "/suite/docs-api/recent",
+  ];
+
+  for (const endpoint of endpoints) {
+    try {
+      const data = await larkRequest<{
+        files?: Array<{
+          token?: string;
+          name?: string;
+          type?: string;
+          url?: string;
+        }>;
+        entities?: Array<{
+          token?: string;
+          title?: string;
+          type?: string;
+          url?: string;
+        }>;
+      }>(endpoint, {
+        params: { page_size: pageSize },
+        skipRetry: true,
+      });
+
+      const files = data.files || data.entities || [];
+
+      if (files.length > 0) {
+        return files.map((f) => ({
+          token: f.token || "",
+          name: (f as Record<string, unknown>).name as string || (f as Record<string, unknown>).title as string || "(untitled)",
+          type: f.type || "unknown",
+          url: f.url,
+        }));
+      }
+    } catch {
+      // 嘗試下一個端點
+      continue;
+    }
+  }
+
+  return [];
+}
+
+/**
+ * 列出資料夾內的所有檔案（自動翻頁，不含子資料夾內容）
+ */
+export async function listFolderFiles(folderToken: string): Promise<Array<{
+  token: string;
+  name: string;
+  type: string;
+}>> {
+  const files: Array<{ token: string; name: string; type: string }> = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params: Record<string, string | number> = { folder_token: folderToken, page_size: 200 };
+    if (pageToken) {
+      params.page_token = pageToken;
+    }
+
+    const data = await larkRequest<{
+      files?: Array<{ token?: string; name?: string; type?: string }>;
+      next_page_token?: string;
+      has_more?: boolean;
+    }>("/drive/v1/files", { params });
+
+    for (const file of data.files || []) {
+      files.push({ token: file.token || "", name: file.name || "(untitled)", type: file.type || "unknown" });
+    }
+    pageToken = data.has_more ? data.next_page_token : undefined;
+  } while (pageToken);
+
+  return files;
+}
+
+/**
+ * 列出 Wiki 節點的所有子節點（自動翻頁；未指定 parentNodeToken 時為空間根節點）
+ */
+export async function listWikiNodes(spaceId: string, parentNodeToken?: string): Promise<Array<{
+  nodeToken: string;
+  objToken: string;
+  objType: string;
+  title: string;
+  hasChild: boolean;
+}>> {
+  const nodes: Array<{ nodeToken: string; objToken: string; objType: string; title: string; hasChild: boolean }> = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params: Record<string, string | number> = { page_size: 50 };
+    if (parentNodeToken) {
+      params.parent_node_token = parentNodeToken;
+    }
+    if (pageToken) {
+      params.page_token = pageToken;
+    }
+
+    const data = await larkRequest<{
+      items?: Array<{ node_token?: string; obj_token?: string; obj_type?: string; title?: string; has_child?: boolean }>;
+      page_token?: string;
+      has_more?: boolean;
+    }>(`/wiki/v2/spaces/${spaceId}/nodes`, { params });
+
+    for (const item of data.items || []) {
+      nodes.push({
+        nodeToken: item.node_token || "",
+        objToken: item.obj_token || "",
+        objType: item.obj_type || "unknown",
+        title: item.title || "(untitled)",
+        hasChild: item.has_child || false,
+      });
+    }
+    pageToken = data.has_more ? data.page_token : undefined;
+  } while (pageToken);
+
+  return nodes;
+}
+
 /**
  * 建立新文件
  */
@@ -681,6 +1371,426 @@ export async function createDocument(
   };
 }
 
+/**
+ * 以雲空間複製 API 複製檔案到資料夾，回傳新檔案 token
+ */
+export async function copyDriveFile(
+  fileToken: string,
+  name: string,
+  folderToken: string,
+  type = "docx"
+): Promise<{ token: string; url?: string }> {
+  const data = await larkRequest<{
+    file?: { token?: string; url?: string };
+  }>(`/drive/v1/files/${fileToken}/copy`, {
+    method: "POST",
+    body: { name, type, folder_token: folderToken },
+  });
+
+  if (!data.file?.token) throw new Error("Failed to get file token after copy");
+  return { token: data.file.token, url: data.file.url };
+}
+
+/**
+ * 在 Wiki 空間建立節點，回傳節點與文件 token
+ */
+export async function createWikiNode(
+  spaceId: string,
+  title: string,
+  parentNodeToken?: string,
+  objType = "docx"
+): Promise<{ nodeToken: string; objToken: string }> {
+  const data = await larkRequest<{
+    node?: { node_token?: string; obj_token?: string };
+  }>(`/wiki/v2/spaces/${spaceId}/nodes`, {
+    method: "POST",
+    body: {
+      obj_type: objType,
+      title,
+      ...(parentNodeToken ? { parent_node_token: parentNodeToken } : {}),
+    },
+  });
+
+  if (!data.node?.node_token || !data.node.obj_token) throw new Error("Failed to get node token after create");
+  return { nodeToken: data.node.node_token, objToken: data.node.obj_token };
+}
+
+/**
+ * 複製 Wiki 節點（不含子節點）到目標空間/父節點，回傳新節點與文件 token
+ */
+export async function copyWikiNode(
+  spaceId: string,
+  nodeToken: string,
+  target: { spaceId: string; parentNodeToken?: string; title: string }
+): Promise<{ nodeToken: string; objToken: string }> {
+  const data = await larkRequest<{
+    node?: { node_token?: string; obj_token?: string };
+  }>(`/wiki/v2/spaces/${spaceId}/nodes/${nodeToken}/copy`, {
+    method: "POST",
+    body: {
+      target_space_id: target.spaceId,
+      title: target.title,
+      ...(target.parentNodeToken ? { target_parent_token: target.parentNodeToken } : {}),
+    },
+  });
+
+  if (!data.node?.node_token || !data.node.obj_token) throw new Error("Failed to get node token after copy");
+  return { nodeToken: data.node.node_token, objToken: data.node.obj_token };
+}
+
+/**
+ * 下載雲文件素材（圖片、附件）
+ * 回應為二進位內容，不經過 larkRequest 的 JSON 解析；錯誤時 API 仍回傳 JSON
+ */
+export async function downloadMedia(fileToken: string): Promise<{
+  data: Buffer;
+  contentType: string;
+  fileName?: string;
+}> {
+  const execute = async () => {
+    const token = await getAccessToken();
+    const endpoint = `/drive/v1/medias/${fileToken}/download`;
+    const response = await fetch(`${BASE_URL}${endpoint}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    const contentType = response.headers.get("content-type") || "application/octet-stream";
+    if (!response.ok || contentType.includes("application/json")) {
+      const text = await response.text();
+      let data: { code?: number; msg?: string } = {};
+      try {
+        data = JSON.parse(text);
+      } catch {
+        throw new Error(`Media download failed: HTTP ${response.status}`);
+      }
+      throw new LarkError(data.code ?? response.status, data.msg || `HTTP ${response.status}`, endpoint);
+    }
+
+    // Content-Disposition: attachment; filename="xxx.png"; filename*=UTF-8''xxx.png
+    const disposition = response.headers.get("content-disposition") || "";
+    const encodedName = /filename\*=UTF-8''([^;]+)/i.exec(disposition)?.[1];
+    const plainName = /filename="?([^";]+)"?/i.exec(disposition)?.[1];
+
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: contentType.split(";")[0].trim(),
+      fileName: encodedName ? decodeURIComponent(encodedName) : plainName,
+    };
+  };
+
+  return withRetryAndRefresh(
+    () => globalRateLimiter.throttle(execute),
+    async () => {
+      if (cachedToken?.refreshToken) {
+        await refreshAccessToken(cachedToken.refreshToken);
+      }
+    }
+  );
+}
+
+/**
+ * 以 multipart/form-data 送出請求（素材上傳用），不經過 larkRequest 的 JSON 編碼
+ */
+async function postMultipart<T>(endpoint: string, form: FormData): Promise<T> {
+  const token = await getAccessToken();
+  const response = await fetch(`${BASE_URL}${endpoint}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+    body: form,
+  });
+
+  const text = await response.text();
+  let result: { code?: number; msg?: string; data?: T } = {};
+  try {
+    result = JSON.parse(text);
+  } catch {
+    throw new Error(`Media upload failed: HTTP ${response.status}`);
+  }
+  if (result.code !== 0) {
+    throw new LarkError(result.code ?? response.status, result.msg || `HTTP ${response.status}`, endpoint);
+  }
+  return (result.data ?? {}) as T;
+}
+
+/**
+ * 上傳素材到文件中的 block（圖片 docx_image、附件 docx_file），回傳 file_token
+ * 超過 MEDIA_UPLOAD_MAX_BYTES 時改用分片上傳
+ */
+export async function uploadMedia(
+  documentId: string,
+  blockId: string,
+  parentType: "docx_image" | "docx_file",
+  data: Buffer,
+  fileName: string,
+  onProgress?: (uploaded: number, total: number) => Promise<void> | void
+): Promise<string> {
+  if (data.length > MEDIA_UPLOAD_MAX_BYTES) {
+    return uploadMediaInParts(documentId, blockId, parentType, data, fileName, onProgress);
+  }
+
+  const endpoint = "/drive/v1/medias/upload_all";
+  const execute = async () => {
+    const form = new FormData();
+    form.append("file_name", fileName);
+    form.append("parent_type", parentType);
+    form.append("parent_node", blockId);
+    form.append("size", String(data.length));
+    form.append("extra", JSON.stringify({ drive_route_token: documentId }));
+    form.append("file", new Blob([new Uint8Array(data)]), fileName);
+
+    const result = await postMultipart<{ file_token?: string }>(endpoint, form);
+    if (!result.file_token) {
+      throw new Error("Media upload returned no file_token");
+    }
+    return result.file_token;
+  };
+
+  const fileToken = await withRetryAndRefresh(
+    () => documentRateLimiter.throttle(documentId, execute),
+    async () => {
+      if (cachedToken?.refreshToken) {
+        await refreshAccessToken(cachedToken.refreshToken);
+      }
+    }
+  );
+  await onProgress?.(data.length, data.length);
+  return fileToken;
+}
+
+/**
+ * 分片上傳：upload_prepare 取得 upload_id 與分片大小 → 依序 upload_part → upload_finish 取得 file_token
+ * 每個步驟都經過同一份文件的寫入佇列，單一分片失敗時只重試該分片
+ */
+async function uploadMediaInParts(
+  documentId: string,
+  blockId: string,
+  parentType: "docx_image" | "docx_file",
+  data: Buffer,
+  fileName: string,
+  onProgress?: (uploaded: number, total: number) => Promise<void> | void
+): Promise<string> {
+  const prepared = await documentRateLimiter.throttle(documentId, () =>
+    larkRequest<{ upload_id: string; block_size: number; block_num: number }>("/drive/v1/medias/upload_prepare", {
+      method: "POST",
+      body: {
+        file_name: fileName,
+        parent_type: parentType,
+        parent_node: blockId,
+        size: data.length,
+        extra: JSON.stringify({ drive_route_token: documentId }),
+      },
+      skipRateLimit: true,
+    })
+  );
+
+  const endpoint = "/drive/v1/medias/upload_part";
+  for (let seq = 0; seq < prepared.block_num; seq++) {
+    const chunk = data.subarray(seq * prepared.block_size, (seq + 1) * prepared.block_size);
+    const execute = () => {
+      const form = new FormData();
+      form.append("upload_id", prepared.upload_id);
+      form.append("seq", String(seq));
+      form.append("size", String(chunk.length));
+      form.append("file", new Blob([new Uint8Array(chunk)]), fileName);
+      return postMultipart(endpoint, form);
+    };
+
+    await withRetryAndRefresh(
+      () => documentRateLimiter.throttle(documentId, execute),
+      async () => {
+        if (cachedToken?.refreshToken) {
+          await refreshAccessToken(cachedToken.refreshToken);
+        }
+      }
+    );
+    await onProgress?.(Math.min(data.length, (seq + 1) * prepared.block_size), data.length);
+  }
+
+  const finished = await documentRateLimiter.throttle(documentId, () =>
+    larkRequest<{ file_token?: string }>("/drive/v1/medias/upload_finish", {
+      method: "POST",
+      body: { upload_id: prepared.upload_id, block_num: prepared.block_num },
+      skipRateLimit: true,
+    })
+  );
+  if (!finished.file_token) {
+    throw new Error("Media upload finished without a file_token");
+  }
+  return finished.file_token;
+}
+
+/**
+ * 插入本機圖片：建立空的 image block → 上傳素材並綁定到該 block → 以 replace_image 設定 token 與尺寸
+ * 上傳或設定失敗時刪除剛建立的空 image block
+ */
+export async function insertImageBlock(
+  documentId: string,
+  parentBlockId: string,
+  index: number,
+  image: { data: Buffer; fileName: string; width?: number; height?: number; align?: number },
+  revisionId = -1
+): Promise<{ blockId: string; fileToken: string }> {
+  const block = await createBlock(documentId, parentBlockId, { block_type: 27, image: {} }, index, revisionId);
+
+  try {
+    const fileToken = await uploadMedia(documentId, block.block_id, "docx_image", image.data, image.fileName);
+    await updateBlock(documentId, block.block_id, {
+      replace_image: {
+        token: fileToken,
+        ...(image.width ? { width: image.width } : {}),
+        ...(image.height ? { height: image.height } : {}),
+        ...(image.align ? { align: image.align } : {}),
+      },
+    });
+    return { blockId: block.block_id, fileToken };
+  } catch (err) {
+    try {
+      await deleteBlockRange(documentId, parentBlockId, index, index + 1);
+    } catch {
+      // 清除失敗時保留空 block，回報原本的錯誤
+    }
+    throw err;
+  }
+}
+
+/**
+ * 插入本機附件：建立空的 file block（API 會自動包上 view block）→ 上傳素材並綁定到該 block → 以 replace_file 設定 token
+ * 上傳或設定失敗時刪除剛建立的 block；回傳最外層 block（view）與 file block 的 ID
+ */
+export async function insertFileBlock(
+  documentId: string,
+  parentBlockId: string,
+  index: number,
+  file: { data: Buffer; fileName: string },
+  revisionId = -1,
+  onProgress?: (uploaded: number, total: number) => Promise<void> | void
+): Promise<{ blockId: string; fileBlockId: string; fileToken: string }> {
+  const created = await createBlock(documentId, parentBlockId, { block_type: 23, file: { token: "" } }, index, revisionId);
+
+  try {
+    const fileBlockId = created.block_type === 33 ? created.children?.[0] : created.block_id;
+    if (!fileBlockId) throw new Error("Failed to get file block ID after insert");
+
+    const fileToken = await uploadMedia(documentId, fileBlockId, "docx_file", file.data, file.fileName, onProgress);
+    await updateBlock(documentId, fileBlockId, { replace_file: { token: fileToken } });
+    return { blockId: created.block_id, fileBlockId, fileToken };
+  } catch (err) {
+    try {
+      await deleteBlockRange(documentId, parentBlockId, index, index + 1);
+    } catch {
+      // 清除失敗時保留空 block，回報原本的錯誤
+    }
+    throw err;
+  }
+}
+
+/**
+ * 常見 MIME type 對應副檔名（下載檔案沒有檔名時使用）
+ */
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "application/pdf": ".pdf",
+  "application/zip": ".zip",
+  "text/plain": ".txt",
+};
+
+/**
+ * 下載素材並寫入本機
+ * outputPath 為既有目錄或以路徑分隔符結尾時，以 {token}_{原始檔名} 存入該目錄
+ */
+export async function saveMedia(fileToken: string, outputPath: string): Promise<{
+  path: string;
+  bytes: number;
+  contentType: string;
+  fileName?: string;
+}> {
+  const media = await downloadMedia(fileToken);
+
+  let isDirectory = /[\\/]$/.test(outputPath);
+  try {
+    isDirectory ||= statSync(outputPath).isDirectory();
+  } catch {
+    // 路徑不存在，視為檔案路徑
+  }
+
+  let path = outputPath;
+  if (isDirectory) {
+    const safeName = media.fileName?.replace(/[\\/:*?"<>|]/g, "_");
+    const name = safeName
+      ? `${fileToken}_${safeName}`
+      : `${fileToken}${MIME_EXTENSIONS[media.contentType] ?? ""}`;
+    path = join(outputPath, name);
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, media.data);
+
+  return {
+    path,
+    bytes: media.data.length,
+    contentType: media.contentType,
+    fileName: media.fileName,
+  };
+}
+
+/**
+ * 取得用戶顯示名稱（open_id）
+ */
+export async function getUserName(openId: string): Promise<string | undefined> {
+  const data = await larkRequest<{
+    user?: { name?: string };
+  }>(`/contact/v3/users/${openId}`, {
+    params: { user_id_type: "open_id" },
+  });
+
+  return data.user?.name;
+}
+
+/**
+ * mention_doc 的 obj_type 對應 drive 文件類型
+ */
+const DRIVE_DOC_TYPES: Record<number, string> = {
+  1: "doc",
+  3: "sheet",
+  8: "bitable",
+  11: "mindnote",
+  12: "file",
+  15: "slides",
+  16: "wiki",
+  22: "docx",
+};
+
+/**
+ * 批次取得文件標題（每次最多 200 筆），回傳 token → title
+ */
+export async function getDocumentTitles(
+  docs: Array<{ token: string; objType: number }>
+): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  const requestDocs = docs
+    .filter((doc) => DRIVE_DOC_TYPES[doc.objType])
+    .map((doc) => ({ doc_token: doc.token, doc_type: DRIVE_DOC_TYPES[doc.objType] }));
+
+  for (let i = 0; i < requestDocs.length; i += 200) {
+    const data = await larkRequest<{
+      metas?: Array<{ doc_token: string; title?: string }>;
+    }>("/drive/v1/metas/batch_query", {
+      method: "POST",
+      body: { request_docs: requestDocs.slice(i, i + 200) },
+    });
+
+    for (const meta of data.metas || []) {
+      if (meta.title) titles.set(meta.doc_token, meta.title);
+    }
+  }
+
+  return titles;
+}
+
 /**
  * 解析 Sheet token (格式: app_token_table_id)
  */
@@ -792,7 +1902,7 @@ export async function getSheetAsMarkdown(sheetToken: string): Promise<string | n
 /**
  * 格式化 Bitable 欄位值
  */
-function formatBitableValue(value: unknown): string {
+export function formatBitableValue(value: unknown): string {
   if (value === null || value === undefined) {
     return "";
   }
@@ -7,24 +7,61 @@ import {
   DocCreateSchema,
   DocReadSchema,
   DocUpdateSchema,
+  DocSyncSchema,
   DocDeleteSchema,
   DocContentSchema,
   DocMoveSchema,
+  DocCopySchema,
+  DocCopyBlocksSchema,
+  DocCreateFromTemplateSchema,
   DocInsertBlocksSchema,
+  DocInsertImageSchema,
+  DocInsertFileSchema,
   DocDeleteBlocksSchema,
   DocMoveBlocksSchema,
   DocSearchBlocksSchema,
   DocBatchUpdateBlocksSchema,
+  DocReplaceTextSchema,
+  DocStyleTextSchema,
   DocIndentBlockSchema,
+  DocOutlineSchema,
+  DocSectionReadSchema,
+  DocSectionReplaceSchema,
+  DocSectionAppendSchema,
+  DocSectionDeleteSchema,
+  DocTableReadSchema,
+  DocTableUpdateCellsSchema,
+  DocTableInsertRowsSchema,
+  DocTableInsertColumnsSchema,
+  DocTableDeleteRowsSchema,
+  DocTableDeleteColumnsSchema,
+  DocTableMergeCellsSchema,
+  DocTableCreateSchema,
   DriveListSchema,
   DriveRecentSchema,
   BlocksToMarkdownSchema,
+  DocDiffMarkdownSchema,
+  DocExportSchema,
+  DocMediaDownloadSchema,
   DocCreateOutputSchema,
   DocUrlOutputSchema,
+  DocInsertImageOutputSchema,
+  DocInsertFileOutputSchema,
   DocPrependOutputSchema,
+  DocSyncOutputSchema,
   DocDeleteOutputSchema,
   DocMoveOutputSchema,
+  DocCopyOutputSchema,
+  DocCopyBlocksOutputSchema,
+  DocCreateFromTemplateOutputSchema,
   DocSearchBlocksOutputSchema,
+  DocReplaceTextOutputSchema,
+  DocStyleTextOutputSchema,
+  DocOutlineOutputSchema,
+  DocSectionOutputSchema,
+  DocTableOutputSchema,
+  DocTableCreateOutputSchema,
+  MarkdownDiffOutputSchema,
   DriveListOutputSchema,
   DriveRecentOutputSchema,
 } from "../schemas/index.js";
@@ -33,15 +70,122 @@ import {
   getDocumentBlocks,
   getDocumentRootBlockId,
   insertBlocks,
-  insertSingleBlock,
+  insertImageBlock,
+  insertFileBlock,
+  insertBlockTree,
+  insertBlockTrees,
+  assertCopyable,
+  collectBlockTree,
+  copyDriveFile,
+  copyWikiNode,
+  createWikiNode,
+  getWikiNode,
   batchUpdateBlocks,
   deleteBlockRange,
+  resolveInsertPosition,
+  resolveBlockRange,
+  checkDocumentRevision,
+  getDocumentRevision,
   larkRequest,
+  getBlock,
+  updateBlock,
+  getRecentFiles,
+  downloadMedia,
+  saveMedia,
+  type BlockTree,
 } from "../services/lark-client.js";
-import { blocksToMarkdown } from "../utils/markdown.js";
-import { success, error, truncate, paginatedResponse } from "../utils/response.js";
+import { writeFile, mkdir } from "fs/promises";
+import { dirname, resolve } from "path";
+import {
+  blocksToMarkdown,
+  resolveContentBlocks,
+  renderDocumentPage,
+  diffAnnotatedMarkdown,
+  getTextContent,
+  createMentionNames,
+  resolveMentionNames,
+} from "../utils/markdown.js";
+import { buildPattern, elementsToText, findMatches, expandReplacement, replaceRanges, normalizeElements, styleRanges, type TextStylePatch } from "../utils/text-elements.js";
+import { blocksToHtml } from "../utils/html.js";
+import { planBlockSync, applyBlockSync, summarizeSync } from "../utils/block-sync.js";
+import { captureSnapshot, replaceWithRollback } from "../utils/block-snapshot.js";
+import { readSection, replaceSection, appendToSection, deleteSection, sectionFields, readOutline } from "../utils/sections.js";
+import { loadTable, readTableGrid, updateTableCells } from "../utils/tables.js";
+import { searchBlocks } from "../utils/block-search.js";
+import { readMediaInput, probeImage, scaleImage, IMAGE_ALIGN } from "../utils/media.js";
+import { parseDelimited, recordsToRows, buildTableBlocks } from "../utils/table-builder.js";
+import { renderTemplate, renderTemplateTitle } from "../utils/template.js";
+import { success, error, truncate, paginatedResponse, documentPageResponse, mediaResponse } from "../utils/response.js";
 import type { LarkBlock } from "../types.js";
-import { DOC_URL } from "../constants.js";
+import { DOC_URL, WIKI_URL, ResponseFormat, MAX_INLINE_MEDIA_BYTES, MEDIA_UPLOAD_MAX_BYTES, BATCH_UPDATE_LIMIT, TABLE_MAX_ROWS, TABLE_MAX_COLUMNS } from "../constants.js";
+
+/**
+ * 位置描述（非文件根節點時標示 parent block）
+ */
+function describeParent(documentId: string, parentId: string): string {
+  return parentId === documentId ? "" : ` under block ${parentId}`;
+}
+
+/**
+ * 檢查整份文件複製的來源（文件 / Wiki 節點擇一）與目標（資料夾 / Wiki 空間擇一）參數
+ */
+function validateCopyParams(
+  source: { documentId?: string; wikiToken?: string },
+  target: { folderToken?: string; spaceId?: string; parentNodeToken?: string },
+  sourceNames: [string, string]
+): string | undefined {
+  if ((source.documentId === undefined) === (source.wikiToken === undefined)) {
+    return `Provide exactly one of ${sourceNames[0]} and ${sourceNames[1]}`;
+  }
+  if ((target.folderToken === undefined) === (target.spaceId === undefined)) {
+    return "Provide exactly one of folder_token and space_id";
+  }
+  if (target.parentNodeToken && !target.spaceId) {
+    return "parent_node_token requires space_id";
+  }
+  return undefined;
+}
+
+/**
+ * 解析來源文件 ID，Wiki 節點需為 docx
+ */
+async function resolveSourceDocument(
+  documentId?: string,
+  wikiToken?: string
+): Promise<{ documentId: string; node?: { objToken: string; objType: string; spaceId: string } }> {
+  if (!wikiToken) return { documentId: documentId! };
+
+  const node = await getWikiNode(wikiToken);
+  if (node.objType !== "docx") {
+    throw new Error(`Wiki node ${wikiToken} is a ${node.objType}, only docx documents can be copied`);
+  }
+  return { documentId: node.objToken, node };
+}
+
+/**
+ * 讀取文件根層級的 block 子樹與 page block
+ */
+async function collectDocumentTrees(documentId: string): Promise<{ page?: LarkBlock; trees: BlockTree[] }> {
+  const rootBlockId = await getDocumentRootBlockId(documentId);
+  const blockMap = new Map((await getDocumentBlocks(documentId)).map((b) => [b.block_id, b]));
+  const page = blockMap.get(rootBlockId);
+  return { page, trees: (page?.children || []).map((id) => collectBlockTree(blockMap, id)) };
+}
+
+/**
+ * 在資料夾或 Wiki 空間建立空白文件
+ */
+async function createTargetDocument(
+  title: string,
+  target: { folderToken?: string; spaceId?: string; parentNodeToken?: string }
+): Promise<{ documentId: string; url: string; nodeToken?: string }> {
+  if (target.folderToken) {
+    const { documentId } = await createDocument(target.folderToken, title);
+    return { documentId, url: DOC_URL(documentId) };
+  }
+  const node = await createWikiNode(target.spaceId!, title, target.parentNodeToken);
+  return { documentId: node.objToken, url: WIKI_URL(node.nodeToken), nodeToken: node.nodeToken };
+}
 
 /**
  * 註冊文件工具
@@ -58,6 +202,7 @@ Args:
   - folder_token (string): 目標資料夾 Token（必填）
   - title (string): 文件標題（必填）
   - blocks (array, optional): 初始 Lark Block JSON 陣列
+  - markdown (string, optional): 初始 Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
 
 Returns:
   {
@@ -69,9 +214,11 @@ Returns:
 Examples:
   - 建立空文件: doc_create folder_token=fldcnXXXXX title="Meeting Notes"
   - 建立有內容的文件: doc_create folder_token=fldcnXXXXX title="Report" blocks=[{"block_type":3,"heading1":{"elements":[{"text_run":{"content":"Summary"}}]}}]
+  - 使用 Markdown 建立: doc_create folder_token=fldcnXXXXX title="Report" markdown="# Summary\n\n- item **bold**"
   - 容器 block（Callout 等）用 _children 插入子內容: blocks=[{"block_type":19,"callout":{"background_color":2,"border_color":2,"emoji_id":"bulb"},"_children":[{"block_type":2,"text":{"elements":[{"text_run":{"content":"注意事項"}}]}}]}]
 
 Note: Lark API 不支援在 block payload 中內嵌 children。容器 block（Callout、Quote 等）需使用自訂 _children 欄位，系統會自動先建立父 block 再遞迴插入子 block。支援多層嵌套。
+Markdown 支援 CommonMark + GFM：標題、巢狀列表、任務列表、fenced code（含語言）、引用、表格、粗體/斜體/刪除線/行內程式碼/連結、$公式$。
 
 Permissions:
   - drive:drive
@@ -94,10 +241,13 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { folder_token, title, blocks, response_format } = params;
+        const { folder_token, title, markdown, response_format } = params;
+        const blocks = params.blocks?.length || markdown !== undefined
+          ? resolveContentBlocks(params.blocks, markdown)
+          : [];
         const { documentId } = await createDocument(folder_token, title);
 
-        if (blocks && blocks.length > 0) {
+        if (blocks.length > 0) {
           const rootBlockId = await getDocumentRootBlockId(documentId);
           await insertBlocks(documentId, rootBlockId, blocks, 0);
         }
@@ -118,19 +268,31 @@ Don't use when:
     "doc_read",
     {
       title: "Read Document",
-      description: `讀取文件內容，回傳原始 Lark blocks。
+      description: `讀取文件內容，可直接輸出原始 Lark blocks、Markdown、純文字或大綱。長文件以根層級 block 為單位分頁讀取。
 
 Args:
   - document_id (string): 文件 ID（必填）
+  - format (string, optional): "blocks"（預設，原始 blocks）、"markdown"、"annotated_markdown"（每個 block 前附 <!-- block_id:xxx index:N --> 錨點）、"plain_text"、"outline"（只列標題）
+  - start_index (number, optional): 從第幾個根層級 block 開始讀取，預設 0（使用上一頁回傳的 next_index）
+  - end_index (number, optional): 讀到第幾個根層級 block（不包含）；不填則自動讀取一次回應可容納的數量
+  - resolve_mentions (boolean, optional): 將 @提及解析為用戶名稱、文件提及解析為標題連結，預設 true；false 保留原始 ID
+  - media_dir (string, optional): 下載圖片與附件到此本機目錄，Markdown 中改以本機路徑連結（僅 markdown 格式）
 
 Returns:
-  Lark Block 陣列（原始格式）。需要顯示給用戶時，使用 blocks_to_markdown 轉換為 Markdown。
+  format="blocks": { "items": LarkBlock[], "total_blocks", "start_index", "end_index", "has_more", "next_index" }
+  其他格式: 轉換後的文字，標頭註明本頁範圍與下一頁的 start_index
+  皆附帶文件目前的 revision_id，可作為寫入工具的 expected_revision
 
 Examples:
   - 讀取文件: doc_read document_id=doccnXXXXX
+  - 讀取為 Markdown: doc_read document_id=doccnXXXXX format="markdown"
+  - 讀取下一頁: doc_read document_id=doccnXXXXX format="markdown" start_index=120
+  - 只看標題結構: doc_read document_id=doccnXXXXX format="outline"
+  - 讀取供編輯用的 Markdown: doc_read document_id=doccnXXXXX format="annotated_markdown"
 
 Permissions:
   - drive:drive
+  - contact:user.base:readonly（選用，解析 @提及的用戶名稱）
 
 Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
@@ -138,7 +300,6 @@ Error handling:
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
 
 Don't use when:
-  - You need Markdown format (use doc_read then blocks_to_markdown)
   - You need to read a wiki page (use wiki_read instead)`,
       inputSchema: DocReadSchema,
       annotations: {
@@ -150,16 +311,260 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { document_id } = params;
+        const { document_id, format, start_index, end_index, resolve_mentions, media_dir } = params;
+        // 先取版本再讀 blocks，讀取期間若有變更，之後的寫入會回報衝突而非覆蓋
+        const revision = await getDocumentRevision(document_id);
         const blocks = await getDocumentBlocks(document_id);
+        const page = await renderDocumentPage(blocks, format, start_index, end_index, {
+          resolveMentions: resolve_mentions,
+          mediaDir: media_dir,
+        });
+        page.revision_id = revision;
 
-        return success("Document read successful", blocks);
+        return documentPageResponse("Document read successful", page);
       } catch (err) {
         return error("Document read failed", err);
       }
     }
   );
 
+  // doc_export
+  server.registerTool(
+    "doc_export",
+    {
+      title: "Export Document as HTML",
+      description: `將文件匯出為 HTML，保留標題層級（1-9）、Callout 底色與 emoji、表格合併儲存格、待辦勾選框、程式碼語言、公式、文字顏色等樣式。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - inline_images (boolean, optional): 下載圖片並以 data URI 內嵌，產生單一自足檔案，預設 false（需同時指定 output_path）
+  - standalone (boolean, optional): 輸出含 <head> 與樣式的完整 HTML 文件，預設 true；false 只回傳內容片段
+  - resolve_mentions (boolean, optional): 將 @提及解析為用戶名稱、文件提及解析為標題連結，預設 true
+  - output_path (string, optional): 寫入本機檔案路徑，不在回應中回傳 HTML（大型文件建議使用，inline_images 時必填）
+
+Returns:
+  未指定 output_path: HTML 內容（過長會被截斷）
+  指定 output_path: { "document_id": string, "output_path": string, "bytes": number }
+
+Examples:
+  - 匯出 HTML: doc_export document_id=doccnXXXXX
+  - 匯出自足檔案: doc_export document_id=doccnXXXXX inline_images=true output_path="./export/doc.html"
+  - 只取內容片段: doc_export document_id=doccnXXXXX standalone=false
+
+Permissions:
+  - drive:drive
+  - contact:user.base:readonly（選用，解析 @提及的用戶名稱）
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - inline_images without output_path → specify output_path (embedded images exceed the response size limit)
+  - 圖片下載失敗時保留 lark://image/{token} 佔位連結，不中斷匯出
+
+Don't use when:
+  - You only need the text content (use doc_read with format="markdown" instead)`,
+      inputSchema: DocExportSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, inline_images, standalone, resolve_mentions, output_path } = params;
+        if (inline_images && !output_path) {
+          return error("inline_images requires output_path: embedded images would exceed the response size limit and be truncated");
+        }
+        const blocks = await getDocumentBlocks(document_id);
+        const html = await blocksToHtml(blocks, {
+          inlineImages: inline_images,
+          standalone,
+          resolveMentions: resolve_mentions,
+        });
+
+        if (!output_path) {
+          return success("Document exported as HTML", html);
+        }
+
+        const filePath = resolve(output_path);
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, html, "utf-8");
+
+        return success(`Document exported to ${filePath}`, {
+          document_id,
+          output_path: filePath,
+          bytes: Buffer.byteLength(html, "utf-8"),
+        });
+      } catch (err) {
+        return error("Document export failed", err);
+      }
+    }
+  );
+
+  // doc_media_download
+  server.registerTool(
+    "doc_media_download",
+    {
+      title: "Download Document Media",
+      description: `下載文件中的圖片或附件。可存到本機路徑，或直接以 MCP image / resource 內容回傳。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - block_id (string): 圖片（27）或檔案（23）block ID（與 file_token 擇一）
+  - file_token (string): 素材 token，例如 lark://image/{token} 佔位連結中的 token（與 block_id 擇一，須為此文件中圖片或檔案 block 的素材）
+  - output_path (string, optional): 本機檔案路徑；既有目錄或以 / 結尾時以 {token}_{原始檔名} 存入該目錄。不填則直接回傳內容（上限 5 MB）
+
+Returns:
+  指定 output_path: { "file_token", "path", "bytes", "content_type", "file_name" }
+  未指定: 圖片回傳 image content，其他檔案回傳 resource（base64 blob）
+
+Examples:
+  - 查看圖片: doc_media_download document_id=doccnXXXXX block_id=doxcnXXXXX
+  - 存到目錄: doc_media_download document_id=doccnXXXXX file_token=boxcnXXXXX output_path="./media/"
+  - 指定檔名: doc_media_download document_id=doccnXXXXX block_id=doxcnXXXXX output_path="./spec.pdf"
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - "Media ... is not used by any image or file block": file_token does not belong to document_id → check the document_id
+
+Don't use when:
+  - You want every image in a document (use doc_read format="markdown" with media_dir instead)`,
+      inputSchema: DocMediaDownloadSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, block_id, output_path } = params;
+        let fileToken = params.file_token;
+
+        if (!block_id && !fileToken) {
+          return error("Either block_id or file_token is required");
+        }
+
+        if (block_id) {
+          const block = await getBlock(document_id, block_id);
+          fileToken = block.image?.token ?? block.file?.token;
+          if (!fileToken) {
+            return error(`Block ${block_id} (block_type ${block.block_type}) is not an image or file block`);
+          }
+        } else {
+          // 只下載屬於此文件的素材，避免以任意 token 讀取其他文件的檔案
+          const blocks = await getDocumentBlocks(document_id);
+          if (!blocks.some((b) => (b.image?.token ?? b.file?.token) === fileToken)) {
+            return error(
+              `Media ${fileToken} is not used by any image or file block in document ${document_id}`,
+              "Suggestion: Check the document_id, or use doc_read format=\"markdown\" to list the document's lark:// placeholders."
+            );
+          }
+        }
+
+        if (output_path) {
+          const saved = await saveMedia(fileToken!, output_path);
+          return success(`Media saved to ${saved.path}`, {
+            file_token: fileToken!,
+            path: saved.path,
+            bytes: saved.bytes,
+            content_type: saved.contentType,
+            file_name: saved.fileName,
+          });
+        }
+
+        const media = await downloadMedia(fileToken!);
+        if (media.data.length > MAX_INLINE_MEDIA_BYTES) {
+          return error(
+            `Media is ${media.data.length} bytes, exceeding the ${MAX_INLINE_MEDIA_BYTES} byte inline limit`,
+            "Suggestion: Provide output_path to save the file locally instead."
+          );
+        }
+
+        const kind = media.contentType.startsWith("image/") ? "image" : "file";
+        return mediaResponse(`Downloaded ${media.fileName || fileToken} (${media.contentType}, ${media.data.length} bytes)`, {
+          uri: `lark://${kind}/${fileToken}`,
+          ...media,
+        });
+      } catch (err) {
+        return error("Media download failed", err);
+      }
+    }
+  );
+
+  // doc_diff_markdown
+  server.registerTool(
+    "doc_diff_markdown",
+    {
+      title: "Diff Annotated Markdown",
+      description: `比對編輯後的 annotated Markdown 與文件目前內容，列出被修改、刪除與新增的 blocks。
+
+先用 doc_read format="annotated_markdown" 取得帶錨點的 Markdown，編輯時保留 <!-- block_id:xxx index:N --> 錨點：
+修改錨點下方的內容視為修改該 block，刪除錨點與內容視為刪除，新增內容不需加錨點。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - markdown (string): 編輯後的 annotated Markdown（必填）
+
+Returns:
+  {
+    "changed": [{ "block_id", "index", "block_type", "markdown", "elements" }],  // elements 可直接用於 doc_batch_update_blocks
+    "removed": [{ "block_id", "index", "block_type" }],
+    "added": [{ "after_block_id", "after_index", "markdown" }],  // after_block_id 為 null 表示文件開頭
+    "unchanged_count": number
+  }
+  index 為 block 所屬的根層級 index（可用於 doc_delete_blocks / doc_insert_blocks）
+
+Examples:
+  - 比對編輯結果: doc_diff_markdown document_id=doccnXXXXX markdown="<!-- block_id:doxcnA index:0 -->\n# New Title\n..."
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+
+Don't use when:
+  - You need to diff a wiki page (use wiki_diff_markdown instead)
+  - The Markdown has no block_id anchors (everything would be reported as added)`,
+      inputSchema: DocDiffMarkdownSchema,
+      outputSchema: MarkdownDiffOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, markdown } = params;
+        const revision = await getDocumentRevision(document_id);
+        const blocks = await getDocumentBlocks(document_id);
+        const diff = { ...(await diffAnnotatedMarkdown(blocks, markdown)), revision_id: revision };
+
+        return success(
+          `Diff: ${diff.changed.length} changed, ${diff.removed.length} removed, ${diff.added.length} added, ${diff.unchanged_count} unchanged`,
+          diff,
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Markdown diff failed", err);
+      }
+    }
+  );
+
   // doc_prepend
   server.registerTool(
     "doc_prepend",
@@ -169,7 +574,9 @@ Don't use when:
 
 Args:
   - document_id (string): 文件 ID（必填）
-  - blocks (array): Lark Block JSON 陣列（必填）
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
@@ -179,6 +586,7 @@ Returns:
 Examples:
   - 插入標題: doc_prepend document_id=doccnXXXXX blocks=[{"block_type":3,"heading1":{"elements":[{"text_run":{"content":"Title"}}]}}]
   - 插入段落: doc_prepend document_id=doccnXXXXX blocks=[{"block_type":2,"text":{"elements":[{"text_run":{"content":"Hello"}}]}}]
+  - 使用 Markdown: doc_prepend document_id=doccnXXXXX markdown="# Title\n\nHello"
 
 Permissions:
   - drive:drive
@@ -187,6 +595,7 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
 
 Don't use when:
   - You need to insert at a specific position (use doc_insert_blocks instead)
@@ -202,10 +611,12 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { document_id, blocks } = params;
+        const { document_id } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
         const rootBlockId = await getDocumentRootBlockId(document_id);
 
-        await insertBlocks(document_id, rootBlockId, blocks, 0);
+        await insertBlocks(document_id, rootBlockId, blocks, 0, revision);
 
         return success(`Inserted ${blocks.length} blocks at top of document`, {
           doc_url: DOC_URL(document_id),
@@ -225,7 +636,9 @@ Don't use when:
 
 Args:
   - document_id (string): 文件 ID（必填）
-  - blocks (array): Lark Block JSON 陣列（必填）
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
@@ -235,6 +648,7 @@ Returns:
 
 Examples:
   - 追加頁尾: doc_append document_id=doccnXXXXX blocks=[{"block_type":4,"heading2":{"elements":[{"text_run":{"content":"Footer"}}]}}]
+  - 使用 Markdown: doc_append document_id=doccnXXXXX markdown="## Next steps\n\n- [ ] Review"
 
 Permissions:
   - drive:drive
@@ -243,6 +657,7 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
 
 Don't use when:
   - You need to insert at a specific position (use doc_insert_blocks instead)
@@ -258,12 +673,14 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { document_id, blocks } = params;
+        const { document_id } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
         const rootBlockId = await getDocumentRootBlockId(document_id);
         const existingBlocks = await getDocumentBlocks(document_id);
         const insertIndex = Math.max(0, existingBlocks.length - 1);
 
-        await insertBlocks(document_id, rootBlockId, blocks, insertIndex);
+        await insertBlocks(document_id, rootBlockId, blocks, insertIndex, revision);
 
         return success(`Appended ${blocks.length} blocks to document`, {
           document_id,
@@ -284,9 +701,11 @@ Don't use when:
 
 Args:
   - document_id (string): 文件 ID（必填）
-  - blocks (array): Lark Block JSON 陣列（必填）
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
   - start_index (number, optional): 範圍更新起始位置（需配合 end_index）
   - end_index (number, optional): 範圍更新結束位置（不包含）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
@@ -297,6 +716,7 @@ Returns:
 Examples:
   - 全文重寫: doc_update document_id=doccnXXXXX blocks=[{"block_type":3,"heading1":{"elements":[{"text_run":{"content":"New Content"}}]}}]
   - 範圍更新: doc_update document_id=doccnXXXXX blocks=[{"block_type":2,"text":{"elements":[{"text_run":{"content":"New"}}]}}] start_index=0 end_index=3
+  - 使用 Markdown: doc_update document_id=doccnXXXXX markdown="| A | B |\n|---|---|\n| 1 | 2 |" start_index=0 end_index=1
 
 Permissions:
   - drive:drive
@@ -305,10 +725,14 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+  - Insert failed after delete: the original blocks are restored from a snapshot; the error states whether rollback succeeded
+  - Block type N (sheet / bitable / board ...) cannot be copied: the replaced range contains blocks that could not be restored if the update failed → nothing is deleted; narrow start_index/end_index to exclude them, or use doc_sync
 
 Don't use when:
   - You only need to append content (use doc_append instead)
-  - You only need to prepend content (use doc_prepend instead)`,
+  - You only need to prepend content (use doc_prepend instead)
+  - You want to rewrite the whole document but keep unchanged blocks (use doc_sync instead)`,
       inputSchema: DocUpdateSchema,
       outputSchema: DocUrlOutputSchema,
       annotations: {
@@ -320,7 +744,9 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { document_id, blocks, start_index, end_index } = params;
+        const { document_id, start_index, end_index } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
         const rootBlockId = await getDocumentRootBlockId(document_id);
         const isRangeUpdate = start_index !== undefined && end_index !== undefined;
 
@@ -331,14 +757,27 @@ Don't use when:
             return error("Invalid range (end_index must be greater than start_index)");
           }
 
-          await deleteBlockRange(document_id, rootBlockId, start_index, end_index);
-
-          // 表格需要等待文件狀態同步
-          if (hasNestedBlocks) {
-            await new Promise((resolve) => setTimeout(resolve, 100));
-          }
-
-          await insertBlocks(document_id, rootBlockId, blocks, start_index);
+          const snapshot = captureSnapshot(
+            document_id,
+            await getDocumentBlocks(document_id),
+            rootBlockId,
+            start_index,
+            end_index
+          );
+          // 刪除前確認快照可還原（嵌入的試算表、多維表格、畫板等無法重建）
+          assertCopyable(snapshot.trees);
+          await replaceWithRollback(
+            snapshot,
+            { parentId: rootBlockId, index: start_index },
+            async (insertRevision) => {
+              // 表格需要等待文件狀態同步
+              if (hasNestedBlocks) {
+                await new Promise((resolve) => setTimeout(resolve, 100));
+              }
+              await insertBlocks(document_id, rootBlockId, blocks, start_index, insertRevision);
+            },
+            revision
+          );
 
           return success(
             `Document range update: deleted ${end_index - start_index} blocks, inserted ${blocks.length} blocks`,
@@ -346,20 +785,23 @@ Don't use when:
           );
         } else {
           const existingBlocks = await getDocumentBlocks(document_id);
-          const childBlockIds = existingBlocks
-            .filter((b) => b.parent_id === rootBlockId && b.block_id !== rootBlockId)
-            .map((b) => b.block_id);
-
-          if (childBlockIds.length > 0) {
-            await deleteBlockRange(document_id, rootBlockId, 0, childBlockIds.length);
-
-            // 表格需要等待文件狀態同步
-            if (hasNestedBlocks) {
-              await new Promise((resolve) => setTimeout(resolve, 100));
-            }
-          }
-
-          await insertBlocks(document_id, rootBlockId, blocks, 0);
+          const childCount = existingBlocks.find((b) => b.block_id === rootBlockId)?.children?.length ?? 0;
+          const snapshot = captureSnapshot(document_id, existingBlocks, rootBlockId, 0, childCount);
+          assertCopyable(snapshot.trees);
+
+          // 文件原本為空時，插入即為第一個寫入請求
+          await replaceWithRollback(
+            snapshot,
+            { parentId: rootBlockId, index: 0 },
+            async (insertRevision) => {
+              // 表格需要等待文件狀態同步
+              if (hasNestedBlocks && childCount > 0) {
+                await new Promise((resolve) => setTimeout(resolve, 100));
+              }
+              await insertBlocks(document_id, rootBlockId, blocks, 0, insertRevision);
+            },
+            revision
+          );
 
           return success(`Document update: inserted ${blocks.length} blocks`, {
             document_id,
@@ -372,6 +814,105 @@ Don't use when:
     }
   );
 
+  // doc_sync
+  server.registerTool(
+    "doc_sync",
+    {
+      title: "Sync Document Content",
+      description: `以差異同步方式將文件更新為目標內容。比對目前的 block 樹與目標內容，只套用最小編輯腳本（原地更新文字、插入、刪除、移動），未變動的 block 保留原 block ID、評論與協作者游標。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - blocks (array): 目標內容的 Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): 目標內容的 Markdown，自動轉換為 Lark blocks（與 blocks 擇一）
+  - dry_run (boolean, optional): 只計算並回傳編輯腳本，不修改文件，預設 false
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "dry_run": boolean,
+    "unchanged_count": number,  // 保留不動的 block 數
+    "edits": [
+      {
+        "op": "update" | "insert" | "delete" | "move",
+        "parent_block_id": string,
+        "block_type": number,
+        "block_id": string,      // update / delete / move
+        "index": number,         // update / delete / move：原位置；insert：同步後位置
+        "to_parent_block_id": string,  // move
+        "to_index": number,            // move：同步後位置
+        "text": string           // 文字預覽
+      }
+    ]
+  }
+
+Examples:
+  - 同步 Markdown: doc_sync document_id=doccnXXXXX markdown="# Title\n\nUpdated paragraph"
+  - 預覽編輯腳本: doc_sync document_id=doccnXXXXX markdown="..." dry_run=true
+  - 典型流程: doc_read format="markdown" → 修改 Markdown → doc_sync
+
+Notes:
+  - 類型與樣式相同的 block 以 update_text_elements 原地更新文字，巢狀列表、Callout、引用容器會遞迴同步子 block
+  - 表格、圖片等無法原地更新的 block 內容有變動時會刪除後重新插入
+  - move 套用時為刪除後在新位置重新插入（Lark 無原生移動 API），block ID 會改變
+  - doc_read format="markdown"（未指定 media_dir）的輸出可原樣轉回：Markdown 語法字元以反斜線跳脫，圖片、附件與 @提及以 lark:// 佔位連結保留，未修改的 block 不會產生編輯
+  - 使用 markdown 時只比對 Markdown 能表達的樣式：底線、文字顏色、對齊等不會被移除（文字有修改的 block 除外）
+  - 使用 markdown 時，文件含 Markdown 無法表達的 block（Callout、分欄、嵌入表格、公式 block、畫板、多段落的表格 cell 等）會回報錯誤而不修改文件；請改用 blocks 或 doc_insert_blocks / doc_batch_update_blocks 局部編輯
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+  - "Block ... cannot be expressed in Markdown": the sync would delete or replace that block → nothing is changed; pass blocks instead of markdown, or edit around it with targeted tools
+
+Don't use when:
+  - You only need to append content (use doc_append instead)
+  - You want to edit a known range (use doc_update with start_index/end_index instead)`,
+      inputSchema: DocSyncSchema,
+      outputSchema: DocSyncOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, dry_run } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const rootBlockId = await getDocumentRootBlockId(document_id);
+        const existingBlocks = await getDocumentBlocks(document_id);
+
+        const plan = planBlockSync(existingBlocks, rootBlockId, blocks, { markdown: params.markdown !== undefined });
+        if (!dry_run) {
+          await applyBlockSync(document_id, plan, revision);
+        }
+
+        return success(
+          `${dry_run ? "Dry run" : "Document synced"}: ${summarizeSync(plan)}`,
+          {
+            document_id,
+            url: DOC_URL(document_id),
+            dry_run,
+            unchanged_count: plan.unchanged_count,
+            edits: plan.edits,
+          },
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Document sync failed", err);
+      }
+    }
+  );
+
   // doc_delete
   server.registerTool(
     "doc_delete",
@@ -493,33 +1034,43 @@ Don't use when:
     }
   );
 
-  // doc_insert_blocks
+  // doc_copy
   server.registerTool(
-    "doc_insert_blocks",
+    "doc_copy",
     {
-      title: "Insert Blocks to Document",
-      description: `在文件指定位置插入內容。
+      title: "Copy Document",
+      description: `複製整份文件到資料夾或 Wiki 節點底下。
 
 Args:
-  - document_id (string): 文件 ID（必填）
-  - blocks (array): Lark Block JSON 陣列（必填）
-  - index (number, optional): 插入位置，從 0 開始，預設 0
+  - document_id (string): 來源文件 ID（與 wiki_token 擇一）
+  - wiki_token (string): 來源 Wiki 節點 Token（與 document_id 擇一）
+  - title (string): 副本標題（必填）
+  - folder_token (string): 目標資料夾 Token（與 space_id 擇一）
+  - space_id (string): 目標 Wiki 空間 ID（與 folder_token 擇一）
+  - parent_node_token (string, optional): 目標 Wiki 父節點 Token（搭配 space_id），預設為空間根目錄
+  - response_format (string, optional): 輸出格式 "json" 或 "markdown"
 
 Returns:
   {
-    "document_id": string,  // 文件 ID
-    "url": string           // 文件 URL
+    "document_id": string,  // 副本文件 ID
+    "title": string,
+    "url": string,          // 副本 URL（Wiki 目標時為 Wiki 頁面 URL）
+    "method": string,       // "drive_copy" / "wiki_copy" / "block_copy"
+    "node_token": string    // 目標為 Wiki 時的新節點 Token
   }
 
 Examples:
-  - 在開頭插入: doc_insert_blocks document_id=doccnXXXXX blocks=[{"block_type":3,"heading1":{"elements":[{"text_run":{"content":"Title"}}]}}]
-  - 在指定位置插入: doc_insert_blocks document_id=doccnXXXXX blocks=[{"block_type":2,"text":{"elements":[{"text_run":{"content":"New"}}]}}] index=5
-  - 插入容器 block: doc_insert_blocks document_id=doccnXXXXX blocks=[{"block_type":19,"callout":{"background_color":2,"border_color":2,"emoji_id":"bulb"},"_children":[{"block_type":2,"text":{"elements":[{"text_run":{"content":"內容"}}]}}]}]
+  - 複製到資料夾: doc_copy document_id=doccnXXXXX title="Retro 2026-W42" folder_token=fldcnXXXXX
+  - 複製 Wiki 頁面: doc_copy wiki_token=wikcnXXXXX title="Retro 2026-W42" space_id=7XXXXXX parent_node_token=wikcnPARENT
+  - 雲空間文件複製到 Wiki: doc_copy document_id=doccnXXXXX title="Spec (copy)" space_id=7XXXXXX
 
-Note: 容器 block（Callout、Quote 等）使用 _children 欄位指定子 block，系統自動先建立父 block 再遞迴插入。支援多層嵌套。
+Notes:
+  - 雲空間文件 → 資料夾使用雲空間複製 API，Wiki 節點 → Wiki 使用 Wiki 節點複製 API（不含子節點），內容與樣式完整保留
+  - 其他組合會建立空白文件後深度複製所有 blocks（表格、分欄、巢狀 children、圖片與附件）；含 sheet、bitable、board 等無法透過 API 重建的 block 時拒絕複製
 
 Permissions:
   - drive:drive
+  - wiki:wiki（來源或目標為 Wiki 時）
 
 Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
@@ -527,10 +1078,10 @@ Error handling:
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
 
 Don't use when:
-  - You want to append at the end (use doc_append instead)
-  - You want to prepend at the top (use doc_prepend instead)`,
-      inputSchema: DocInsertBlocksSchema,
-      outputSchema: DocUrlOutputSchema,
+  - You only need part of a document (use doc_copy_blocks instead)
+  - You need to move a document (use doc_move or wiki_move_node instead)`,
+      inputSchema: DocCopySchema,
+      outputSchema: DocCopyOutputSchema,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -540,41 +1091,2077 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { document_id, blocks, index } = params;
-        const rootBlockId = await getDocumentRootBlockId(document_id);
+        const { document_id, wiki_token, title, folder_token, space_id, parent_node_token, response_format } = params;
+        const target = { folderToken: folder_token, spaceId: space_id, parentNodeToken: parent_node_token };
 
-        await insertBlocks(document_id, rootBlockId, blocks, index);
+        const invalid = validateCopyParams({ documentId: document_id, wikiToken: wiki_token }, target, ["document_id", "wiki_token"]);
+        if (invalid) {
+          return error(invalid);
+        }
 
-        return success(`Inserted ${blocks.length} blocks at position ${index}`, {
-          document_id,
-          url: DOC_URL(document_id),
-        });
+        const source = await resolveSourceDocument(document_id, wiki_token);
+
+        // 同類型的目標直接使用官方複製 API
+        if (!source.node && folder_token) {
+          const file = await copyDriveFile(source.documentId, title, folder_token);
+          return success("Document copied", {
+            document_id: file.token,
+            title,
+            url: DOC_URL(file.token),
+            method: "drive_copy",
+          }, response_format);
+        }
+        if (source.node && space_id) {
+          const copied = await copyWikiNode(source.node.spaceId, wiki_token!, {
+            spaceId: space_id,
+            parentNodeToken: parent_node_token,
+            title,
+          });
+          return success("Document copied", {
+            document_id: copied.objToken,
+            title,
+            url: WIKI_URL(copied.nodeToken),
+            method: "wiki_copy",
+            node_token: copied.nodeToken,
+          }, response_format);
+        }
+
+        // 雲空間與 Wiki 之間：先檢查來源，再建立空白文件並深度複製 blocks
+        const { trees } = await collectDocumentTrees(source.documentId);
+        assertCopyable(trees);
+
+        const created = await createTargetDocument(title, target);
+        const targetRootId = await getDocumentRootBlockId(created.documentId);
+        await insertBlockTrees(created.documentId, targetRootId, trees, 0, -1, { sourceDocumentId: source.documentId });
+
+        return success(`Document copied (${trees.length} top-level blocks)`, {
+          document_id: created.documentId,
+          title,
+          url: created.url,
+          method: "block_copy",
+          ...(created.nodeToken ? { node_token: created.nodeToken } : {}),
+        }, response_format);
       } catch (err) {
-        return error("Document insert blocks failed", err);
+        return error("Document copy failed", err);
       }
     }
   );
 
-  // doc_delete_blocks
+  // doc_create_from_template
   server.registerTool(
-    "doc_delete_blocks",
+    "doc_create_from_template",
     {
-      title: "Delete Document Blocks",
-      description: `刪除文件指定範圍的區塊。
+      title: "Create Document from Template",
+      description: `以範本文件建立新文件：深度複製範本內容，並代換內文、表格儲存格與標題中的 {{變數}}。
 
 Args:
-  - document_id (string): 文件 ID（必填）
-  - start_index (number): 起始位置，從 0 開始（必填）
-  - end_index (number): 結束位置，不包含（必填）
+  - template_document_id (string): 範本文件 ID（與 template_wiki_token 擇一）
+  - template_wiki_token (string): 範本 Wiki 節點 Token（與 template_document_id 擇一）
+  - variables (object, optional): 變數值，陣列值用於重複區段
+  - title (string, optional): 新文件標題，可包含 {{變數}}，預設為代換後的範本標題
+  - folder_token (string): 目標資料夾 Token（與 space_id 擇一）
+  - space_id (string): 目標 Wiki 空間 ID（與 folder_token 擇一）
+  - parent_node_token (string, optional): 目標 Wiki 父節點 Token（搭配 space_id），預設為空間根目錄
+  - response_format (string, optional): 輸出格式 "json" 或 "markdown"
 
 Returns:
   {
-    "document_id": string,  // 文件 ID
-    "url": string           // 文件 URL
+    "document_id": string,
+    "title": string,
+    "url": string,                  // 新文件 URL（Wiki 目標時為 Wiki 頁面 URL）
+    "node_token": string,           // 目標為 Wiki 時的新節點 Token
+    "missing_variables": string[]   // 沒有提供值的變數（文件中保留原本的 {{name}}）
+  }
+
+Template syntax:
+  - {{name}}：代換為變數值，保留所在文字的樣式；{{a.b}} 取巢狀欄位，陣列值以 ", " 串接
+  - 區塊重複：內容只有 {{#items}} 的段落到只有 {{/items}} 的段落之間的 blocks，依 items 陣列逐項重複；區段內以 {{field}} 取用項目欄位，純量項目用 {{.}}
+  - 表格列重複：包含 {{#items}} 的列到包含 {{/items}} 的列（可為同一列），依 items 陣列逐項重複
+  - 條件區段：{{#flag}} 在值為真時輸出一次、為空陣列或假值時移除；{{^flag}} 相反
+
+Examples:
+  - 週報: doc_create_from_template template_document_id=doccnTPL folder_token=fldcnXXXXX title="Weekly Update {{week}}" variables={"week":"2026-W42","owner":"Alice"}
+  - 事故報告（時間軸表格）: doc_create_from_template template_wiki_token=wikcnTPL space_id=7XXXXXX parent_node_token=wikcnINCIDENTS variables={"id":"INC-42","timeline":[{"time":"10:02","event":"Alert fired"},{"time":"10:15","event":"Rolled back"}]}
+
+Notes:
+  - 範本含 sheet、bitable、board 等無法透過 API 重建的 block 時拒絕建立
+  - 範本本身不會被修改
+
+Permissions:
+  - drive:drive
+  - wiki:wiki（範本或目標為 Wiki 時）
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Unmatched section: {{#name}} without {{/name}} → fix the template
+
+Don't use when:
+  - You want an exact copy without placeholders (use doc_copy instead)`,
+      inputSchema: DocCreateFromTemplateSchema,
+      outputSchema: DocCreateFromTemplateOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { template_document_id, template_wiki_token, variables, folder_token, space_id, parent_node_token, response_format } = params;
+        const target = { folderToken: folder_token, spaceId: space_id, parentNodeToken: parent_node_token };
+
+        const invalid = validateCopyParams(
+          { documentId: template_document_id, wikiToken: template_wiki_token },
+          target,
+          ["template_document_id", "template_wiki_token"]
+        );
+        if (invalid) {
+          return error(invalid);
+        }
+
+        // 先在記憶體中渲染，確認範本可用後才建立文件
+        const source = await resolveSourceDocument(template_document_id, template_wiki_token);
+        const { page, trees } = await collectDocumentTrees(source.documentId);
+        assertCopyable(trees);
+        const rendered = renderTemplate(trees, variables);
+
+        const templateTitle = (page?.page?.elements || []).map((el) => el.text_run?.content ?? "").join("");
+        const titled = renderTemplateTitle(params.title ?? templateTitle, variables);
+        if (!titled.title.trim()) {
+          return error("Template has no title; specify title");
+        }
+
+        const created = await createTargetDocument(titled.title, target);
+        const targetRootId = await getDocumentRootBlockId(created.documentId);
+        await insertBlockTrees(created.documentId, targetRootId, rendered.trees, 0, -1, { sourceDocumentId: source.documentId });
+
+        const missing = [...new Set([...titled.missing, ...rendered.missing])];
+        return success(
+          `Document created from template${missing.length > 0 ? ` (${missing.length} placeholders without a value)` : ""}`,
+          {
+            document_id: created.documentId,
+            title: titled.title,
+            url: created.url,
+            ...(created.nodeToken ? { node_token: created.nodeToken } : {}),
+            missing_variables: missing,
+          },
+          response_format
+        );
+      } catch (err) {
+        return error("Document create from template failed", err);
+      }
+    }
+  );
+
+  // doc_insert_blocks
+  server.registerTool(
+    "doc_insert_blocks",
+    {
+      title: "Insert Blocks to Document",
+      description: `在文件指定位置插入內容。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - parent_block_id (string, optional): 插入到此 block 底下（例如 callout、列表項目），預設為文件根節點
+  - after_block_id (string, optional): 插入到此 block 之後（同一個 parent）
+  - before_block_id (string, optional): 插入到此 block 之前（同一個 parent）
+  - index (number, optional): 在 parent children 中的插入位置，從 0 開始，預設 0（指定 after/before_block_id 時忽略）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,  // 文件 ID
+    "url": string           // 文件 URL
+  }
+
+Examples:
+  - 在開頭插入: doc_insert_blocks document_id=doccnXXXXX blocks=[{"block_type":3,"heading1":{"elements":[{"text_run":{"content":"Title"}}]}}]
+  - 在指定位置插入: doc_insert_blocks document_id=doccnXXXXX blocks=[{"block_type":2,"text":{"elements":[{"text_run":{"content":"New"}}]}}] index=5
+  - 插入容器 block: doc_insert_blocks document_id=doccnXXXXX blocks=[{"block_type":19,"callout":{"background_color":2,"border_color":2,"emoji_id":"bulb"},"_children":[{"block_type":2,"text":{"elements":[{"text_run":{"content":"內容"}}]}}]}]
+  - 使用 Markdown: doc_insert_blocks document_id=doccnXXXXX markdown="- parent\n  - child" index=5
+  - 插入到某 block 之後: doc_insert_blocks document_id=doccnXXXXX markdown="補充說明" after_block_id=blkXXXXX
+  - 加入巢狀列表項目: doc_insert_blocks document_id=doccnXXXXX markdown="- 子項目" parent_block_id=blkLISTITEM index=0
+
+Note: 容器 block（Callout、Quote 等）使用 _children 欄位指定子 block，系統自動先建立父 block 再遞迴插入。支援多層嵌套。Markdown 的巢狀列表、引用與表格會自動轉為 _children / _cellContents。
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Don't use when:
+  - You want to append at the end (use doc_append instead)
+  - You want to prepend at the top (use doc_prepend instead)`,
+      inputSchema: DocInsertBlocksSchema,
+      outputSchema: DocUrlOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, parent_block_id, after_block_id, before_block_id, index } = params;
+
+        if (after_block_id && before_block_id) {
+          return error("Specify only one of after_block_id and before_block_id");
+        }
+
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const position = await resolveInsertPosition(document_id, {
+          parentBlockId: parent_block_id,
+          afterBlockId: after_block_id,
+          beforeBlockId: before_block_id,
+          index,
+        });
+
+        await insertBlocks(document_id, position.parentId, blocks, position.index, revision);
+
+        return success(`Inserted ${blocks.length} blocks at position ${position.index}${describeParent(document_id, position.parentId)}`, {
+          document_id,
+          url: DOC_URL(document_id),
+        });
+      } catch (err) {
+        return error("Document insert blocks failed", err);
+      }
+    }
+  );
+
+  // doc_insert_image
+  server.registerTool(
+    "doc_insert_image",
+    {
+      title: "Insert Image into Document",
+      description: `上傳本機圖片或 base64 圖片資料，並插入為文件中的圖片 block。流程為建立空的圖片 block → 上傳素材並綁定到該 block → 設定素材 token 與顯示尺寸。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - file_path (string): 本機圖片路徑（與 image_base64 擇一）
+  - image_base64 (string): base64 圖片資料，可為 data URL（與 file_path 擇一）
+  - file_name (string, optional): 圖片檔名，預設為 file_path 的檔名或 image.<格式>
+  - width (number, optional): 顯示寬度（px）；只指定寬或高時另一邊依原始比例計算，預設原始尺寸
+  - height (number, optional): 顯示高度（px）
+  - align (string, optional): "left"、"center"、"right"，預設置中
+  - parent_block_id (string, optional): 插入到此 block 底下（例如 callout、表格 cell），預設為文件根節點
+  - after_block_id (string, optional): 插入到此 block 之後（同一個 parent）
+  - before_block_id (string, optional): 插入到此 block 之前（同一個 parent）
+  - index (number, optional): 在 parent children 中的插入位置，從 0 開始，預設 0（指定 after/before_block_id 時忽略）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "block_id": string,    // 圖片 block ID
+    "file_token": string,  // 上傳後的素材 token
+    "width": number,       // 顯示寬度
+    "height": number       // 顯示高度
+  }
+
+Examples:
+  - 插入到某 block 之後: doc_insert_image document_id=doccnXXXXX file_path="./diagram.png" after_block_id=blkXXXXX
+  - 指定寬度: doc_insert_image document_id=doccnXXXXX file_path="/tmp/screenshot.jpg" width=600 index=3
+  - base64: doc_insert_image document_id=doccnXXXXX image_base64="data:image/png;base64,iVBORw0..." file_name="chart.png"
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - Unsupported image format → convert to PNG, JPEG, GIF, WebP or BMP
+  - File larger than ${MEDIA_UPLOAD_MAX_BYTES / 1024 / 1024} MB → resize or compress the image
+  - ENOENT: file_path not found → check the path (relative paths resolve from the server's working directory)
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Notes:
+  - 上傳或設定失敗時會刪除剛建立的空圖片 block
+  - 所有請求都經過同一份文件的寫入佇列，與其他編輯依序進行
+
+Don't use when:
+  - The image is already in another Lark document (use doc_copy_blocks instead)
+  - You need to attach a non-image file (use doc_insert_file instead)`,
+      inputSchema: DocInsertImageSchema,
+      outputSchema: DocInsertImageOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, parent_block_id, after_block_id, before_block_id, index } = params;
+
+        if (after_block_id && before_block_id) {
+          return error("Specify only one of after_block_id and before_block_id");
+        }
+
+        const { data, fileName } = await readMediaInput({
+          filePath: params.file_path,
+          base64: params.image_base64,
+          fileName: params.file_name,
+        });
+        if (data.length > MEDIA_UPLOAD_MAX_BYTES) {
+          return error(`Image is ${data.length} bytes; images can be at most ${MEDIA_UPLOAD_MAX_BYTES} bytes`);
+        }
+        const info = probeImage(data);
+        if (!info) {
+          return error("Unsupported image format: expected PNG, JPEG, GIF, WebP or BMP");
+        }
+        const size = scaleImage(info, { width: params.width, height: params.height });
+
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const position = await resolveInsertPosition(document_id, {
+          parentBlockId: parent_block_id,
+          afterBlockId: after_block_id,
+          beforeBlockId: before_block_id,
+          index,
+        });
+
+        const { blockId, fileToken } = await insertImageBlock(
+          document_id,
+          position.parentId,
+          position.index,
+          {
+            data,
+            fileName: fileName ?? `image.${info.format === "jpeg" ? "jpg" : info.format}`,
+            ...size,
+            ...(params.align ? { align: IMAGE_ALIGN[params.align] } : {}),
+          },
+          revision
+        );
+
+        return success(
+          `Inserted ${info.width}x${info.height} ${info.format} image at position ${position.index}${describeParent(document_id, position.parentId)}`,
+          { document_id, url: DOC_URL(document_id), block_id: blockId, file_token: fileToken, ...size }
+        );
+      } catch (err) {
+        return error("Document insert image failed", err);
+      }
+    }
+  );
+
+  // doc_insert_file
+  server.registerTool(
+    "doc_insert_file",
+    {
+      title: "Insert File into Document",
+      description: `上傳本機檔案或 base64 資料，並插入為文件中的附件（file block）。適合 PDF、log、zip 等非圖片檔案。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - file_path (string): 本機檔案路徑（與 file_base64 擇一）
+  - file_base64 (string): base64 檔案內容，可為 data URL（與 file_path 擇一，需同時指定 file_name）
+  - file_name (string, optional): 附件顯示的檔名，預設為 file_path 的檔名
+  - parent_block_id (string, optional): 插入到此 block 底下（例如 callout、表格 cell），預設為文件根節點
+  - after_block_id (string, optional): 插入到此 block 之後（同一個 parent）
+  - before_block_id (string, optional): 插入到此 block 之前（同一個 parent）
+  - index (number, optional): 在 parent children 中的插入位置，從 0 開始，預設 0（指定 after/before_block_id 時忽略）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "block_id": string,       // 最外層 block ID（API 自動包上的 view block）
+    "file_block_id": string,  // file block（23）ID
+    "file_token": string,     // 素材 token，可用 doc_media_download 下載
+    "file_name": string,
+    "bytes": number,
+    "chunked": boolean        // 是否使用分片上傳
+  }
+
+Examples:
+  - 附上事故 log: doc_insert_file document_id=doccnXXXXX file_path="./incident.log" after_block_id=blkXXXXX
+  - 附上 PDF 並改名: doc_insert_file document_id=doccnXXXXX file_path="/tmp/report-final.pdf" file_name="postmortem.pdf"
+  - base64: doc_insert_file document_id=doccnXXXXX file_base64="UEsDBBQ..." file_name="bundle.zip"
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - ENOENT: file_path not found → check the path (relative paths resolve from the server's working directory)
+  - Upload failed after retries → the empty file block is removed; call again to retry
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Notes:
+  - 超過 ${MEDIA_UPLOAD_MAX_BYTES / 1024 / 1024} MB 的檔案改用分片上傳（upload_prepare → upload_part → upload_finish），失敗的分片會自動重試
+  - 呼叫端提供 progressToken 時，每上傳完一個分片送出一次 notifications/progress
+  - 上傳或設定失敗時會刪除剛建立的附件 block
+  - 所有請求都經過同一份文件的寫入佇列，與其他編輯依序進行
+
+Don't use when:
+  - The file is an image you want displayed inline (use doc_insert_image instead)
+  - The file is already attached in another Lark document (use doc_copy_blocks instead)`,
+      inputSchema: DocInsertFileSchema,
+      outputSchema: DocInsertFileOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const { document_id, parent_block_id, after_block_id, before_block_id, index } = params;
+
+        if (after_block_id && before_block_id) {
+          return error("Specify only one of after_block_id and before_block_id");
+        }
+        if (params.file_base64 && !params.file_name) {
+          return error("file_name is required when using file_base64");
+        }
+
+        const { data, fileName } = await readMediaInput({
+          filePath: params.file_path,
+          base64: params.file_base64,
+          fileName: params.file_name,
+        });
+
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const position = await resolveInsertPosition(document_id, {
+          parentBlockId: parent_block_id,
+          afterBlockId: after_block_id,
+          beforeBlockId: before_block_id,
+          index,
+        });
+
+        const progressToken = extra._meta?.progressToken;
+        const chunked = data.length > MEDIA_UPLOAD_MAX_BYTES;
+        const inserted = await insertFileBlock(
+          document_id,
+          position.parentId,
+          position.index,
+          { data, fileName: fileName! },
+          revision,
+          progressToken !== undefined
+            ? (uploaded, total) =>
+                extra.sendNotification({
+                  method: "notifications/progress",
+                  params: { progressToken, progress: uploaded, total, message: `Uploaded ${uploaded} of ${total} bytes` },
+                })
+            : undefined
+        );
+
+        return success(
+          `Inserted file ${fileName} (${data.length} bytes${chunked ? ", chunked upload" : ""}) at position ${position.index}${describeParent(document_id, position.parentId)}`,
+          {
+            document_id,
+            url: DOC_URL(document_id),
+            block_id: inserted.blockId,
+            file_block_id: inserted.fileBlockId,
+            file_token: inserted.fileToken,
+            file_name: fileName!,
+            bytes: data.length,
+            chunked,
+          }
+        );
+      } catch (err) {
+        return error("Document insert file failed", err);
+      }
+    }
+  );
+
+  // doc_delete_blocks
+  server.registerTool(
+    "doc_delete_blocks",
+    {
+      title: "Delete Document Blocks",
+      description: `刪除文件指定範圍的區塊。可用 block_id 直接指定，或以 parent_block_id 內的 index 範圍指定。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - block_id (string, optional): 要刪除的第一個 block，自動解析 parent 與位置
+  - count (number, optional): 從 block_id 起連續刪除的 sibling 數量，預設 1
+  - parent_block_id (string, optional): index 範圍所屬的 parent block，預設為文件根節點
+  - start_index (number): 起始位置，從 0 開始（未指定 block_id 時必填）
+  - end_index (number): 結束位置，不包含（未指定 block_id 時必填）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,  // 文件 ID
+    "url": string           // 文件 URL
+  }
+
+Examples:
+  - 刪除第 2-4 個區塊: doc_delete_blocks document_id=doccnXXXXX start_index=2 end_index=5
+  - 刪除指定 block: doc_delete_blocks document_id=doccnXXXXX block_id=blkXXXXX
+  - 刪除 callout 內第 1 個子 block: doc_delete_blocks document_id=doccnXXXXX parent_block_id=blkCALLOUT start_index=0 end_index=1
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Don't use when:
+  - You need to replace content (use doc_update with range instead)`,
+      inputSchema: DocDeleteBlocksSchema,
+      outputSchema: DocUrlOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id } = params;
+
+        if (!params.block_id && (params.start_index === undefined || params.end_index === undefined)) {
+          return error("Either block_id or start_index/end_index is required");
+        }
+        if (!params.block_id && params.end_index! <= params.start_index!) {
+          return error("Invalid range (end_index must be greater than start_index)");
+        }
+
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const { parentId, startIndex, endIndex } = await resolveBlockRange(document_id, {
+          parentBlockId: params.parent_block_id,
+          blockId: params.block_id,
+          count: params.count,
+          startIndex: params.start_index,
+          endIndex: params.end_index,
+        });
+
+        await deleteBlockRange(document_id, parentId, startIndex, endIndex, revision);
+
+        return success(`Deleted ${endIndex - startIndex} blocks (index ${startIndex} to ${endIndex}${describeParent(document_id, parentId)})`, {
+          document_id,
+          url: DOC_URL(document_id),
+        });
+      } catch (err) {
+        return error("Document delete blocks failed", err);
+      }
+    }
+  );
+
+  // doc_move_blocks
+  server.registerTool(
+    "doc_move_blocks",
+    {
+      title: "Move Document Blocks",
+      description: `移動文件內的區塊到指定位置，可跨 parent 移動（例如移入 callout 或巢狀列表）。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - block_id (string, optional): 要移動的第一個 block，自動解析 parent 與位置
+  - count (number, optional): 從 block_id 起連續移動的 sibling 數量，預設 1
+  - parent_block_id (string, optional): 來源 index 範圍所屬的 parent block，預設為文件根節點
+  - start_index (number): 要移動的起始位置，從 0 開始（未指定 block_id 時必填）
+  - end_index (number): 要移動的結束位置，不包含（未指定 block_id 時必填）
+  - after_block_id (string, optional): 移到此 block 之後
+  - before_block_id (string, optional): 移到此 block 之前
+  - target_parent_block_id (string, optional): 目標 parent block，預設與來源相同
+  - target_index (number, optional): 在目標 parent children 中的位置（以移動前的位置計算），從 0 開始
+  目標位置需指定 after_block_id、before_block_id 或 target_index 其中之一
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,  // 文件 ID
+    "url": string           // 文件 URL
+  }
+
+Examples:
+  - 將第 0-2 個區塊移到位置 5: doc_move_blocks document_id=doccnXXXXX start_index=0 end_index=2 target_index=5
+  - 將第 5-7 個區塊移到開頭: doc_move_blocks document_id=doccnXXXXX start_index=5 end_index=7 target_index=0
+  - 將 block 移到另一個 block 之後: doc_move_blocks document_id=doccnXXXXX block_id=blkA after_block_id=blkB
+  - 移入 callout 開頭: doc_move_blocks document_id=doccnXXXXX block_id=blkA target_parent_block_id=blkCALLOUT target_index=0
+
+Notes:
+  - 被移動的 blocks 在目標位置深度重建：巢狀 children、表格（儲存格內容與合併）、分欄、圖片與附件皆會保留，但 block ID 會改變
+  - 含 sheet、bitable、board 等無法透過 API 重建的 block 時拒絕移動，文件不會被修改
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+  - Insert failed after delete: the original blocks are restored from a snapshot; the error states whether rollback succeeded
+
+Don't use when:
+  - You need to move blocks between documents (use doc_copy_blocks, then doc_delete_blocks on the source)`,
+      inputSchema: DocMoveBlocksSchema,
+      outputSchema: DocUrlOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, target_index, target_parent_block_id, after_block_id, before_block_id } = params;
+
+        if (!params.block_id && (params.start_index === undefined || params.end_index === undefined)) {
+          return error("Either block_id or start_index/end_index is required");
+        }
+        if (!params.block_id && params.end_index! <= params.start_index!) {
+          return error("Invalid range (end_index must be greater than start_index)");
+        }
+        if ([after_block_id, before_block_id, target_index].filter((v) => v !== undefined).length !== 1) {
+          return error("Specify exactly one of after_block_id, before_block_id and target_index");
+        }
+
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const source = await resolveBlockRange(document_id, {
+          parentBlockId: params.parent_block_id,
+          blockId: params.block_id,
+          count: params.count,
+          startIndex: params.start_index,
+          endIndex: params.end_index,
+        });
+        const target = await resolveInsertPosition(document_id, {
+          parentBlockId: target_parent_block_id ?? (target_index !== undefined ? source.parentId : undefined),
+          afterBlockId: after_block_id,
+          beforeBlockId: before_block_id,
+          index: target_index,
+        });
+
+        const allBlocks = await getDocumentBlocks(document_id);
+        const blockMap = new Map(allBlocks.map((b) => [b.block_id, b]));
+        const siblings = blockMap.get(source.parentId)?.children || [];
+
+        if (source.endIndex > siblings.length) {
+          return error(`Invalid range: parent block has ${siblings.length} children, but end_index is ${source.endIndex}`);
+        }
+
+        // 取得要移動的 blocks（依 parent children 順序）
+        const movedIds = siblings.slice(source.startIndex, source.endIndex);
+        const blocksToMove = movedIds.map((id) => blockMap.get(id)).filter((b): b is LarkBlock => !!b);
+        const blockCount = blocksToMove.length;
+        const sameParent = target.parentId === source.parentId;
+
+        if (sameParent && target.index >= source.startIndex && target.index < source.endIndex) {
+          return error("Target position cannot be within the source range");
+        }
+
+        // 目標 parent 不可位於被移動的 blocks 之內
+        for (let id: string | undefined = target.parentId; id; id = blockMap.get(id)?.parent_id) {
+          if (movedIds.includes(id)) {
+            return error("Cannot move blocks into themselves or their descendants");
+          }
+        }
+
+        // 1. 計算新的目標位置（同一個 parent 時，刪除後索引會變化）
+        let adjustedTargetIndex = target.index;
+        if (sameParent && target.index > source.startIndex) {
+          adjustedTargetIndex = target.index - blockCount;
+        }
+
+        // 2. 刪除原位置的 blocks 並在目標位置重建完整子樹，失敗時還原原位置的內容
+        const snapshot = captureSnapshot(document_id, allBlocks, source.parentId, source.startIndex, source.endIndex);
+        assertCopyable(snapshot.trees);
+        await replaceWithRollback(
+          snapshot,
+          { parentId: target.parentId, index: adjustedTargetIndex },
+          async (insertRevision) => {
+            await insertBlockTrees(document_id, target.parentId, snapshot.trees, adjustedTargetIndex, insertRevision);
+          },
+          revision
+        );
+
+        return success(`Moved ${blockCount} blocks from index ${source.startIndex}-${source.endIndex} to index ${target.index}${describeParent(document_id, target.parentId)}`, {
+          document_id,
+          url: DOC_URL(document_id),
+        });
+      } catch (err) {
+        return error("Document move blocks failed", err);
+      }
+    }
+  );
+
+  // doc_copy_blocks
+  server.registerTool(
+    "doc_copy_blocks",
+    {
+      title: "Copy Document Blocks",
+      description: `複製一段區塊（含整棵子樹）到同一份或另一份文件的指定位置，來源不變。
+
+Args:
+  - document_id (string): 來源文件 ID（必填）
+  - block_id (string, optional): 要複製的第一個 block，自動解析 parent 與位置
+  - count (number, optional): 從 block_id 起連續複製的 sibling 數量，預設 1
+  - parent_block_id (string, optional): 來源 index 範圍所屬的 parent block，預設為文件根節點
+  - start_index (number): 要複製的起始位置，從 0 開始（未指定 block_id 時必填）
+  - end_index (number): 要複製的結束位置，不包含（未指定 block_id 時必填）
+  - target_document_id (string, optional): 目標文件 ID，預設與來源相同
+  - target_parent_block_id (string, optional): 目標文件中的 parent block，預設為目標文件根節點
+  - after_block_id (string, optional): 複製到目標文件此 block 之後
+  - before_block_id (string, optional): 複製到目標文件此 block 之前
+  - target_index (number, optional): 在目標 parent children 中的位置，從 0 開始，預設 0（指定 after/before_block_id 時忽略）
+  - expected_revision (number, optional): 目標文件的版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,  // 目標文件 ID
+    "url": string,          // 目標文件 URL
+    "block_ids": string[]   // 新建立的根層級 block ID（依序）
+  }
+
+Examples:
+  - 複製到另一份文件開頭: doc_copy_blocks document_id=doccnSRC start_index=0 end_index=5 target_document_id=doccnDST
+  - 複製表格到某 block 之後: doc_copy_blocks document_id=doccnSRC block_id=blkTABLE target_document_id=doccnDST after_block_id=blkXXXXX
+  - 在同一份文件內複製: doc_copy_blocks document_id=doccnXXXXX block_id=blkA count=3 after_block_id=blkB
+
+Notes:
+  - 深度複製巢狀 children、表格（儲存格內容與合併）、分欄、圖片與附件；跨文件時圖片與附件會重新上傳
+  - 含 sheet、bitable、board 等無法透過 API 重建的 block 時拒絕複製，目標文件不會被修改
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: target document changed since expected_revision → re-read with doc_read and retry
+
+Don't use when:
+  - You want to move blocks within a document (use doc_move_blocks instead)
+  - You need to copy a whole document (use doc_copy instead)`,
+      inputSchema: DocCopyBlocksSchema,
+      outputSchema: DocCopyBlocksOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, target_parent_block_id, after_block_id, before_block_id, target_index } = params;
+        const targetDocumentId = params.target_document_id ?? document_id;
+
+        if (!params.block_id && (params.start_index === undefined || params.end_index === undefined)) {
+          return error("Either block_id or start_index/end_index is required");
+        }
+        if (!params.block_id && params.end_index! <= params.start_index!) {
+          return error("Invalid range (end_index must be greater than start_index)");
+        }
+        if (after_block_id && before_block_id) {
+          return error("Specify only one of after_block_id and before_block_id");
+        }
+
+        const source = await resolveBlockRange(document_id, {
+          parentBlockId: params.parent_block_id,
+          blockId: params.block_id,
+          count: params.count,
+          startIndex: params.start_index,
+          endIndex: params.end_index,
+        });
+        const snapshot = captureSnapshot(
+          document_id,
+          await getDocumentBlocks(document_id),
+          source.parentId,
+          source.startIndex,
+          source.endIndex
+        );
+        assertCopyable(snapshot.trees);
+
+        const revision = await checkDocumentRevision(targetDocumentId, params.expected_revision);
+        const target = await resolveInsertPosition(targetDocumentId, {
+          parentBlockId: target_parent_block_id,
+          afterBlockId: after_block_id,
+          beforeBlockId: before_block_id,
+          index: target_index,
+        });
+
+        const blockIds = await insertBlockTrees(targetDocumentId, target.parentId, snapshot.trees, target.index, revision, {
+          sourceDocumentId: document_id,
+        });
+
+        return success(`Copied ${blockIds.length} blocks to index ${target.index}${describeParent(targetDocumentId, target.parentId)}`, {
+          document_id: targetDocumentId,
+          url: DOC_URL(targetDocumentId),
+          block_ids: blockIds,
+        });
+      } catch (err) {
+        return error("Document copy blocks failed", err);
+      }
+    }
+  );
+
+  // doc_search_blocks
+  server.registerTool(
+    "doc_search_blocks",
+    {
+      title: "Search Document Blocks",
+      description: `在文件內搜尋符合關鍵字或正規表達式的區塊。搜尋整棵 block 樹，包含巢狀列表、callout、分欄與表格 cell 內的文字，並回傳每個比對的位置資訊，方便後續以 doc_style_text、doc_replace_text 或 block 工具精準編輯。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - keyword (string): 搜尋關鍵字或正規表達式（必填）
+  - regex (boolean, optional): keyword 視為 JavaScript 正規表達式，預設 false
+  - whole_word (boolean, optional): 只比對完整單字，預設 false
+  - case_sensitive (boolean, optional): 區分大小寫，預設 false
+  - context (number, optional): 每個結果前後各附帶幾個有文字的 block（0-10），預設 0
+  - limit (number, optional): 最多回傳幾個 block（1-200），預設 50
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "total": number,              // 符合的 block 總數（含超過 limit 未回傳的）
+    "items": [
+      {
+        "block_id": string,
+        "block_type": number,     // 區塊類型
+        "index": number,          // 所屬根層級 block 的位置（0-based）
+        "parent_chain": [         // 從根層級 block 到直接 parent（根層級 block 為空陣列）
+          { "block_id": string, "block_type": number, "text"?: string }
+        ],
+        "heading"?: { "block_id": string, "level": number, "text": string },  // 最近的前一個標題
+        "text": string,           // 區塊完整文字
+        "matches": [{ "offset": number, "length": number, "match": string }],
+        "context_before"?: [{ "block_id": string, "block_type": number, "text": string }],
+        "context_after"?: [...]
+      }
+    ]
+  }
+
+Examples:
+  - 搜尋關鍵字: doc_search_blocks document_id=doccnXXXXX keyword="TODO"
+  - 區分大小寫: doc_search_blocks document_id=doccnXXXXX keyword="API" case_sensitive=true
+  - 完整單字: doc_search_blocks document_id=doccnXXXXX keyword="test" whole_word=true
+  - 正規表達式與前後文: doc_search_blocks document_id=doccnXXXXX keyword="JIRA-\\d+" regex=true context=1
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - Invalid regular expression → fix the keyword pattern
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+
+Notes:
+  - offset 以 UTF-16 字元計算，@提及、行內公式等非文字元素在 text 中以 U+FFFC 表示，比對不會跨越這些元素
+  - whole_word 以字母、數字與底線判斷單字邊界，中日文等不以空白分隔的文字通常不適用
+  - 前後文依文件順序，略過沒有文字的容器 block（表格、cell、分欄等）
+
+Don't use when:
+  - You need to search across documents (use lark_search instead)`,
+      inputSchema: DocSearchBlocksSchema,
+      outputSchema: DocSearchBlocksOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, keyword, regex, whole_word, case_sensitive, context, limit } = params;
+
+        let pattern: RegExp;
+        try {
+          pattern = buildPattern(keyword, { regex, caseSensitive: case_sensitive, wholeWord: whole_word });
+        } catch (err) {
+          return error(`Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+        }
+
+        const rootBlockId = await getDocumentRootBlockId(document_id);
+        const blocks = await getDocumentBlocks(document_id);
+        const { total, results } = searchBlocks(blocks, rootBlockId, pattern, { context, limit });
+
+        const result = { document_id, url: DOC_URL(document_id), total, items: results };
+        if (total === 0) {
+          return success(`No blocks found matching "${keyword}"`, result, ResponseFormat.JSON);
+        }
+
+        const shown = total > results.length ? ` (showing first ${results.length})` : "";
+        return success(`Found ${total} blocks matching "${keyword}"${shown}`, result, ResponseFormat.JSON);
+      } catch (err) {
+        return error("Document search blocks failed", err);
+      }
+    }
+  );
+
+  // doc_batch_update_blocks
+  server.registerTool(
+    "doc_batch_update_blocks",
+    {
+      title: "Batch Update Document Blocks",
+      description: `批次更新多個 block 的文字內容。特別適合一次填入表格多個 cell。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - requests (array): 更新請求陣列，每項包含：
+    - block_id (string): 要更新的 Block ID（從 doc_read 取得）
+    - update_text_elements (object): 文字元素更新內容
+      - elements (array): 文字元素陣列
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,  // 文件 ID
+    "url": string           // 文件 URL
+  }
+
+Examples:
+  - 更新單一 block: doc_batch_update_blocks document_id=doccnXXX requests=[{"block_id":"blk1","update_text_elements":{"elements":[{"text_run":{"content":"Hello"}}]}}]
+  - 批次更新表格 cell: 先用 doc_read 取得 cell 的 text block_id，再一次更新多個 cell
+  - 典型流程: doc_read → 找到 table block → 取得 cell children 的 block_id → doc_batch_update_blocks
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Don't use when:
+  - You need to create new blocks (use doc_insert_blocks or doc_append instead)
+  - You need to delete blocks (use doc_delete_blocks instead)
+  - You only need to update one block (still works, but single PATCH may suffice)`,
+      inputSchema: DocBatchUpdateBlocksSchema,
+      outputSchema: DocUrlOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, requests } = params;
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        await batchUpdateBlocks(document_id, requests, revision);
+        return success(
+          `Batch updated ${requests.length} blocks`,
+          { document_id, url: DOC_URL(document_id) }
+        );
+      } catch (err) {
+        return error("Batch update blocks failed", err);
+      }
+    }
+  );
+
+  // doc_replace_text
+  server.registerTool(
+    "doc_replace_text",
+    {
+      title: "Find and Replace Text in Document",
+      description: `在整份文件中搜尋並取代文字，涵蓋巢狀區塊與表格 cell 內的文字。取代時會切分/合併 text_run，周圍文字的粗體、斜體、連結等樣式維持不變。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - find (string): 要搜尋的文字或正規表達式（必填）
+  - replace (string): 取代文字（必填，可為空字串）。regex=true 時支援 $1、$<name>、$&、$$
+  - regex (boolean, optional): find 視為 JavaScript 正規表達式，預設 false
+  - case_sensitive (boolean, optional): 區分大小寫，預設 true
+  - dry_run (boolean, optional): 只預覽比對結果、不修改文件，預設 false
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "dry_run": boolean,
+    "match_count": number,   // 比對次數
+    "block_count": number,   // 受影響的 block 數
+    "matches": [
+      {
+        "block_id": string,
+        "block_type": number,
+        "offset": number,      // 比對在 block 文字中的位置
+        "match": string,       // 比對到的文字
+        "replacement": string, // 取代後的文字
+        "context": string      // 前後文，比對處以 [] 標示
+      }
+    ]
+  }
+
+Examples:
+  - 預覽: doc_replace_text document_id=doccnXXX find="v1.2" replace="v1.3" dry_run=true
+  - 取代: doc_replace_text document_id=doccnXXX find="v1.2" replace="v1.3"
+  - 正規表達式: doc_replace_text document_id=doccnXXX find="(\\d{4})-(\\d{2})" replace="$2/$1" regex=true
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - Invalid regular expression → fix the find pattern
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Notes:
+  - 比對不會跨越 @提及、行內公式等非文字元素
+  - 取代文字沿用比對起點所在 text_run 的樣式
+  - 更新以每批 ${BATCH_UPDATE_LIMIT} 個 block 送出
+
+Don't use when:
+  - You need to rewrite whole blocks (use doc_batch_update_blocks or doc_update instead)
+  - You only need to locate text (use doc_search_blocks instead)`,
+      inputSchema: DocReplaceTextSchema,
+      outputSchema: DocReplaceTextOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, find, replace, regex, case_sensitive, dry_run } = params;
+
+        let pattern: RegExp;
+        try {
+          pattern = buildPattern(find, { regex, caseSensitive: case_sensitive });
+        } catch (err) {
+          return error(`Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+        }
+
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+
+        // getDocumentBlocks 回傳所有層級的 block，包含表格 cell 內的文字 block
+        const blocks = await getDocumentBlocks(document_id);
+        const matches: Array<{
+          block_id: string;
+          block_type: number;
+          offset: number;
+          match: string;
+          replacement: string;
+          context: string;
+        }> = [];
+        const requests: Array<{
+          block_id: string;
+          update_text_elements: { elements: Array<Record<string, unknown>> };
+        }> = [];
+
+        for (const block of blocks) {
+          const elements = getTextContent(block)?.elements;
+          if (!elements || elements.length === 0) continue;
+
+          const text = elementsToText(elements);
+          const found = findMatches(text, pattern);
+          if (found.length === 0) continue;
+
+          const ranges = found.map((m) => ({
+            start: m.index,
+            end: m.index + m[0].length,
+            replacement: regex ? expandReplacement(replace, m) : replace,
+          }));
+
+          for (const range of ranges) {
+            const before = text.slice(Math.max(0, range.start - 20), range.start);
+            const after = text.slice(range.end, range.end + 20);
+            matches.push({
+              block_id: block.block_id,
+              block_type: block.block_type,
+              offset: range.start,
+              match: text.slice(range.start, range.end),
+              replacement: range.replacement,
+              context: `${before}[${text.slice(range.start, range.end)}]${after}`,
+            });
+          }
+
+          requests.push({
+            block_id: block.block_id,
+            update_text_elements: {
+              elements: replaceRanges(elements, ranges) as Array<Record<string, unknown>>,
+            },
+          });
+        }
+
+        const result = {
+          document_id,
+          url: DOC_URL(document_id),
+          dry_run,
+          match_count: matches.length,
+          block_count: requests.length,
+          matches,
+        };
+
+        if (matches.length === 0) {
+          return success(`No matches found for "${find}"`, result, ResponseFormat.JSON);
+        }
+
+        if (dry_run) {
+          return success(
+            `Dry run: ${matches.length} matches in ${requests.length} blocks (document not modified)`,
+            result,
+            ResponseFormat.JSON
+          );
+        }
+
+        for (let i = 0; i < requests.length; i += BATCH_UPDATE_LIMIT) {
+          await batchUpdateBlocks(document_id, requests.slice(i, i + BATCH_UPDATE_LIMIT), i === 0 ? revision : -1);
+        }
+
+        return success(
+          `Replaced ${matches.length} matches in ${requests.length} blocks`,
+          result,
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Replace text failed", err);
+      }
+    }
+  );
+
+  // doc_style_text
+  server.registerTool(
+    "doc_style_text",
+    {
+      title: "Style Text in Document",
+      description: `搜尋文字並套用或移除行內樣式（粗體、斜體、底線、刪除線、行內程式碼、連結、文字顏色、背景色）。只修改比對到的文字，必要時切分 text_run，周圍文字的樣式維持不變。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - find (string): 要搜尋的文字或正規表達式（必填）
+  - regex (boolean, optional): find 視為 JavaScript 正規表達式，預設 false
+  - case_sensitive (boolean, optional): 區分大小寫，預設 true
+  - block_ids (string[], optional): 只搜尋這些 block 及其子孫 block（例如某個表格或列表），預設整份文件
+  - bold / italic / underline / strikethrough / inline_code (boolean, optional): true 套用、false 移除
+  - link (string, optional): 連結 URL，空字串移除連結
+  - text_color (number, optional): 文字顏色 1-7（1=紅, 2=橙, 3=黃, 4=綠, 5=藍, 6=紫, 7=灰），0 移除
+  - background_color (number, optional): 背景色 1-15（1-7 淺色, 8-14 深色, 15 淺灰），0 移除
+  - clear (boolean, optional): 先清除比對文字原有的所有樣式再套用指定樣式，預設 false
+  - dry_run (boolean, optional): 只預覽比對結果、不修改文件，預設 false
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "dry_run": boolean,
+    "match_count": number,   // 比對次數
+    "block_count": number,   // 樣式有變更的 block 數
+    "matches": [
+      {
+        "block_id": string,
+        "block_type": number,
+        "offset": number,      // 比對在 block 文字中的位置
+        "match": string,       // 比對到的文字
+        "context": string      // 前後文，比對處以 [] 標示
+      }
+    ]
+  }
+
+Examples:
+  - 粗體: doc_style_text document_id=doccnXXX find="注意事項" bold=true
+  - 加連結: doc_style_text document_id=doccnXXX find="設計文件" link="https://example.com/design"
+  - 標示版本號: doc_style_text document_id=doccnXXX find="v\\d+\\.\\d+" regex=true background_color=3
+  - 清除樣式: doc_style_text document_id=doccnXXX find="舊名稱" clear=true
+  - 只在表格內: doc_style_text document_id=doccnXXX find="FAIL" block_ids=["doxcnTable"] text_color=1 bold=true
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - Invalid regular expression → fix the find pattern
+  - No style given → pass at least one style option or clear=true
+  - Block not found → check block_ids with doc_read
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Notes:
+  - 比對不會跨越 @提及、行內公式等非文字元素
+  - 未指定的樣式保持原樣；樣式已相同的 block 不會送出更新
+  - 更新以每批 ${BATCH_UPDATE_LIMIT} 個 block 送出
+
+Don't use when:
+  - You need to change the text itself (use doc_replace_text instead)
+  - You need block-level styles such as alignment or heading level (use doc_batch_update_blocks instead)`,
+      inputSchema: DocStyleTextSchema,
+      outputSchema: DocStyleTextOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, find, regex, case_sensitive, block_ids, dry_run } = params;
+
+        const patch: TextStylePatch = params.clear
+          ? {
+              bold: null,
+              italic: null,
+              underline: null,
+              strikethrough: null,
+              inline_code: null,
+              link: null,
+              text_color: null,
+              background_color: null,
+            }
+          : {};
+        for (const key of ["bold", "italic", "underline", "strikethrough", "inline_code"] as const) {
+          if (params[key] !== undefined) patch[key] = params[key] || null;
+        }
+        if (params.link !== undefined) {
+          patch.link = params.link ? { url: encodeURIComponent(params.link) } : null;
+        }
+        if (params.text_color !== undefined) patch.text_color = params.text_color || null;
+        if (params.background_color !== undefined) patch.background_color = params.background_color || null;
+
+        if (Object.keys(patch).length === 0) {
+          return error("No style given: set at least one of bold, italic, underline, strikethrough, inline_code, link, text_color, background_color or clear");
+        }
+
+        let pattern: RegExp;
+        try {
+          pattern = buildPattern(find, { regex, caseSensitive: case_sensitive });
+        } catch (err) {
+          return error(`Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+        }
+
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+
+        let blocks = await getDocumentBlocks(document_id);
+        if (block_ids?.length) {
+          // 限定範圍：指定的 blocks 及其所有子孫
+          const blockMap = new Map(blocks.map((b) => [b.block_id, b]));
+          const scope = new Set<string>();
+          const visit = (id: string) => {
+            if (scope.has(id)) return;
+            scope.add(id);
+            for (const child of blockMap.get(id)?.children || []) visit(child);
+          };
+          for (const id of block_ids) {
+            if (!blockMap.has(id)) {
+              return error(`Block ${id} not found in document ${document_id}`);
+            }
+            visit(id);
+          }
+          blocks = blocks.filter((b) => scope.has(b.block_id));
+        }
+
+        const matches: Array<{
+          block_id: string;
+          block_type: number;
+          offset: number;
+          match: string;
+          context: string;
+        }> = [];
+        const requests: Array<{
+          block_id: string;
+          update_text_elements: { elements: Array<Record<string, unknown>> };
+        }> = [];
+
+        for (const block of blocks) {
+          const elements = getTextContent(block)?.elements;
+          if (!elements || elements.length === 0) continue;
+
+          const text = elementsToText(elements);
+          const found = findMatches(text, pattern);
+          if (found.length === 0) continue;
+
+          const ranges = found.map((m) => ({ start: m.index, end: m.index + m[0].length }));
+          for (const range of ranges) {
+            const before = text.slice(Math.max(0, range.start - 20), range.start);
+            const after = text.slice(range.end, range.end + 20);
+            matches.push({
+              block_id: block.block_id,
+              block_type: block.block_type,
+              offset: range.start,
+              match: text.slice(range.start, range.end),
+              context: `${before}[${text.slice(range.start, range.end)}]${after}`,
+            });
+          }
+
+          const styled = styleRanges(elements, ranges, patch);
+          if (JSON.stringify(styled) === JSON.stringify(normalizeElements(elements))) continue;
+
+          requests.push({
+            block_id: block.block_id,
+            update_text_elements: { elements: styled as Array<Record<string, unknown>> },
+          });
+        }
+
+        const result = {
+          document_id,
+          url: DOC_URL(document_id),
+          dry_run,
+          match_count: matches.length,
+          block_count: requests.length,
+          matches,
+        };
+
+        if (matches.length === 0) {
+          return success(`No matches found for "${find}"`, result, ResponseFormat.JSON);
+        }
+
+        if (dry_run) {
+          return success(
+            `Dry run: ${matches.length} matches, ${requests.length} blocks would change (document not modified)`,
+            result,
+            ResponseFormat.JSON
+          );
+        }
+
+        for (let i = 0; i < requests.length; i += BATCH_UPDATE_LIMIT) {
+          await batchUpdateBlocks(document_id, requests.slice(i, i + BATCH_UPDATE_LIMIT), i === 0 ? revision : -1);
+        }
+
+        return success(
+          `Styled ${matches.length} matches in ${requests.length} blocks`,
+          result,
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Style text failed", err);
+      }
+    }
+  );
+
+  // doc_indent_block
+  server.registerTool(
+    "doc_indent_block",
+    {
+      title: "Indent/Outdent Document Block",
+      description: `調整文件區塊的縮排層級。indent 將 block 移到前一個 sibling 底下；outdent 將 block 提升到 grandparent 層級。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - block_id (string): 要縮排的 Block ID（必填，從 doc_read 取得）
+  - direction (string): "indent" 或 "outdent"（必填）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,  // 文件 ID
+    "url": string           // 文件 URL
+  }
+
+Examples:
+  - 縮排: doc_indent_block document_id=doccnXXXXX block_id=blkXXXXX direction="indent"
+  - 取消縮排: doc_indent_block document_id=doccnXXXXX block_id=blkXXXXX direction="outdent"
+
+Notes:
+  - block 連同整棵子樹在新位置深度重建（block ID 會改變）；含 sheet、bitable、board 等無法透過 API 重建的 block 時拒絕縮排
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+  - Insert failed after delete: the original blocks are restored from a snapshot; the error states whether rollback succeeded
+
+Don't use when:
+  - You need to move blocks to a different position (use doc_move_blocks instead)
+  - You need to move blocks between documents (use doc_copy_blocks instead)`,
+      inputSchema: DocIndentBlockSchema,
+      outputSchema: DocUrlOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, block_id, direction } = params;
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const allBlocks = await getDocumentBlocks(document_id);
+
+        // 建 Map<block_id, LarkBlock>
+        const blockMap = new Map<string, LarkBlock>();
+        for (const b of allBlocks) {
+          blockMap.set(b.block_id, b);
+        }
+
+        const target = blockMap.get(block_id);
+        if (!target) {
+          return error(`Block ${block_id} not found`);
+        }
+
+        const parentId = target.parent_id;
+        if (!parentId) {
+          return error(`Block ${block_id} has no parent`);
+        }
+
+        const parent = blockMap.get(parentId);
+        if (!parent) {
+          return error(`Parent block ${parentId} not found`);
+        }
+
+        const parentChildren = parent.children || [];
+        const targetIndex = parentChildren.indexOf(block_id);
+        if (targetIndex === -1) {
+          return error(`Block ${block_id} not found in parent's children`);
+        }
+
+        // 驗證目標位置並計算插入參數
+        let insertParentId: string;
+        let insertIndex: number;
+
+        if (direction === "indent") {
+          if (targetIndex === 0) {
+            return error("Cannot indent: no preceding sibling to move under");
+          }
+
+          const newParentId = parentChildren[targetIndex - 1];
+          const newParent = blockMap.get(newParentId);
+          if (!newParent) {
+            return error(`Preceding sibling block ${newParentId} not found`);
+          }
+
+          insertParentId = newParentId;
+          insertIndex = (newParent.children || []).length;
+        } else {
+          const grandparentId = parent.parent_id;
+          if (!grandparentId) {
+            return error("Cannot outdent: parent has no grandparent (already at top level)");
+          }
+
+          const grandparent = blockMap.get(grandparentId);
+          if (!grandparent) {
+            return error(`Grandparent block ${grandparentId} not found`);
+          }
+
+          const grandparentChildren = grandparent.children || [];
+          const parentIndex = grandparentChildren.indexOf(parentId);
+          if (parentIndex === -1) {
+            return error(`Parent ${parentId} not found in grandparent's children`);
+          }
+
+          insertParentId = grandparentId;
+          insertIndex = parentIndex + 1;
+        }
+
+        // 快照 → 刪除 → 插入，插入失敗時還原原位置的內容
+        const snapshot = captureSnapshot(document_id, allBlocks, parentId, targetIndex, targetIndex + 1);
+        assertCopyable(snapshot.trees);
+        await replaceWithRollback(
+          snapshot,
+          { parentId: insertParentId, index: insertIndex },
+          async (insertRevision) => {
+            await insertBlockTree(document_id, insertParentId, snapshot.trees[0], insertIndex, insertRevision);
+          },
+          revision
+        );
+
+        const action = direction === "indent" ? "indented under" : "outdented to";
+        return success(`Block ${action} ${insertParentId}`, {
+          document_id,
+          url: DOC_URL(document_id),
+        });
+      } catch (err) {
+        return error("Block indent/outdent failed", err);
+      }
+    }
+  );
+
+  // doc_outline
+  server.registerTool(
+    "doc_outline",
+    {
+      title: "Document Outline",
+      description: `取得文件的標題大綱（樹狀結構），每個標題附上根層級位置、所屬區段範圍與字數，不讀取內文。適合在編輯長文件前先定位區段。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - max_level (number, optional): 只列出到第幾級標題（1-9），預設 9；更深的標題省略，其字數計入上層區段
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "revision_id": number,      // 文件目前版本，可作為後續編輯的 expected_revision
+    "block_count": number,      // 根層級 block 數
+    "word_count": number,       // 全文字數
+    "heading_count": number,
+    "headings": [
+      {
+        "level": number,        // 標題層級 1-9
+        "text": string,
+        "block_id": string,
+        "start_index": number,  // 標題的根層級位置
+        "end_index": number,    // 區段結束位置（不包含），到下一個同級或更高級標題為止
+        "word_count": number,   // 區段內文字數（不含標題，含子標題區段）
+        "children": [...]       // 區段內的下一層標題
+      }
+    ]
+  }
+
+Examples:
+  - 完整大綱: doc_outline document_id=doccnXXXXX
+  - 只看前兩層: doc_outline document_id=doccnXXXXX max_level=2
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+
+Notes:
+  - 只有根層級標題構成區段；表格、分欄等容器內的標題不列入
+  - 字數以中日文字元與其他語言的單字計算
+  - start_index / end_index 可直接用於 doc_section_* 或 doc_delete_blocks 等以 index 定位的工具
+
+Don't use when:
+  - You need the section content (use doc_section_read or doc_read instead)`,
+      inputSchema: DocOutlineSchema,
+      outputSchema: DocOutlineOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, max_level } = params;
+        const revision = await getDocumentRevision(document_id);
+        const outline = await readOutline(document_id, max_level);
+
+        return success(
+          `Outline: ${outline.heading_count} headings, ${outline.block_count} top-level blocks, ${outline.word_count} words`,
+          { document_id, url: DOC_URL(document_id), revision_id: revision, ...outline },
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Document outline failed", err);
+      }
+    }
+  );
+
+  // doc_section_read
+  server.registerTool(
+    "doc_section_read",
+    {
+      title: "Read Document Section",
+      description: `讀取文件中某個標題底下的區段內容。區段從標題開始，到下一個同級或更高級的根層級標題之前結束。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - heading (string): 標題文字，不分大小寫；可加 # 前綴限定層級，例如 "## Rollback"（與 heading_block_id 擇一）
+  - heading_block_id (string): 根層級標題的 block ID（與 heading 擇一）
+  - occurrence (number, optional): 同名標題出現多次時選擇第幾個，從 1 開始
+  - include_heading (boolean, optional): 是否包含標題本身，預設 true
+  - format (string, optional): "markdown"（預設）、"annotated_markdown"、"blocks"、"plain_text"、"outline"
+  - resolve_mentions (boolean, optional): 將 @提及解析為用戶名稱，預設 true
+
+Returns:
+  區段內容，標頭註明區段的根層級範圍與文件目前的 revision_id
+
+Examples:
+  - 讀取區段: doc_section_read document_id=doccnXXXXX heading="Rollback"
+  - 限定二級標題: doc_section_read document_id=doccnXXXXX heading="## Rollback"
+  - 以 block ID 指定: doc_section_read document_id=doccnXXXXX heading_block_id=blkXXXXX format="annotated_markdown"
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Heading not found / ambiguous: the error lists available headings or matching block IDs
+
+Don't use when:
+  - You need the whole document (use doc_read instead)`,
+      inputSchema: DocSectionReadSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, include_heading, format, resolve_mentions } = params;
+        const revision = await getDocumentRevision(document_id);
+        const { section, page } = await readSection(
+          document_id,
+          { heading: params.heading, headingBlockId: params.heading_block_id, occurrence: params.occurrence },
+          { includeHeading: include_heading, format, resolveMentions: resolve_mentions }
+        );
+        page.revision_id = revision;
+
+        return documentPageResponse(`Section "${section.heading.text}" read successful`, page);
+      } catch (err) {
+        return error("Document section read failed", err);
+      }
+    }
+  );
+
+  // doc_section_replace
+  server.registerTool(
+    "doc_section_replace",
+    {
+      title: "Replace Document Section",
+      description: `以新內容取代文件中某個標題底下的區段內容（預設保留標題本身）。插入失敗時會自動還原原內容。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - heading (string): 標題文字，不分大小寫；可加 # 前綴限定層級，例如 "## Rollback"（與 heading_block_id 擇一）
+  - heading_block_id (string): 根層級標題的 block ID（與 heading 擇一）
+  - occurrence (number, optional): 同名標題出現多次時選擇第幾個，從 1 開始
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - include_heading (boolean, optional): 連同標題一起取代（新內容應以標題開頭），預設 false
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "heading": string,           // 標題文字
+    "heading_block_id": string,
+    "level": number,             // 標題層級 1-9
+    "start_index": number,       // 標題的根層級位置
+    "end_index": number          // 編輯前區段結束位置（不包含）
+  }
+
+Examples:
+  - 取代區段內容: doc_section_replace document_id=doccnXXXXX heading="## Rollback" markdown="1. Revert the deploy\n2. Notify #ops"
+  - 連同標題取代: doc_section_replace document_id=doccnXXXXX heading="Rollback" include_heading=true markdown="## Rollback (v2)\n..."
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+  - Insert failed after delete: the original blocks are restored from a snapshot; the error states whether rollback succeeded
+  - Block type N (sheet / bitable / board ...) cannot be copied: the section contains blocks that could not be restored if the replace failed → nothing is deleted; edit around them with doc_section_append or targeted block tools
+
+Don't use when:
+  - You only need to add content at the end of the section (use doc_section_append instead)`,
+      inputSchema: DocSectionReplaceSchema,
+      outputSchema: DocSectionOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, include_heading } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const { section, deleted } = await replaceSection(
+          document_id,
+          { heading: params.heading, headingBlockId: params.heading_block_id, occurrence: params.occurrence },
+          blocks,
+          { includeHeading: include_heading, revisionId: revision }
+        );
+
+        return success(
+          `Section "${section.heading.text}" replaced: deleted ${deleted} blocks, inserted ${blocks.length} blocks`,
+          { document_id, url: DOC_URL(document_id), ...sectionFields(section) }
+        );
+      } catch (err) {
+        return error("Document section replace failed", err);
+      }
+    }
+  );
+
+  // doc_section_append
+  server.registerTool(
+    "doc_section_append",
+    {
+      title: "Append to Document Section",
+      description: `在文件中某個標題區段的末尾（下一個同級或更高級標題之前）插入內容。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - heading (string): 標題文字，不分大小寫；可加 # 前綴限定層級，例如 "## Rollback"（與 heading_block_id 擇一）
+  - heading_block_id (string): 根層級標題的 block ID（與 heading 擇一）
+  - occurrence (number, optional): 同名標題出現多次時選擇第幾個，從 1 開始
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "heading": string,
+    "heading_block_id": string,
+    "level": number,
+    "start_index": number,
+    "end_index": number          // 插入位置（編輯前區段結束位置）
+  }
+
+Examples:
+  - 在區段末尾追加: doc_section_append document_id=doccnXXXXX heading="## Changelog" markdown="- 2024-06-01: fixed rollback script"
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Don't use when:
+  - You need to append to the end of the document (use doc_append instead)`,
+      inputSchema: DocSectionAppendSchema,
+      outputSchema: DocSectionOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const section = await appendToSection(
+          document_id,
+          { heading: params.heading, headingBlockId: params.heading_block_id, occurrence: params.occurrence },
+          blocks,
+          revision
+        );
+
+        return success(`Appended ${blocks.length} blocks to section "${section.heading.text}"`, {
+          document_id,
+          url: DOC_URL(document_id),
+          ...sectionFields(section),
+        });
+      } catch (err) {
+        return error("Document section append failed", err);
+      }
+    }
+  );
+
+  // doc_section_delete
+  server.registerTool(
+    "doc_section_delete",
+    {
+      title: "Delete Document Section",
+      description: `刪除文件中某個標題區段（標題與其下內容，直到下一個同級或更高級標題）。此操作不可逆。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - heading (string): 標題文字，不分大小寫；可加 # 前綴限定層級，例如 "## Rollback"（與 heading_block_id 擇一）
+  - heading_block_id (string): 根層級標題的 block ID（與 heading 擇一）
+  - occurrence (number, optional): 同名標題出現多次時選擇第幾個，從 1 開始
+  - keep_heading (boolean, optional): 只刪除內文、保留標題，預設 false
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "heading": string,
+    "heading_block_id": string,
+    "level": number,
+    "start_index": number,
+    "end_index": number          // 編輯前區段結束位置（不包含）
+  }
+
+Examples:
+  - 刪除整個區段: doc_section_delete document_id=doccnXXXXX heading="## Deprecated"
+  - 清空區段內文: doc_section_delete document_id=doccnXXXXX heading="## Notes" keep_heading=true
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Don't use when:
+  - You need to delete blocks that are not a heading section (use doc_delete_blocks instead)`,
+      inputSchema: DocSectionDeleteSchema,
+      outputSchema: DocSectionOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, keep_heading } = params;
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const { section, deleted } = await deleteSection(
+          document_id,
+          { heading: params.heading, headingBlockId: params.heading_block_id, occurrence: params.occurrence },
+          { keepHeading: keep_heading, revisionId: revision }
+        );
+
+        return success(`Deleted ${deleted} blocks from section "${section.heading.text}"`, {
+          document_id,
+          url: DOC_URL(document_id),
+          ...sectionFields(section),
+        });
+      } catch (err) {
+        return error("Document section delete failed", err);
+      }
+    }
+  );
+
+  // doc_table_create
+  server.registerTool(
+    "doc_table_create",
+    {
+      title: "Create Table from Data",
+      description: `由 CSV、TSV 或 JSON records 建立原生表格，不需手動組合 _cellContents。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - csv (string): 逗號分隔資料，引號內可含逗號、換行與 ""（csv / tsv / records 擇一）
+  - tsv (string): Tab 分隔資料，例如從試算表複製的內容（csv / tsv / records 擇一）
+  - records (array): JSON 物件陣列，欄位名稱作為標題列（csv / tsv / records 擇一）
+  - columns (string[], optional): records 要輸出的欄位與順序，預設為所有欄位（依首次出現順序）
+  - header_row (boolean, optional): 第一列為標題列，預設 true（records 一律有標題列）
+  - header_column (boolean, optional): 第一欄為標題欄，預設 false
+  - column_width (number[], optional): 各欄寬度（px），數量需與欄數相同
+  - align (string[], optional): 各欄對齊方式（left / center / right），從左邊第一欄開始
+  - inline_markdown (boolean, optional): 將儲存格內容解析為行內 Markdown，預設 false（純文字）
+  - max_rows (number, optional): 單一表格的列數上限（含標題列），預設 ${TABLE_MAX_ROWS}
+  - parent_block_id / after_block_id / before_block_id / index (optional): 插入位置，同 doc_insert_blocks
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "tables": number,   // 建立的表格數量（資料被拆分時大於 1）
+    "rows": number,     // 資料列數（含標題列）
+    "columns": number   // 資料欄數
+  }
+
+Examples:
+  - CSV: doc_table_create document_id=doccnXXXXX csv="name,count\nA,1\nB,2" index=3
+  - TSV 靠右對齊數字: doc_table_create document_id=doccnXXXXX tsv="name\tcount\nA\t1" align=["left","right"]
+  - 查詢結果: doc_table_create document_id=doccnXXXXX records=[{"name":"A","count":1},{"name":"B","count":2}] after_block_id=blkXXXXX
+  - 指定欄寬: doc_table_create document_id=doccnXXXXX csv="a,b,c\n1,2,3" column_width=[120,300,80]
+
+Notes:
+  - 超過表格列/欄上限（${TABLE_MAX_ROWS} 列、${TABLE_MAX_COLUMNS} 欄）時自動拆分為多個連續的表格，每個表格重複標題列（header_column 時重複第一欄）
+  - 各列欄數不同時以最長的一列為準，不足的儲存格留空
+  - records 中的物件/陣列值以 JSON 字串呈現，null 為空白
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
+
+Don't use when:
+  - You already have a Markdown table (use doc_insert_blocks with markdown instead)
+  - You need to edit an existing table (use doc_table_update_cells / doc_table_insert_rows instead)`,
+      inputSchema: DocTableCreateSchema,
+      outputSchema: DocTableCreateOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, csv, tsv, records, parent_block_id, after_block_id, before_block_id, index } = params;
+
+        if ([csv, tsv, records].filter((source) => source !== undefined).length !== 1) {
+          return error("Provide exactly one of csv, tsv and records");
+        }
+        if (after_block_id && before_block_id) {
+          return error("Specify only one of after_block_id and before_block_id");
+        }
+
+        const rows = records
+          ? recordsToRows(records, params.columns)
+          : parseDelimited((csv ?? tsv)!, csv !== undefined ? "," : "\t");
+        const tables = buildTableBlocks(rows, {
+          headerRow: records ? true : params.header_row,
+          headerColumn: params.header_column,
+          columnWidth: params.column_width,
+          align: params.align,
+          inlineMarkdown: params.inline_markdown,
+          maxRows: params.max_rows,
+        });
+
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const position = await resolveInsertPosition(document_id, {
+          parentBlockId: parent_block_id,
+          afterBlockId: after_block_id,
+          beforeBlockId: before_block_id,
+          index,
+        });
+
+        await insertBlocks(document_id, position.parentId, tables, position.index, revision);
+
+        const columns = Math.max(...rows.map((row) => row.length));
+        return success(
+          `Created ${tables.length} table(s) from ${rows.length} rows x ${columns} columns at position ${position.index}${describeParent(document_id, position.parentId)}`,
+          { document_id, url: DOC_URL(document_id), tables: tables.length, rows: rows.length, columns }
+        );
+      } catch (err) {
+        return error("Document table create failed", err);
+      }
+    }
+  );
+
+  // doc_table_read
+  server.registerTool(
+    "doc_table_read",
+    {
+      title: "Read Document Table",
+      description: `讀取文件中的原生表格，回傳二維陣列與每個儲存格的 block ID。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - block_id (string): 表格 block ID（block_type 31，從 doc_read 取得）
+  - resolve_mentions (boolean, optional): 將 @提及解析為用戶名稱，預設 true
+
+Returns:
+  {
+    "document_id": string,
+    "revision_id": number,       // 文件目前版本，可作為寫入工具的 expected_revision
+    "block_id": string,          // 表格 block ID
+    "rows": number,
+    "columns": number,
+    "header_row": boolean,
+    "header_column": boolean,
+    "column_width": number[],
+    "cells": [[{
+      "row": number, "column": number,
+      "block_id": string,        // 儲存格 block ID（block_type 32）
+      "text": string,            // 行內 Markdown，多個段落以換行分隔
+      "row_span": number, "col_span": number,  // 合併儲存格的左上角
+      "merged_into": string      // 被合併覆蓋時，左上角儲存格的 block_id
+    }]]
+  }
+
+Examples:
+  - 讀取表格: doc_table_read document_id=doccnXXXXX block_id=blkTABLE
+
+Permissions:
+  - drive:drive
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+
+Don't use when:
+  - You need an embedded sheet or bitable (block_type 30/18; use doc_read with format="markdown" instead)`,
+      inputSchema: DocTableReadSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, block_id, resolve_mentions } = params;
+        const revision = await getDocumentRevision(document_id);
+        const { blocks, table } = await loadTable(document_id, block_id);
+
+        const mentions = createMentionNames(resolve_mentions);
+        if (mentions) {
+          const cellIds = new Set(table.table?.cells || []);
+          await resolveMentionNames(blocks.filter((b) => b.parent_id && cellIds.has(b.parent_id)), mentions);
+        }
+
+        const grid = readTableGrid(blocks, block_id, mentions);
+        return success(
+          `Table ${grid.rows} x ${grid.columns} (revision ${revision})`,
+          { document_id, revision_id: revision, ...grid },
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Document table read failed", err);
+      }
+    }
+  );
+
+  // doc_table_update_cells
+  server.registerTool(
+    "doc_table_update_cells",
+    {
+      title: "Update Table Cells",
+      description: `依列/欄位置更新表格儲存格內容，不需重寫整個表格。
+
+Args:
+  - document_id (string): 文件 ID（必填）
+  - block_id (string): 表格 block ID（必填）
+  - cells (array): 要更新的儲存格（必填），每項為 { row, column, markdown }
+    - row / column (number): 列 / 欄位置，從 0 開始
+    - markdown (string): 新內容（支援行內樣式；空字串清空儲存格）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read / doc_table_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "block_id": string,  // 表格 block ID
+    "rows": number,
+    "columns": number
   }
 
 Examples:
-  - 刪除第 2-4 個區塊: doc_delete_blocks document_id=doccnXXXXX start_index=2 end_index=5
+  - 更新第 3 列第 2 欄: doc_table_update_cells document_id=doccnXXXXX block_id=blkTABLE cells=[{"row":3,"column":2,"markdown":"**Done**"}]
+  - 清空儲存格: doc_table_update_cells document_id=doccnXXXXX block_id=blkTABLE cells=[{"row":1,"column":0,"markdown":""}]
+
+Notes:
+  - 單一段落的內容會原地更新儲存格的第一個文字段落（保留 block ID），列表或多段落則重建儲存格內容
+  - 被合併覆蓋的儲存格（doc_table_read 的 merged_into）內容不會顯示
 
 Permissions:
   - drive:drive
@@ -583,62 +3170,67 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
 
 Don't use when:
-  - You need to replace content (use doc_update with range instead)`,
-      inputSchema: DocDeleteBlocksSchema,
-      outputSchema: DocUrlOutputSchema,
+  - You need to add rows or columns (use doc_table_insert_rows / doc_table_insert_columns instead)`,
+      inputSchema: DocTableUpdateCellsSchema,
+      outputSchema: DocTableOutputSchema,
       annotations: {
         readOnlyHint: false,
-        destructiveHint: true,
-        idempotentHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
         openWorldHint: true,
       },
     },
     async (params) => {
       try {
-        const { document_id, start_index, end_index } = params;
-
-        if (start_index < 0 || end_index <= start_index) {
-          return error("Invalid range (end_index must be greater than start_index)");
-        }
+        const { document_id, block_id, cells } = params;
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const { blocks, rows, columns } = await loadTable(document_id, block_id);
 
-        const rootBlockId = await getDocumentRootBlockId(document_id);
-
-        await deleteBlockRange(document_id, rootBlockId, start_index, end_index);
+        await updateTableCells(document_id, blocks, readTableGrid(blocks, block_id), cells, revision);
 
-        return success(`Deleted ${end_index - start_index} blocks (index ${start_index} to ${end_index})`, {
+        return success(`Updated ${cells.length} table cells`, {
           document_id,
           url: DOC_URL(document_id),
+          block_id,
+          rows,
+          columns,
         });
       } catch (err) {
-        return error("Document delete blocks failed", err);
+        return error("Document table update cells failed", err);
       }
     }
   );
 
-  // doc_move_blocks
+  // doc_table_insert_rows
   server.registerTool(
-    "doc_move_blocks",
+    "doc_table_insert_rows",
     {
-      title: "Move Document Blocks",
-      description: `移動文件內的區塊到指定位置。
+      title: "Insert Table Rows",
+      description: `在表格中插入列，可同時填入新列的內容。
 
 Args:
   - document_id (string): 文件 ID（必填）
-  - start_index (number): 要移動的起始位置，從 0 開始（必填）
-  - end_index (number): 要移動的結束位置，不包含（必填）
-  - target_index (number): 目標位置，從 0 開始（必填）
+  - block_id (string): 表格 block ID（必填）
+  - row_index (number, optional): 插入到第幾列之前，從 0 開始；不填則加在最後一列之後
+  - count (number, optional): 插入列數，預設 1，最多 100
+  - values (array, optional): 新列的內容，二維 Markdown 字串陣列（逐列），例如 [["a","b"],["c","d"]]
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read / doc_table_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
-    "document_id": string,  // 文件 ID
-    "url": string           // 文件 URL
+    "document_id": string,
+    "url": string,
+    "block_id": string,  // 表格 block ID
+    "rows": number,      // 插入後的列數
+    "columns": number
   }
 
 Examples:
-  - 將第 0-2 個區塊移到位置 5: doc_move_blocks document_id=doccnXXXXX start_index=0 end_index=2 target_index=5
-  - 將第 5-7 個區塊移到開頭: doc_move_blocks document_id=doccnXXXXX start_index=5 end_index=7 target_index=0
+  - 在狀態表最後加一列: doc_table_insert_rows document_id=doccnXXXXX block_id=blkTABLE values=[["API","Done","2024-06-01"]]
+  - 在第 1 列前插入兩列空白列: doc_table_insert_rows document_id=doccnXXXXX block_id=blkTABLE row_index=1 count=2
 
 Permissions:
   - drive:drive
@@ -647,11 +3239,12 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
 
 Don't use when:
-  - You need to move blocks between documents (copy manually instead)`,
-      inputSchema: DocMoveBlocksSchema,
-      outputSchema: DocUrlOutputSchema,
+  - You need to create a new table (use doc_insert_blocks with a Markdown table instead)`,
+      inputSchema: DocTableInsertRowsSchema,
+      outputSchema: DocTableOutputSchema,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -661,84 +3254,76 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { document_id, start_index, end_index, target_index } = params;
+        const { document_id, block_id, count, values } = params;
 
-        if (start_index < 0 || end_index <= start_index) {
-          return error("Invalid range (end_index must be greater than start_index)");
+        if (values && values.length > count) {
+          return error(`values has ${values.length} rows, but count is ${count}`);
         }
 
-        if (target_index >= start_index && target_index < end_index) {
-          return error("Target index cannot be within the source range");
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const { rows, columns } = await loadTable(document_id, block_id);
+        const rowIndex = params.row_index ?? rows;
+        if (rowIndex > rows) {
+          return error(`row_index ${rowIndex} is out of range (table has ${rows} rows)`);
         }
-
-        const rootBlockId = await getDocumentRootBlockId(document_id);
-        const allBlocks = await getDocumentBlocks(document_id);
-
-        // 取得要移動的 blocks（過濾掉 root block，只取直接子節點）
-        const childBlocks = allBlocks.filter(
-          (b) => b.parent_id === rootBlockId && b.block_id !== rootBlockId
-        );
-
-        if (end_index > childBlocks.length) {
-          return error(`Invalid range: document has ${childBlocks.length} blocks, but end_index is ${end_index}`);
+        if (values?.some((row) => row.length > columns)) {
+          return error(`values has more cells per row than the table's ${columns} columns`);
         }
 
-        // 提取要移動的 blocks 內容
-        const blocksToMove = childBlocks.slice(start_index, end_index);
-        const blockCount = blocksToMove.length;
-
-        // 將 blocks 轉換為可插入的格式
-        const blocksData = blocksToMove.map((b) => {
-          const { block_id, parent_id, children, ...rest } = b;
-          return rest;
-        });
-
-        // 1. 刪除原位置的 blocks
-        await deleteBlockRange(document_id, rootBlockId, start_index, end_index);
-
-        // 2. 計算新的目標位置（因為刪除後索引會變化）
-        let adjustedTargetIndex = target_index;
-        if (target_index > start_index) {
-          adjustedTargetIndex = target_index - blockCount;
+        for (let i = 0; i < count; i++) {
+          // row_index -1 表示加在最後一列之後
+          const index = rowIndex === rows ? -1 : rowIndex + i;
+          await updateBlock(document_id, block_id, { insert_table_row: { row_index: index } }, i === 0 ? revision : -1);
         }
 
-        // 3. 在目標位置插入 blocks
-        await insertBlocks(document_id, rootBlockId, blocksData, adjustedTargetIndex);
+        if (values?.length) {
+          const { blocks } = await loadTable(document_id, block_id);
+          const updates = values.flatMap((row, r) =>
+            row.map((markdown, c) => ({ row: rowIndex + r, column: c, markdown }))
+          );
+          await updateTableCells(document_id, blocks, readTableGrid(blocks, block_id), updates);
+        }
 
-        return success(`Moved ${blockCount} blocks from index ${start_index}-${end_index} to index ${target_index}`, {
+        return success(`Inserted ${count} rows at row ${rowIndex}`, {
           document_id,
           url: DOC_URL(document_id),
+          block_id,
+          rows: rows + count,
+          columns,
         });
       } catch (err) {
-        return error("Document move blocks failed", err);
+        return error("Document table insert rows failed", err);
       }
     }
   );
 
-  // doc_search_blocks
+  // doc_table_insert_columns
   server.registerTool(
-    "doc_search_blocks",
+    "doc_table_insert_columns",
     {
-      title: "Search Document Blocks",
-      description: `在文件內搜尋包含關鍵字的區塊。
+      title: "Insert Table Columns",
+      description: `在表格中插入欄，可同時填入新欄的內容。
 
 Args:
   - document_id (string): 文件 ID（必填）
-  - keyword (string): 搜尋關鍵字（必填）
-  - case_sensitive (boolean, optional): 區分大小寫，預設 false
+  - block_id (string): 表格 block ID（必填）
+  - column_index (number, optional): 插入到第幾欄之前，從 0 開始；不填則加在最後一欄之後
+  - count (number, optional): 插入欄數，預設 1，最多 100
+  - values (array, optional): 新欄的內容，二維 Markdown 字串陣列（逐列，每列只含新欄），例如 [["Owner"],["Alice"]]
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read / doc_table_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
-  [
-    {
-      "index": number,       // 區塊位置（0-based）
-      "block_type": number,  // 區塊類型
-      "text": string         // 區塊文字內容
-    }
-  ]
+  {
+    "document_id": string,
+    "url": string,
+    "block_id": string,  // 表格 block ID
+    "rows": number,
+    "columns": number    // 插入後的欄數
+  }
 
 Examples:
-  - 搜尋關鍵字: doc_search_blocks document_id=doccnXXXXX keyword="TODO"
-  - 區分大小寫: doc_search_blocks document_id=doccnXXXXX keyword="API" case_sensitive=true
+  - 在最後加一欄並填入標題: doc_table_insert_columns document_id=doccnXXXXX block_id=blkTABLE values=[["Owner"]]
+  - 在第 0 欄前插入一欄: doc_table_insert_columns document_id=doccnXXXXX block_id=blkTABLE column_index=0
 
 Permissions:
   - drive:drive
@@ -747,102 +3332,84 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
 
 Don't use when:
-  - You need to search across documents (use lark_search instead)`,
-      inputSchema: DocSearchBlocksSchema,
-      outputSchema: DocSearchBlocksOutputSchema,
+  - You need to create a new table (use doc_insert_blocks with a Markdown table instead)`,
+      inputSchema: DocTableInsertColumnsSchema,
+      outputSchema: DocTableOutputSchema,
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
-        idempotentHint: true,
+        idempotentHint: false,
         openWorldHint: true,
       },
     },
     async (params) => {
       try {
-        const { document_id, keyword, case_sensitive } = params;
-
-        const rootBlockId = await getDocumentRootBlockId(document_id);
-        const allBlocks = await getDocumentBlocks(document_id);
-
-        // 只取直接子節點
-        const childBlocks = allBlocks.filter(
-          (b) => b.parent_id === rootBlockId && b.block_id !== rootBlockId
-        );
-
-        // 提取文字內容的輔助函數
-        const extractText = (block: Record<string, unknown>): string => {
-          const content = block.text || block.heading1 || block.heading2 || block.heading3 ||
-            block.heading4 || block.heading5 || block.heading6 || block.heading7 ||
-            block.heading8 || block.heading9 || block.bullet || block.ordered ||
-            block.quote || block.todo || block.code || block.callout;
-
-          if (!content || typeof content !== "object") return "";
-
-          const elements = (content as Record<string, unknown>).elements;
-          if (!Array.isArray(elements)) return "";
-
-          return elements
-            .map((el: Record<string, unknown>) => {
-              const textRun = el.text_run as Record<string, unknown> | undefined;
-              return textRun?.content || "";
-            })
-            .join("");
-        };
-
-        // 搜尋
-        const searchKeyword = case_sensitive ? keyword : keyword.toLowerCase();
-        const results: Array<{ index: number; block_type: number; text: string }> = [];
-
-        childBlocks.forEach((block, index) => {
-          const text = extractText(block as unknown as Record<string, unknown>);
-          const searchText = case_sensitive ? text : text.toLowerCase();
+        const { document_id, block_id, count, values } = params;
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const { rows, columns } = await loadTable(document_id, block_id);
+        const columnIndex = params.column_index ?? columns;
+        if (columnIndex > columns) {
+          return error(`column_index ${columnIndex} is out of range (table has ${columns} columns)`);
+        }
+        if (values && (values.length > rows || values.some((row) => row.length > count))) {
+          return error(`values must have at most ${rows} rows of at most ${count} cells (one per inserted column)`);
+        }
 
-          if (searchText.includes(searchKeyword)) {
-            results.push({
-              index,
-              block_type: block.block_type as number,
-              text: text.length > 100 ? text.slice(0, 100) + "..." : text,
-            });
-          }
-        });
+        for (let i = 0; i < count; i++) {
+          // column_index -1 表示加在最後一欄之後
+          const index = columnIndex === columns ? -1 : columnIndex + i;
+          await updateBlock(document_id, block_id, { insert_table_column: { column_index: index } }, i === 0 ? revision : -1);
+        }
 
-        if (results.length === 0) {
-          return success(`No blocks found containing "${keyword}"`);
+        if (values?.length) {
+          const { blocks } = await loadTable(document_id, block_id);
+          const updates = values.flatMap((row, r) =>
+            row.map((markdown, c) => ({ row: r, column: columnIndex + c, markdown }))
+          );
+          await updateTableCells(document_id, blocks, readTableGrid(blocks, block_id), updates);
         }
 
-        return success(`Found ${results.length} blocks containing "${keyword}"`, results);
+        return success(`Inserted ${count} columns at column ${columnIndex}`, {
+          document_id,
+          url: DOC_URL(document_id),
+          block_id,
+          rows,
+          columns: columns + count,
+        });
       } catch (err) {
-        return error("Document search blocks failed", err);
+        return error("Document table insert columns failed", err);
       }
     }
   );
 
-  // doc_batch_update_blocks
+  // doc_table_delete_rows
   server.registerTool(
-    "doc_batch_update_blocks",
+    "doc_table_delete_rows",
     {
-      title: "Batch Update Document Blocks",
-      description: `批次更新多個 block 的文字內容。特別適合一次填入表格多個 cell。
+      title: "Delete Table Rows",
+      description: `刪除表格中指定範圍的列。此操作不可逆。
 
 Args:
   - document_id (string): 文件 ID（必填）
-  - requests (array): 更新請求陣列，每項包含：
-    - block_id (string): 要更新的 Block ID（從 doc_read 取得）
-    - update_text_elements (object): 文字元素更新內容
-      - elements (array): 文字元素陣列
+  - block_id (string): 表格 block ID（必填）
+  - start_index (number): 起始列，從 0 開始（必填）
+  - end_index (number): 結束列，不包含（必填）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read / doc_table_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
-    "document_id": string,  // 文件 ID
-    "url": string           // 文件 URL
+    "document_id": string,
+    "url": string,
+    "block_id": string,  // 表格 block ID
+    "rows": number,      // 刪除後的列數
+    "columns": number
   }
 
 Examples:
-  - 更新單一 block: doc_batch_update_blocks document_id=doccnXXX requests=[{"block_id":"blk1","update_text_elements":{"elements":[{"text_run":{"content":"Hello"}}]}}]
-  - 批次更新表格 cell: 先用 doc_read 取得 cell 的 text block_id，再一次更新多個 cell
-  - 典型流程: doc_read → 找到 table block → 取得 cell children 的 block_id → doc_batch_update_blocks
+  - 刪除第 2 列: doc_table_delete_rows document_id=doccnXXXXX block_id=blkTABLE start_index=2 end_index=3
 
 Permissions:
   - drive:drive
@@ -851,55 +3418,81 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
 
 Don't use when:
-  - You need to create new blocks (use doc_insert_blocks or doc_append instead)
-  - You need to delete blocks (use doc_delete_blocks instead)
-  - You only need to update one block (still works, but single PATCH may suffice)`,
-      inputSchema: DocBatchUpdateBlocksSchema,
-      outputSchema: DocUrlOutputSchema,
+  - You want to remove the whole table (use doc_delete_blocks with the table block_id instead)`,
+      inputSchema: DocTableDeleteRowsSchema,
+      outputSchema: DocTableOutputSchema,
       annotations: {
         readOnlyHint: false,
         destructiveHint: true,
-        idempotentHint: true,
+        idempotentHint: false,
         openWorldHint: true,
       },
     },
     async (params) => {
       try {
-        const { document_id, requests } = params;
-        await batchUpdateBlocks(document_id, requests);
-        return success(
-          `Batch updated ${requests.length} blocks`,
-          { document_id, url: DOC_URL(document_id) }
+        const { document_id, block_id, start_index, end_index } = params;
+
+        if (end_index <= start_index) {
+          return error("Invalid range (end_index must be greater than start_index)");
+        }
+
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const { rows, columns } = await loadTable(document_id, block_id);
+        if (end_index > rows) {
+          return error(`Invalid range: table has ${rows} rows, but end_index is ${end_index}`);
+        }
+        if (end_index - start_index >= rows) {
+          return error("Cannot delete all rows (use doc_delete_blocks to remove the table)");
+        }
+
+        await updateBlock(
+          document_id,
+          block_id,
+          { delete_table_rows: { row_start_index: start_index, row_end_index: end_index } },
+          revision
         );
+
+        return success(`Deleted ${end_index - start_index} rows (row ${start_index} to ${end_index})`, {
+          document_id,
+          url: DOC_URL(document_id),
+          block_id,
+          rows: rows - (end_index - start_index),
+          columns,
+        });
       } catch (err) {
-        return error("Batch update blocks failed", err);
+        return error("Document table delete rows failed", err);
       }
     }
   );
 
-  // doc_indent_block
+  // doc_table_delete_columns
   server.registerTool(
-    "doc_indent_block",
+    "doc_table_delete_columns",
     {
-      title: "Indent/Outdent Document Block",
-      description: `調整文件區塊的縮排層級。indent 將 block 移到前一個 sibling 底下；outdent 將 block 提升到 grandparent 層級。
+      title: "Delete Table Columns",
+      description: `刪除表格中指定範圍的欄。此操作不可逆。
 
 Args:
   - document_id (string): 文件 ID（必填）
-  - block_id (string): 要縮排的 Block ID（必填，從 doc_read 取得）
-  - direction (string): "indent" 或 "outdent"（必填）
+  - block_id (string): 表格 block ID（必填）
+  - start_index (number): 起始欄，從 0 開始（必填）
+  - end_index (number): 結束欄，不包含（必填）
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read / doc_table_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
-    "document_id": string,  // 文件 ID
-    "url": string           // 文件 URL
+    "document_id": string,
+    "url": string,
+    "block_id": string,  // 表格 block ID
+    "rows": number,
+    "columns": number    // 刪除後的欄數
   }
 
 Examples:
-  - 縮排: doc_indent_block document_id=doccnXXXXX block_id=blkXXXXX direction="indent"
-  - 取消縮排: doc_indent_block document_id=doccnXXXXX block_id=blkXXXXX direction="outdent"
+  - 刪除最後兩欄（共 5 欄）: doc_table_delete_columns document_id=doccnXXXXX block_id=blkTABLE start_index=3 end_index=5
 
 Permissions:
   - drive:drive
@@ -908,12 +3501,12 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
 
 Don't use when:
-  - You need to move blocks to a different position (use doc_move_blocks instead)
-  - You need to move blocks between documents`,
-      inputSchema: DocIndentBlockSchema,
-      outputSchema: DocUrlOutputSchema,
+  - You want to remove the whole table (use doc_delete_blocks with the table block_id instead)`,
+      inputSchema: DocTableDeleteColumnsSchema,
+      outputSchema: DocTableOutputSchema,
       annotations: {
         readOnlyHint: false,
         destructiveHint: true,
@@ -923,122 +3516,136 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { document_id, block_id, direction } = params;
-        const allBlocks = await getDocumentBlocks(document_id);
+        const { document_id, block_id, start_index, end_index } = params;
 
-        // 建 Map<block_id, LarkBlock>
-        const blockMap = new Map<string, LarkBlock>();
-        for (const b of allBlocks) {
-          blockMap.set(b.block_id, b);
+        if (end_index <= start_index) {
+          return error("Invalid range (end_index must be greater than start_index)");
         }
 
-        const target = blockMap.get(block_id);
-        if (!target) {
-          return error(`Block ${block_id} not found`);
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const { rows, columns } = await loadTable(document_id, block_id);
+        if (end_index > columns) {
+          return error(`Invalid range: table has ${columns} columns, but end_index is ${end_index}`);
         }
-
-        const parentId = target.parent_id;
-        if (!parentId) {
-          return error(`Block ${block_id} has no parent`);
+        if (end_index - start_index >= columns) {
+          return error("Cannot delete all columns (use doc_delete_blocks to remove the table)");
         }
 
-        const parent = blockMap.get(parentId);
-        if (!parent) {
-          return error(`Parent block ${parentId} not found`);
-        }
+        await updateBlock(
+          document_id,
+          block_id,
+          { delete_table_columns: { column_start_index: start_index, column_end_index: end_index } },
+          revision
+        );
 
-        const parentChildren = parent.children || [];
-        const targetIndex = parentChildren.indexOf(block_id);
-        if (targetIndex === -1) {
-          return error(`Block ${block_id} not found in parent's children`);
-        }
+        return success(`Deleted ${end_index - start_index} columns (column ${start_index} to ${end_index})`, {
+          document_id,
+          url: DOC_URL(document_id),
+          block_id,
+          rows,
+          columns: columns - (end_index - start_index),
+        });
+      } catch (err) {
+        return error("Document table delete columns failed", err);
+      }
+    }
+  );
 
-        // Strip block metadata for re-insertion
-        function stripBlockMeta(block: LarkBlock): Record<string, unknown> {
-          const { block_id: _id, parent_id: _pid, children: _ch, ...content } = block as unknown as Record<string, unknown>;
-          return content;
-        }
+  // doc_table_merge_cells
+  server.registerTool(
+    "doc_table_merge_cells",
+    {
+      title: "Merge Table Cells",
+      description: `合併表格中的矩形範圍儲存格，或取消合併。
 
-        // 遞迴收集 block tree
-        interface BlockTree {
-          content: Record<string, unknown>;
-          childTrees: BlockTree[];
-        }
+Args:
+  - document_id (string): 文件 ID（必填）
+  - block_id (string): 表格 block ID（必填）
+  - row_start_index (number): 起始列，從 0 開始（必填）
+  - row_end_index (number): 結束列，不包含（合併時必填）
+  - column_start_index (number): 起始欄，從 0 開始（必填）
+  - column_end_index (number): 結束欄，不包含（合併時必填）
+  - unmerge (boolean, optional): 改為取消 (row_start_index, column_start_index) 所在的合併儲存格，預設 false
+  - expected_revision (number, optional): 編輯所依據的文件版本（doc_read / doc_table_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
-        function collectBlockTree(bid: string): BlockTree {
-          const block = blockMap.get(bid)!;
-          const content = stripBlockMeta(block);
-          const childTrees = (block.children || [])
-            .map(id => blockMap.get(id))
-            .filter((b): b is LarkBlock => !!b)
-            .map(child => collectBlockTree(child.block_id));
-          return { content, childTrees };
-        }
+Returns:
+  {
+    "document_id": string,
+    "url": string,
+    "block_id": string,  // 表格 block ID
+    "rows": number,
+    "columns": number
+  }
 
-        // 遞迴插入 block tree
-        async function insertBlockTree(
-          parentBlockId: string,
-          tree: BlockTree,
-          index: number
-        ): Promise<void> {
-          const newBlockId = await insertSingleBlock(document_id, parentBlockId, tree.content, index);
-          for (let i = 0; i < tree.childTrees.length; i++) {
-            await insertBlockTree(newBlockId, tree.childTrees[i], i);
-          }
-        }
+Examples:
+  - 合併第 0 列的前 3 欄: doc_table_merge_cells document_id=doccnXXXXX block_id=blkTABLE row_start_index=0 row_end_index=1 column_start_index=0 column_end_index=3
+  - 取消合併: doc_table_merge_cells document_id=doccnXXXXX block_id=blkTABLE row_start_index=0 column_start_index=0 unmerge=true
 
-        // 驗證目標位置並計算插入參數
-        let insertParentId: string;
-        let insertIndex: number;
+Notes:
+  - 合併後保留左上角儲存格，其餘儲存格的內容會被隱藏
 
-        if (direction === "indent") {
-          if (targetIndex === 0) {
-            return error("Cannot indent: no preceding sibling to move under");
-          }
+Permissions:
+  - drive:drive
 
-          const newParentId = parentChildren[targetIndex - 1];
-          const newParent = blockMap.get(newParentId);
-          if (!newParent) {
-            return error(`Preceding sibling block ${newParentId} not found`);
-          }
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with doc_read and retry
 
-          insertParentId = newParentId;
-          insertIndex = (newParent.children || []).length;
-        } else {
-          const grandparentId = parent.parent_id;
-          if (!grandparentId) {
-            return error("Cannot outdent: parent has no grandparent (already at top level)");
-          }
+Don't use when:
+  - You need to change cell contents (use doc_table_update_cells instead)`,
+      inputSchema: DocTableMergeCellsSchema,
+      outputSchema: DocTableOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { document_id, block_id, row_start_index, row_end_index, column_start_index, column_end_index, unmerge } = params;
 
-          const grandparent = blockMap.get(grandparentId);
-          if (!grandparent) {
-            return error(`Grandparent block ${grandparentId} not found`);
+        if (!unmerge) {
+          if (row_end_index === undefined || column_end_index === undefined) {
+            return error("row_end_index and column_end_index are required when merging");
           }
-
-          const grandparentChildren = grandparent.children || [];
-          const parentIndex = grandparentChildren.indexOf(parentId);
-          if (parentIndex === -1) {
-            return error(`Parent ${parentId} not found in grandparent's children`);
+          if (row_end_index <= row_start_index || column_end_index <= column_start_index) {
+            return error("Invalid range (end indices must be greater than start indices)");
+          }
+          if ((row_end_index - row_start_index) * (column_end_index - column_start_index) < 2) {
+            return error("Merge range must cover at least two cells");
           }
-
-          insertParentId = grandparentId;
-          insertIndex = parentIndex + 1;
         }
 
-        // 收集 → 刪除 → 插入
-        const tree = collectBlockTree(block_id);
-
-        await deleteBlockRange(document_id, parentId, targetIndex, targetIndex + 1);
+        const revision = await checkDocumentRevision(document_id, params.expected_revision);
+        const { rows, columns } = await loadTable(document_id, block_id);
+        if ((row_end_index ?? row_start_index + 1) > rows || (column_end_index ?? column_start_index + 1) > columns) {
+          return error(`Range is out of bounds (table is ${rows} x ${columns})`);
+        }
 
-        await insertBlockTree(insertParentId, tree, insertIndex);
+        const update = unmerge
+          ? { unmerge_table_cells: { row_index: row_start_index, column_index: column_start_index } }
+          : {
+              merge_table_cells: {
+                row_start_index,
+                row_end_index,
+                column_start_index,
+                column_end_index,
+              },
+            };
+        await updateBlock(document_id, block_id, update, revision);
 
-        const action = direction === "indent" ? "indented under" : "outdented to";
-        return success(`Block ${action} ${insertParentId}`, {
-          document_id,
-          url: DOC_URL(document_id),
-        });
+        return success(
+          unmerge
+            ? `Unmerged cell at (${row_start_index}, ${column_start_index})`
+            : `Merged cells rows ${row_start_index}-${row_end_index}, columns ${column_start_index}-${column_end_index}`,
+          { document_id, url: DOC_URL(document_id), block_id, rows, columns }
+        );
       } catch (err) {
-        return error("Block indent/outdent failed", err);
+        return error("Document table merge cells failed", err);
       }
     }
   );
@@ -1179,50 +3786,10 @@ Don't use when:
     async (params) => {
       try {
         const { limit, offset, response_format } = params;
+        const files = await getRecentFiles(limit);
 
-        // 嘗試多個可能的 API 端點
-        const endpoints = [
-          "/drive/v1/files/recent",
-          "/drive/explorer/v2/recent",
-          "/suite/docs-api/recent",
-        ];
-
-        for (const endpoint of endpoints) {
-          try {
-            const data = await larkRequest<{
-              files?: Array<{
-                token?: string;
-                name?: string;
-                type?: string;
-                url?: string;
-              }>;
-              entities?: Array<{
-                token?: string;
-                title?: string;
-                type?: string;
-                url?: string;
-              }>;
-            }>(endpoint, {
-              params: { page_size: limit },
-              skipRetry: true,
-            });
-
-            const files = data.files || data.entities || [];
-
-            if (files.length > 0) {
-              const simplified = files.map((f) => ({
-                token: f.token || "",
-                name: (f as Record<string, unknown>).name as string || (f as Record<string, unknown>).title as string || "(untitled)",
-                type: f.type || "unknown",
-                url: f.url,
-              }));
-
-              return paginatedResponse(simplified, false, offset || 0, `Found ${simplified.length} recent files`, response_format);
-            }
-          } catch {
-            // 嘗試下一個端點
-            continue;
-          }
+        if (files.length > 0) {
+          return paginatedResponse(files, false, offset || 0, `Found ${files.length} recent files`, response_format);
         }
 
         return paginatedResponse([], false, offset || 0, "No recent files found or API not available", response_format);
@@ -1241,12 +3808,16 @@ Don't use when:
 
 Args:
   - blocks (array): Lark blocks 陣列，來自 wiki_read 或 doc_read（必填）
+  - annotated (boolean, optional): 在每個 block 前輸出 <!-- block_id:xxx index:N --> 錨點，預設 false
+  - resolve_mentions (boolean, optional): 將 @提及解析為用戶名稱、文件提及解析為標題連結，預設 true；false 保留原始 ID
+  - media_dir (string, optional): 下載圖片與附件到此本機目錄，Markdown 中改以本機路徑連結
 
 Returns:
   Markdown 格式的文字內容（會自動截斷過長內容）
 
 Examples:
   - 轉換文件內容: blocks_to_markdown blocks=[...]
+  - 附上 block 錨點: blocks_to_markdown blocks=[...] annotated=true
   - 搭配 doc_read 使用: 先執行 doc_read，再將回傳的 blocks 傳入此工具
 
 Error handling:
@@ -1266,8 +3837,12 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { blocks } = params;
-        const markdown = await blocksToMarkdown(blocks as unknown as LarkBlock[]);
+        const { blocks, annotated, resolve_mentions, media_dir } = params;
+        const markdown = await blocksToMarkdown(blocks as unknown as LarkBlock[], {
+          annotated,
+          resolveMentions: resolve_mentions,
+          mediaDir: media_dir,
+        });
         return success("Conversion successful", truncate(markdown));
       } catch (err) {
         return error("Conversion failed", err);
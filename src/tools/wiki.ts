@@ -5,21 +5,34 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
   WikiReadSchema,
+  WikiDiffMarkdownSchema,
   WikiContentSchema,
   WikiUpdateSchema,
+  WikiSyncSchema,
   WikiInsertBlocksSchema,
   WikiDeleteBlocksSchema,
+  WikiOutlineSchema,
+  WikiSectionReadSchema,
+  WikiSectionReplaceSchema,
+  WikiSectionAppendSchema,
+  WikiSectionDeleteSchema,
   WikiListNodesSchema,
   WikiSpacesSchema,
   WikiCreateNodeSchema,
   WikiMoveNodeSchema,
   SearchAllSchema,
+  ContentSearchSchema,
   WikiUrlOutputSchema,
+  WikiSyncOutputSchema,
+  WikiOutlineOutputSchema,
+  WikiSectionOutputSchema,
   WikiCreateNodeOutputSchema,
   WikiMoveNodeOutputSchema,
   WikiListNodesOutputSchema,
   WikiSpacesOutputSchema,
   SearchAllOutputSchema,
+  ContentSearchOutputSchema,
+  MarkdownDiffOutputSchema,
 } from "../schemas/index.js";
 import {
   getWikiNode,
@@ -27,10 +40,20 @@ import {
   getDocumentRootBlockId,
   insertBlocks,
   deleteBlockRange,
+  resolveInsertPosition,
+  checkDocumentRevision,
+  getDocumentRevision,
+  assertCopyable,
+  createWikiNode,
   larkRequest,
 } from "../services/lark-client.js";
-import { blocksToMarkdown } from "../utils/markdown.js";
-import { success, error, simplifyNodeList, simplifySearchResults, truncate, paginatedResponse } from "../utils/response.js";
+import { blocksToMarkdown, resolveContentBlocks, renderDocumentPage, diffAnnotatedMarkdown } from "../utils/markdown.js";
+import { planBlockSync, applyBlockSync, summarizeSync } from "../utils/block-sync.js";
+import { readSection, replaceSection, appendToSection, deleteSection, sectionFields, readOutline } from "../utils/sections.js";
+import { buildPattern } from "../utils/text-elements.js";
+import { searchContent } from "../utils/content-search.js";
+import { captureSnapshot, replaceWithRollback } from "../utils/block-snapshot.js";
+import { success, error, simplifyNodeList, simplifySearchResults, truncate, paginatedResponse, documentPageResponse } from "../utils/response.js";
 import { WIKI_URL, ResponseFormat } from "../constants.js";
 
 /**
@@ -42,19 +65,30 @@ export function registerWikiTools(server: McpServer): void {
     "wiki_read",
     {
       title: "Read Wiki Document",
-      description: `讀取 Wiki 頁面內容，回傳原始 Lark blocks 陣列。
+      description: `讀取 Wiki 頁面內容，可直接輸出原始 Lark blocks、Markdown、純文字或大綱。長頁面以根層級 block 為單位分頁讀取。
 
 Args:
   - wiki_token (string): Wiki 節點 Token（必填）
+  - format (string, optional): "blocks"（預設，原始 blocks）、"markdown"、"annotated_markdown"（每個 block 前附 <!-- block_id:xxx index:N --> 錨點）、"plain_text"、"outline"（只列標題）
+  - start_index (number, optional): 從第幾個根層級 block 開始讀取，預設 0（使用上一頁回傳的 next_index）
+  - end_index (number, optional): 讀到第幾個根層級 block（不包含）；不填則自動讀取一次回應可容納的數量
+  - resolve_mentions (boolean, optional): 將 @提及解析為用戶名稱、文件提及解析為標題連結，預設 true；false 保留原始 ID
+  - media_dir (string, optional): 下載圖片與附件到此本機目錄，Markdown 中改以本機路徑連結（僅 markdown 格式）
 
 Returns:
-  Lark Block 陣列（原始格式）。需要顯示給用戶時，使用 blocks_to_markdown 轉換為 Markdown。
+  format="blocks": { "items": LarkBlock[], "total_blocks", "start_index", "end_index", "has_more", "next_index" }
+  其他格式: 轉換後的文字，標頭註明本頁範圍與下一頁的 start_index
+  皆附帶文件目前的 revision_id，可作為寫入工具的 expected_revision
 
 Examples:
   - 讀取 Wiki 頁面: wiki_read wiki_token=wikcnXXXXX
+  - 讀取為 Markdown: wiki_read wiki_token=wikcnXXXXX format="markdown"
+  - 讀取下一頁: wiki_read wiki_token=wikcnXXXXX format="markdown" start_index=120
+  - 讀取供編輯用的 Markdown: wiki_read wiki_token=wikcnXXXXX format="annotated_markdown"
 
 Permissions:
   - wiki:wiki
+  - contact:user.base:readonly（選用，解析 @提及的用戶名稱）
 
 Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
@@ -62,7 +96,6 @@ Error handling:
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
 
 Don't use when:
-  - You need Markdown format (use wiki_read then blocks_to_markdown)
   - You need to read a standalone document (use doc_read instead)`,
       inputSchema: WikiReadSchema,
       annotations: {
@@ -74,17 +107,88 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { wiki_token } = params;
+        const { wiki_token, format, start_index, end_index, resolve_mentions, media_dir } = params;
         const node = await getWikiNode(wiki_token);
+        // 先取版本再讀 blocks，讀取期間若有變更，之後的寫入會回報衝突而非覆蓋
+        const revision = await getDocumentRevision(node.objToken);
         const blocks = await getDocumentBlocks(node.objToken);
+        const page = await renderDocumentPage(blocks, format, start_index, end_index, {
+          resolveMentions: resolve_mentions,
+          mediaDir: media_dir,
+        });
+        page.revision_id = revision;
 
-        return success("Wiki read successful", blocks);
+        return documentPageResponse("Wiki read successful", page);
       } catch (err) {
         return error("Wiki read failed", err);
       }
     }
   );
 
+  // wiki_diff_markdown
+  server.registerTool(
+    "wiki_diff_markdown",
+    {
+      title: "Diff Wiki Annotated Markdown",
+      description: `比對編輯後的 annotated Markdown 與 Wiki 頁面目前內容，列出被修改、刪除與新增的 blocks。
+
+先用 wiki_read format="annotated_markdown" 取得帶錨點的 Markdown，編輯時保留 <!-- block_id:xxx index:N --> 錨點：
+修改錨點下方的內容視為修改該 block，刪除錨點與內容視為刪除，新增內容不需加錨點。
+
+Args:
+  - wiki_token (string): Wiki 節點 Token（必填）
+  - markdown (string): 編輯後的 annotated Markdown（必填）
+
+Returns:
+  {
+    "changed": [{ "block_id", "index", "block_type", "markdown", "elements" }],
+    "removed": [{ "block_id", "index", "block_type" }],
+    "added": [{ "after_block_id", "after_index", "markdown" }],  // after_block_id 為 null 表示頁面開頭
+    "unchanged_count": number
+  }
+  index 為 block 所屬的根層級 index（可用於 wiki_delete_blocks / wiki_insert_blocks）
+
+Examples:
+  - 比對編輯結果: wiki_diff_markdown wiki_token=wikcnXXXXX markdown="<!-- block_id:doxcnA index:0 -->\n# New Title\n..."
+
+Permissions:
+  - wiki:wiki
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+
+Don't use when:
+  - You need to diff a standalone document (use doc_diff_markdown instead)`,
+      inputSchema: WikiDiffMarkdownSchema,
+      outputSchema: MarkdownDiffOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { wiki_token, markdown } = params;
+        const node = await getWikiNode(wiki_token);
+        const revision = await getDocumentRevision(node.objToken);
+        const blocks = await getDocumentBlocks(node.objToken);
+        const diff = { ...(await diffAnnotatedMarkdown(blocks, markdown)), revision_id: revision };
+
+        return success(
+          `Diff: ${diff.changed.length} changed, ${diff.removed.length} removed, ${diff.added.length} added, ${diff.unchanged_count} unchanged`,
+          diff,
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Wiki markdown diff failed", err);
+      }
+    }
+  );
+
   // wiki_prepend
   server.registerTool(
     "wiki_prepend",
@@ -94,7 +198,9 @@ Don't use when:
 
 Args:
   - wiki_token (string): Wiki 節點 Token（必填）
-  - blocks (array): Lark Block JSON 陣列（必填）
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - expected_revision (number, optional): 編輯所依據的文件版本（wiki_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
@@ -104,6 +210,7 @@ Returns:
 Examples:
   - 插入標題: wiki_prepend wiki_token=wikcnXXXXX blocks=[{"block_type":3,"heading1":{"elements":[{"text_run":{"content":"Title"}}]}}]
   - 插入段落: wiki_prepend wiki_token=wikcnXXXXX blocks=[{"block_type":2,"text":{"elements":[{"text_run":{"content":"Hello"}}]}}]
+  - 使用 Markdown: wiki_prepend wiki_token=wikcnXXXXX markdown="# Title\n\nHello"
 
 Permissions:
   - wiki:wiki
@@ -112,6 +219,7 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with wiki_read and retry
 
 Don't use when:
   - You need to insert at a specific position (use wiki_insert_blocks instead)
@@ -127,11 +235,13 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { wiki_token, blocks } = params;
+        const { wiki_token } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
         const node = await getWikiNode(wiki_token);
+        const revision = await checkDocumentRevision(node.objToken, params.expected_revision);
         const rootBlockId = await getDocumentRootBlockId(node.objToken);
 
-        await insertBlocks(node.objToken, rootBlockId, blocks, 0);
+        await insertBlocks(node.objToken, rootBlockId, blocks, 0, revision);
 
         return success(`Inserted ${blocks.length} blocks at top of Wiki`, {
           wiki_url: WIKI_URL(wiki_token),
@@ -151,7 +261,9 @@ Don't use when:
 
 Args:
   - wiki_token (string): Wiki 節點 Token（必填）
-  - blocks (array): Lark Block JSON 陣列（必填）
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - expected_revision (number, optional): 編輯所依據的文件版本（wiki_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
@@ -160,6 +272,7 @@ Returns:
 
 Examples:
   - 追加頁尾: wiki_append wiki_token=wikcnXXXXX blocks=[{"block_type":4,"heading2":{"elements":[{"text_run":{"content":"Footer"}}]}}]
+  - 使用 Markdown: wiki_append wiki_token=wikcnXXXXX markdown="## Footer\n\n> note"
 
 Permissions:
   - wiki:wiki
@@ -168,6 +281,7 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with wiki_read and retry
 
 Don't use when:
   - You need to insert at a specific position (use wiki_insert_blocks instead)
@@ -183,13 +297,15 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { wiki_token, blocks } = params;
+        const { wiki_token } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
         const node = await getWikiNode(wiki_token);
+        const revision = await checkDocumentRevision(node.objToken, params.expected_revision);
         const rootBlockId = await getDocumentRootBlockId(node.objToken);
         const existingBlocks = await getDocumentBlocks(node.objToken);
         const insertIndex = Math.max(0, existingBlocks.length - 1);
 
-        await insertBlocks(node.objToken, rootBlockId, blocks, insertIndex);
+        await insertBlocks(node.objToken, rootBlockId, blocks, insertIndex, revision);
 
         return success(`Appended ${blocks.length} blocks to Wiki`, {
           wiki_url: WIKI_URL(wiki_token),
@@ -209,9 +325,11 @@ Don't use when:
 
 Args:
   - wiki_token (string): Wiki 節點 Token（必填）
-  - blocks (array): Lark Block JSON 陣列（必填）
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
   - start_index (number, optional): 範圍更新起始位置
   - end_index (number, optional): 範圍更新結束位置（不包含）
+  - expected_revision (number, optional): 編輯所依據的文件版本（wiki_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
@@ -221,6 +339,7 @@ Returns:
 Examples:
   - 全文重寫: wiki_update wiki_token=wikcnXXXXX blocks=[{"block_type":3,"heading1":{"elements":[{"text_run":{"content":"New Content"}}]}}]
   - 範圍更新: wiki_update wiki_token=wikcnXXXXX blocks=[{"block_type":2,"text":{"elements":[{"text_run":{"content":"Replaced"}}]}}] start_index=0 end_index=3
+  - 使用 Markdown: wiki_update wiki_token=wikcnXXXXX markdown="# New Content\n\n1. first\n2. second"
 
 Permissions:
   - wiki:wiki
@@ -229,10 +348,14 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with wiki_read and retry
+  - Insert failed after delete: the original blocks are restored from a snapshot; the error states whether rollback succeeded
+  - Block type N (sheet / bitable / board ...) cannot be copied: the replaced range contains blocks that could not be restored if the update failed → nothing is deleted; narrow start_index/end_index to exclude them, or use wiki_sync
 
 Don't use when:
   - You only need to append content (use wiki_append instead)
-  - You only need to prepend content (use wiki_prepend instead)`,
+  - You only need to prepend content (use wiki_prepend instead)
+  - You want to rewrite the whole page but keep unchanged blocks (use wiki_sync instead)`,
       inputSchema: WikiUpdateSchema,
       outputSchema: WikiUrlOutputSchema,
       annotations: {
@@ -244,8 +367,10 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { wiki_token, blocks, start_index, end_index } = params;
+        const { wiki_token, start_index, end_index } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
         const node = await getWikiNode(wiki_token);
+        const revision = await checkDocumentRevision(node.objToken, params.expected_revision);
         const rootBlockId = await getDocumentRootBlockId(node.objToken);
         const isRangeUpdate = start_index !== undefined && end_index !== undefined;
 
@@ -256,14 +381,27 @@ Don't use when:
             return error("Invalid range (end_index must be greater than start_index)");
           }
 
-          await deleteBlockRange(node.objToken, rootBlockId, start_index, end_index);
-
-          // 表格/容器需要等待文件狀態同步
-          if (hasNestedBlocks) {
-            await new Promise((resolve) => setTimeout(resolve, 100));
-          }
-
-          await insertBlocks(node.objToken, rootBlockId, blocks, start_index);
+          const snapshot = captureSnapshot(
+            node.objToken,
+            await getDocumentBlocks(node.objToken),
+            rootBlockId,
+            start_index,
+            end_index
+          );
+          // 刪除前確認快照可還原（嵌入的試算表、多維表格、畫板等無法重建）
+          assertCopyable(snapshot.trees);
+          await replaceWithRollback(
+            snapshot,
+            { parentId: rootBlockId, index: start_index },
+            async (insertRevision) => {
+              // 表格/容器需要等待文件狀態同步
+              if (hasNestedBlocks) {
+                await new Promise((resolve) => setTimeout(resolve, 100));
+              }
+              await insertBlocks(node.objToken, rootBlockId, blocks, start_index, insertRevision);
+            },
+            revision
+          );
 
           return success(
             `Wiki range update: deleted ${end_index - start_index} blocks, inserted ${blocks.length} blocks`,
@@ -271,20 +409,23 @@ Don't use when:
           );
         } else {
           const existingBlocks = await getDocumentBlocks(node.objToken);
-          const childBlockIds = existingBlocks
-            .filter((b) => b.parent_id === rootBlockId && b.block_id !== rootBlockId)
-            .map((b) => b.block_id);
-
-          if (childBlockIds.length > 0) {
-            await deleteBlockRange(node.objToken, rootBlockId, 0, childBlockIds.length);
-
-            // 表格/容器需要等待文件狀態同步
-            if (hasNestedBlocks) {
-              await new Promise((resolve) => setTimeout(resolve, 100));
-            }
-          }
-
-          await insertBlocks(node.objToken, rootBlockId, blocks, 0);
+          const childCount = existingBlocks.find((b) => b.block_id === rootBlockId)?.children?.length ?? 0;
+          const snapshot = captureSnapshot(node.objToken, existingBlocks, rootBlockId, 0, childCount);
+          assertCopyable(snapshot.trees);
+
+          // 頁面原本為空時，插入即為第一個寫入請求
+          await replaceWithRollback(
+            snapshot,
+            { parentId: rootBlockId, index: 0 },
+            async (insertRevision) => {
+              // 表格/容器需要等待文件狀態同步
+              if (hasNestedBlocks && childCount > 0) {
+                await new Promise((resolve) => setTimeout(resolve, 100));
+              }
+              await insertBlocks(node.objToken, rootBlockId, blocks, 0, insertRevision);
+            },
+            revision
+          );
 
           return success(`Wiki update: inserted ${blocks.length} blocks`, {
             wiki_url: WIKI_URL(wiki_token),
@@ -296,6 +437,90 @@ Don't use when:
     }
   );
 
+  // wiki_sync
+  server.registerTool(
+    "wiki_sync",
+    {
+      title: "Sync Wiki Content",
+      description: `以差異同步方式將 Wiki 頁面更新為目標內容。只套用最小編輯腳本（原地更新文字、插入、刪除、移動），未變動的 block 保留原 block ID 與評論。
+
+Args:
+  - wiki_token (string): Wiki 節點 Token（必填）
+  - blocks (array): 目標內容的 Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): 目標內容的 Markdown，自動轉換為 Lark blocks（與 blocks 擇一）
+  - dry_run (boolean, optional): 只計算並回傳編輯腳本，不修改頁面，預設 false
+  - expected_revision (number, optional): 編輯所依據的文件版本（wiki_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "wiki_url": string,
+    "dry_run": boolean,
+    "unchanged_count": number,
+    "edits": [...]  // 編輯腳本，格式同 doc_sync
+  }
+
+Examples:
+  - 同步 Markdown: wiki_sync wiki_token=wikcnXXXXX markdown="# Title\n\nUpdated paragraph"
+  - 預覽編輯腳本: wiki_sync wiki_token=wikcnXXXXX markdown="..." dry_run=true
+  - 典型流程: wiki_read format="markdown" → 修改 Markdown → wiki_sync
+
+Notes:
+  - wiki_read format="markdown"（未指定 media_dir）的輸出可原樣轉回：Markdown 語法字元以反斜線跳脫，圖片、附件與 @提及以 lark:// 佔位連結保留，未修改的 block 不會產生編輯
+  - 使用 markdown 時只比對 Markdown 能表達的樣式：底線、文字顏色、對齊等不會被移除（文字有修改的 block 除外）
+  - 使用 markdown 時，頁面含 Markdown 無法表達的 block（Callout、分欄、嵌入表格、公式 block、畫板、多段落的表格 cell 等）會回報錯誤而不修改頁面；請改用 blocks 局部編輯
+
+Permissions:
+  - wiki:wiki
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with wiki_read and retry
+  - "Block ... cannot be expressed in Markdown": the sync would delete or replace that block → nothing is changed; pass blocks instead of markdown, or edit around it with targeted tools
+
+Don't use when:
+  - You only need to append content (use wiki_append instead)
+  - You want to edit a known range (use wiki_update with start_index/end_index instead)`,
+      inputSchema: WikiSyncSchema,
+      outputSchema: WikiSyncOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { wiki_token, dry_run } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const node = await getWikiNode(wiki_token);
+        const revision = await checkDocumentRevision(node.objToken, params.expected_revision);
+        const rootBlockId = await getDocumentRootBlockId(node.objToken);
+        const existingBlocks = await getDocumentBlocks(node.objToken);
+
+        const plan = planBlockSync(existingBlocks, rootBlockId, blocks, { markdown: params.markdown !== undefined });
+        if (!dry_run) {
+          await applyBlockSync(node.objToken, plan, revision);
+        }
+
+        return success(
+          `${dry_run ? "Dry run" : "Wiki synced"}: ${summarizeSync(plan)}`,
+          {
+            wiki_url: WIKI_URL(wiki_token),
+            dry_run,
+            unchanged_count: plan.unchanged_count,
+            edits: plan.edits,
+          },
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Wiki sync failed", err);
+      }
+    }
+  );
+
   // wiki_insert_blocks
   server.registerTool(
     "wiki_insert_blocks",
@@ -305,8 +530,13 @@ Don't use when:
 
 Args:
   - wiki_token (string): Wiki 節點 Token（必填）
-  - blocks (array): Lark Block JSON 陣列（必填）
-  - index (number, optional): 插入位置，從 0 開始，預設 0
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - parent_block_id (string, optional): 插入到此 block 底下（例如 callout、列表項目），預設為頁面根節點
+  - after_block_id (string, optional): 插入到此 block 之後（同一個 parent）
+  - before_block_id (string, optional): 插入到此 block 之前（同一個 parent）
+  - index (number, optional): 在 parent children 中的插入位置，從 0 開始，預設 0（指定 after/before_block_id 時忽略）
+  - expected_revision (number, optional): 編輯所依據的文件版本（wiki_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
@@ -316,6 +546,8 @@ Returns:
 Examples:
   - 在開頭插入: wiki_insert_blocks wiki_token=wikcnXXXXX blocks=[{"block_type":3,"heading1":{"elements":[{"text_run":{"content":"Title"}}]}}]
   - 在指定位置: wiki_insert_blocks wiki_token=wikcnXXXXX blocks=[{"block_type":2,"text":{"elements":[{"text_run":{"content":"New"}}]}}] index=5
+  - 使用 Markdown: wiki_insert_blocks wiki_token=wikcnXXXXX markdown="- [ ] todo item" index=5
+  - 插入到某 block 之後: wiki_insert_blocks wiki_token=wikcnXXXXX markdown="補充說明" after_block_id=blkXXXXX
 
 Permissions:
   - wiki:wiki
@@ -324,6 +556,7 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with wiki_read and retry
 
 Don't use when:
   - You want to append at the end (use wiki_append instead)
@@ -339,13 +572,25 @@ Don't use when:
     },
     async (params) => {
       try {
-        const { wiki_token, blocks, index } = params;
+        const { wiki_token, parent_block_id, after_block_id, before_block_id, index } = params;
+
+        if (after_block_id && before_block_id) {
+          return error("Specify only one of after_block_id and before_block_id");
+        }
+
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
         const node = await getWikiNode(wiki_token);
-        const rootBlockId = await getDocumentRootBlockId(node.objToken);
+        const revision = await checkDocumentRevision(node.objToken, params.expected_revision);
+        const position = await resolveInsertPosition(node.objToken, {
+          parentBlockId: parent_block_id,
+          afterBlockId: after_block_id,
+          beforeBlockId: before_block_id,
+          index,
+        });
 
-        await insertBlocks(node.objToken, rootBlockId, blocks, index);
+        await insertBlocks(node.objToken, position.parentId, blocks, position.index, revision);
 
-        return success(`Inserted ${blocks.length} blocks at position ${index}`, {
+        return success(`Inserted ${blocks.length} blocks at position ${position.index}`, {
           wiki_url: WIKI_URL(wiki_token),
         });
       } catch (err) {
@@ -365,6 +610,7 @@ Args:
   - wiki_token (string): Wiki 節點 Token（必填）
   - start_index (number): 起始位置，從 0 開始（必填）
   - end_index (number): 結束位置，不包含（必填）
+  - expected_revision (number, optional): 編輯所依據的文件版本（wiki_read 回傳），文件已被他人修改時回報版本衝突而不寫入
 
 Returns:
   {
@@ -381,6 +627,7 @@ Error handling:
   - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
   - 99991668: Permission denied → check App scope settings
   - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with wiki_read and retry
 
 Don't use when:
   - You need to replace content (use wiki_update with range instead)`,
@@ -402,9 +649,10 @@ Don't use when:
         }
 
         const node = await getWikiNode(wiki_token);
+        const revision = await checkDocumentRevision(node.objToken, params.expected_revision);
         const rootBlockId = await getDocumentRootBlockId(node.objToken);
 
-        await deleteBlockRange(node.objToken, rootBlockId, start_index, end_index);
+        await deleteBlockRange(node.objToken, rootBlockId, start_index, end_index, revision);
 
         return success(`Deleted ${end_index - start_index} blocks (index ${start_index} to ${end_index})`, {
           wiki_url: WIKI_URL(wiki_token),
@@ -415,6 +663,364 @@ Don't use when:
     }
   );
 
+  // wiki_outline
+  server.registerTool(
+    "wiki_outline",
+    {
+      title: "Wiki Page Outline",
+      description: `取得Wiki 頁面的標題大綱（樹狀結構），每個標題附上根層級位置、所屬區段範圍與字數，不讀取內文。適合在編輯長文件前先定位區段。
+
+Args:
+  - wiki_token (string): Wiki 節點 Token（必填）
+  - max_level (number, optional): 只列出到第幾級標題（1-9），預設 9；更深的標題省略，其字數計入上層區段
+
+Returns:
+  {
+    "wiki_url": string,
+    "document_id": string,     // Wiki 頁面對應的文件 ID
+    "revision_id": number,      // 文件目前版本，可作為後續編輯的 expected_revision
+    "block_count": number,      // 根層級 block 數
+    "word_count": number,       // 全文字數
+    "heading_count": number,
+    "headings": [
+      {
+        "level": number,        // 標題層級 1-9
+        "text": string,
+        "block_id": string,
+        "start_index": number,  // 標題的根層級位置
+        "end_index": number,    // 區段結束位置（不包含），到下一個同級或更高級標題為止
+        "word_count": number,   // 區段內文字數（不含標題，含子標題區段）
+        "children": [...]       // 區段內的下一層標題
+      }
+    ]
+  }
+
+Examples:
+  - 完整大綱: wiki_outline wiki_token=wikcnXXXXX
+  - 只看前兩層: wiki_outline wiki_token=wikcnXXXXX max_level=2
+
+Permissions:
+  - wiki:wiki
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+
+Notes:
+  - 只有根層級標題構成區段；表格、分欄等容器內的標題不列入
+  - 字數以中日文字元與其他語言的單字計算
+  - start_index / end_index 可直接用於 wiki_section_* 或 wiki_delete_blocks 等以 index 定位的工具
+
+Don't use when:
+  - You need the section content (use wiki_section_read or wiki_read instead)`,
+      inputSchema: WikiOutlineSchema,
+      outputSchema: WikiOutlineOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { wiki_token, max_level } = params;
+        const node = await getWikiNode(wiki_token);
+        const revision = await getDocumentRevision(node.objToken);
+        const outline = await readOutline(node.objToken, max_level);
+
+        return success(
+          `Outline: ${outline.heading_count} headings, ${outline.block_count} top-level blocks, ${outline.word_count} words`,
+          { wiki_url: WIKI_URL(wiki_token), document_id: node.objToken, revision_id: revision, ...outline },
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Wiki outline failed", err);
+      }
+    }
+  );
+
+  // wiki_section_read
+  server.registerTool(
+    "wiki_section_read",
+    {
+      title: "Read Wiki Section",
+      description: `讀取 Wiki 頁面中某個標題底下的區段內容。區段從標題開始，到下一個同級或更高級的根層級標題之前結束。
+
+Args:
+  - wiki_token (string): Wiki 節點 Token（必填）
+  - heading (string): 標題文字，不分大小寫；可加 # 前綴限定層級，例如 "## Rollback"（與 heading_block_id 擇一）
+  - heading_block_id (string): 根層級標題的 block ID（與 heading 擇一）
+  - occurrence (number, optional): 同名標題出現多次時選擇第幾個，從 1 開始
+  - include_heading (boolean, optional): 是否包含標題本身，預設 true
+  - format (string, optional): "markdown"（預設）、"annotated_markdown"、"blocks"、"plain_text"、"outline"
+  - resolve_mentions (boolean, optional): 將 @提及解析為用戶名稱，預設 true
+
+Returns:
+  區段內容，標頭註明區段的根層級範圍與文件目前的 revision_id
+
+Examples:
+  - 讀取區段: wiki_section_read wiki_token=wikcnXXXXX heading="Rollback"
+  - 限定二級標題: wiki_section_read wiki_token=wikcnXXXXX heading="## Rollback"
+  - 以 block ID 指定: wiki_section_read wiki_token=wikcnXXXXX heading_block_id=blkXXXXX format="annotated_markdown"
+
+Permissions:
+  - wiki:wiki
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Heading not found / ambiguous: the error lists available headings or matching block IDs
+
+Don't use when:
+  - You need the whole page (use wiki_read instead)`,
+      inputSchema: WikiSectionReadSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { wiki_token, include_heading, format, resolve_mentions } = params;
+        const node = await getWikiNode(wiki_token);
+        const revision = await getDocumentRevision(node.objToken);
+        const { section, page } = await readSection(
+          node.objToken,
+          { heading: params.heading, headingBlockId: params.heading_block_id, occurrence: params.occurrence },
+          { includeHeading: include_heading, format, resolveMentions: resolve_mentions }
+        );
+        page.revision_id = revision;
+
+        return documentPageResponse(`Section "${section.heading.text}" read successful`, page);
+      } catch (err) {
+        return error("Wiki section read failed", err);
+      }
+    }
+  );
+
+  // wiki_section_replace
+  server.registerTool(
+    "wiki_section_replace",
+    {
+      title: "Replace Wiki Section",
+      description: `以新內容取代 Wiki 頁面中某個標題底下的區段內容（預設保留標題本身）。插入失敗時會自動還原原內容。
+
+Args:
+  - wiki_token (string): Wiki 節點 Token（必填）
+  - heading (string): 標題文字，不分大小寫；可加 # 前綴限定層級，例如 "## Rollback"（與 heading_block_id 擇一）
+  - heading_block_id (string): 根層級標題的 block ID（與 heading 擇一）
+  - occurrence (number, optional): 同名標題出現多次時選擇第幾個，從 1 開始
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - include_heading (boolean, optional): 連同標題一起取代（新內容應以標題開頭），預設 false
+  - expected_revision (number, optional): 編輯所依據的文件版本（wiki_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "wiki_url": string,
+    "heading": string,           // 標題文字
+    "heading_block_id": string,
+    "level": number,             // 標題層級 1-9
+    "start_index": number,       // 標題的根層級位置
+    "end_index": number          // 編輯前區段結束位置（不包含）
+  }
+
+Examples:
+  - 取代區段內容: wiki_section_replace wiki_token=wikcnXXXXX heading="## Rollback" markdown="1. Revert the deploy\n2. Notify #ops"
+  - 連同標題取代: wiki_section_replace wiki_token=wikcnXXXXX heading="Rollback" include_heading=true markdown="## Rollback (v2)\n..."
+
+Permissions:
+  - wiki:wiki
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with wiki_read and retry
+  - Insert failed after delete: the original blocks are restored from a snapshot; the error states whether rollback succeeded
+  - Block type N (sheet / bitable / board ...) cannot be copied: the section contains blocks that could not be restored if the replace failed → nothing is deleted; edit around them with wiki_section_append or targeted block tools
+
+Don't use when:
+  - You only need to add content at the end of the section (use wiki_section_append instead)`,
+      inputSchema: WikiSectionReplaceSchema,
+      outputSchema: WikiSectionOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { wiki_token, include_heading } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const node = await getWikiNode(wiki_token);
+        const revision = await checkDocumentRevision(node.objToken, params.expected_revision);
+        const { section, deleted } = await replaceSection(
+          node.objToken,
+          { heading: params.heading, headingBlockId: params.heading_block_id, occurrence: params.occurrence },
+          blocks,
+          { includeHeading: include_heading, revisionId: revision }
+        );
+
+        return success(
+          `Section "${section.heading.text}" replaced: deleted ${deleted} blocks, inserted ${blocks.length} blocks`,
+          { wiki_url: WIKI_URL(wiki_token), ...sectionFields(section) }
+        );
+      } catch (err) {
+        return error("Wiki section replace failed", err);
+      }
+    }
+  );
+
+  // wiki_section_append
+  server.registerTool(
+    "wiki_section_append",
+    {
+      title: "Append to Wiki Section",
+      description: `在 Wiki 頁面中某個標題區段的末尾（下一個同級或更高級標題之前）插入內容。
+
+Args:
+  - wiki_token (string): Wiki 節點 Token（必填）
+  - heading (string): 標題文字，不分大小寫；可加 # 前綴限定層級，例如 "## Rollback"（與 heading_block_id 擇一）
+  - heading_block_id (string): 根層級標題的 block ID（與 heading 擇一）
+  - occurrence (number, optional): 同名標題出現多次時選擇第幾個，從 1 開始
+  - blocks (array): Lark Block JSON 陣列（與 markdown 擇一）
+  - markdown (string): Markdown 內容，自動轉換為 Lark blocks（與 blocks 擇一）
+  - expected_revision (number, optional): 編輯所依據的文件版本（wiki_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "wiki_url": string,
+    "heading": string,
+    "heading_block_id": string,
+    "level": number,
+    "start_index": number,
+    "end_index": number          // 插入位置（編輯前區段結束位置）
+  }
+
+Examples:
+  - 在區段末尾追加: wiki_section_append wiki_token=wikcnXXXXX heading="## Changelog" markdown="- 2024-06-01: fixed rollback script"
+
+Permissions:
+  - wiki:wiki
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with wiki_read and retry
+
+Don't use when:
+  - You need to append to the end of the page (use wiki_append instead)`,
+      inputSchema: WikiSectionAppendSchema,
+      outputSchema: WikiSectionOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { wiki_token } = params;
+        const blocks = resolveContentBlocks(params.blocks, params.markdown);
+        const node = await getWikiNode(wiki_token);
+        const revision = await checkDocumentRevision(node.objToken, params.expected_revision);
+        const section = await appendToSection(
+          node.objToken,
+          { heading: params.heading, headingBlockId: params.heading_block_id, occurrence: params.occurrence },
+          blocks,
+          revision
+        );
+
+        return success(`Appended ${blocks.length} blocks to section "${section.heading.text}"`, {
+          wiki_url: WIKI_URL(wiki_token),
+          ...sectionFields(section),
+        });
+      } catch (err) {
+        return error("Wiki section append failed", err);
+      }
+    }
+  );
+
+  // wiki_section_delete
+  server.registerTool(
+    "wiki_section_delete",
+    {
+      title: "Delete Wiki Section",
+      description: `刪除 Wiki 頁面中某個標題區段（標題與其下內容，直到下一個同級或更高級標題）。此操作不可逆。
+
+Args:
+  - wiki_token (string): Wiki 節點 Token（必填）
+  - heading (string): 標題文字，不分大小寫；可加 # 前綴限定層級，例如 "## Rollback"（與 heading_block_id 擇一）
+  - heading_block_id (string): 根層級標題的 block ID（與 heading 擇一）
+  - occurrence (number, optional): 同名標題出現多次時選擇第幾個，從 1 開始
+  - keep_heading (boolean, optional): 只刪除內文、保留標題，預設 false
+  - expected_revision (number, optional): 編輯所依據的文件版本（wiki_read 回傳），文件已被他人修改時回報版本衝突而不寫入
+
+Returns:
+  {
+    "wiki_url": string,
+    "heading": string,
+    "heading_block_id": string,
+    "level": number,
+    "start_index": number,
+    "end_index": number          // 編輯前區段結束位置（不包含）
+  }
+
+Examples:
+  - 刪除整個區段: wiki_section_delete wiki_token=wikcnXXXXX heading="## Deprecated"
+  - 清空區段內文: wiki_section_delete wiki_token=wikcnXXXXX heading="## Notes" keep_heading=true
+
+Permissions:
+  - wiki:wiki
+
+Error handling:
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Revision conflict: document changed since expected_revision → re-read with wiki_read and retry
+
+Don't use when:
+  - You need to delete blocks that are not a heading section (use wiki_delete_blocks instead)`,
+      inputSchema: WikiSectionDeleteSchema,
+      outputSchema: WikiSectionOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const { wiki_token, keep_heading } = params;
+        const node = await getWikiNode(wiki_token);
+        const revision = await checkDocumentRevision(node.objToken, params.expected_revision);
+        const { section, deleted } = await deleteSection(
+          node.objToken,
+          { heading: params.heading, headingBlockId: params.heading_block_id, occurrence: params.occurrence },
+          { keepHeading: keep_heading, revisionId: revision }
+        );
+
+        return success(`Deleted ${deleted} blocks from section "${section.heading.text}"`, {
+          wiki_url: WIKI_URL(wiki_token),
+          ...sectionFields(section),
+        });
+      } catch (err) {
+        return error("Wiki section delete failed", err);
+      }
+    }
+  );
+
   // wiki_list_nodes
   server.registerTool(
     "wiki_list_nodes",
@@ -538,33 +1144,13 @@ Don't use when:
     async (params) => {
       try {
         const { space_id, title, parent_node_token, obj_type, response_format } = params;
+        const node = await createWikiNode(space_id, title, parent_node_token, obj_type || "docx");
 
-        const body: Record<string, unknown> = {
-          obj_type: obj_type || "docx",
-          title,
-        };
-
-        if (parent_node_token) {
-          body.parent_node_token = parent_node_token;
-        }
-
-        const data = await larkRequest<{
-          node?: {
-            node_token?: string;
-            obj_token?: string;
-            title?: string;
-          };
-        }>(`/wiki/v2/spaces/${space_id}/nodes`, {
-          method: "POST",
-          body,
-        });
-
-        const node = data.node || {};
         return success("Wiki node created", {
-          node_token: node.node_token,
-          obj_token: node.obj_token,
-          title: node.title || title,
-          wiki_url: WIKI_URL(node.node_token || ""),
+          node_token: node.nodeToken,
+          obj_token: node.objToken,
+          title,
+          wiki_url: WIKI_URL(node.nodeToken),
         }, response_format);
       } catch (err) {
         return error("Wiki create node failed", err);
@@ -905,4 +1491,143 @@ Don't use when:
       }
     }
   );
+
+  // content_search
+  server.registerTool(
+    "content_search",
+    {
+      title: "Full-Text Content Search",
+      description: `在 Drive 資料夾或 Wiki 子樹中搜尋文件「內文」。走訪範圍內的所有 docx 文件（受深度與文件數上限限制），逐份讀取 blocks 搜尋，回傳符合的文件、片段、所屬標題與 block ID。
+
+Args:
+  - query (string): 要搜尋的文字或正規表達式（必填）
+  - regex (boolean, optional): query 視為 JavaScript 正規表達式，預設 false
+  - whole_word (boolean, optional): 只比對完整單字，預設 false
+  - case_sensitive (boolean, optional): 區分大小寫，預設 false
+  - folder_token (string): 搜尋此資料夾與子資料夾（與 wiki_token、wiki_space_id 擇一）
+  - wiki_token (string): 搜尋此 Wiki 節點與其子孫節點
+  - wiki_space_id (string): 搜尋整個 Wiki 空間
+  - max_depth (number, optional): 往下走訪的層數（0-10），預設 3；0 只搜尋資料夾內的文件 / 節點本身 / 空間根節點
+  - max_documents (number, optional): 最多讀取幾份文件（1-500），預設 50
+  - max_matches_per_document (number, optional): 每份文件最多回傳幾個符合的 block（1-20），預設 3
+
+Returns:
+  {
+    "query": string,
+    "scanned_documents": number,  // 已讀取的文件數
+    "matched_documents": number,
+    "skipped": number,            // 非 docx 而略過的檔案或節點數
+    "truncated": boolean,         // 達到 max_depth 或 max_documents 而未走訪完整個範圍
+    "errors": [{ "title": string, "token": string, "message": string }],
+    "documents": [
+      {
+        "title": string,
+        "document_id": string,
+        "url": string,
+        "wiki_token"?: string,
+        "path": string,           // 上層資料夾或節點，以 " / " 分隔
+        "match_count": number,    // 符合的 block 數
+        "matches": [
+          {
+            "block_id": string,
+            "block_type": number,
+            "heading"?: string,   // 最近的前一個標題
+            "heading_block_id"?: string,
+            "snippet": string,    // 比對前後文，比對處以 [] 標示
+            "offset": number
+          }
+        ]
+      }
+    ]
+  }
+
+Examples:
+  - 資料夾內搜尋: content_search query="kafka-lag" folder_token=fldcnXXX
+  - Wiki 子樹: content_search query="rollback" wiki_token=wikcnXXX whole_word=true
+  - 整個空間、正規表達式: content_search query="INC-\\d{4}" regex=true wiki_space_id=7XXXXXX max_documents=200
+
+Permissions:
+  - drive:drive
+  - wiki:wiki
+
+Error handling:
+  - Invalid regular expression → fix the query pattern
+  - 99991663/99991664: Token invalid → use lark_auth_url to re-authorize
+  - 99991668: Permission denied → check App scope settings
+  - 99991400: Rate limited → wait and retry (auto-retry enabled)
+  - Unreadable folders, nodes or documents are listed in errors; the search continues
+
+Notes:
+  - 廣度優先走訪，較淺層的文件優先讀取；所有請求依序送出並經過 rate limiter，文件數多時較慢
+  - 只搜尋 docx 文件，試算表、多維表格、檔案等略過
+  - 呼叫端提供 progressToken 時，每讀完一份文件送出一次 notifications/progress
+  - 找到文件後可用 doc_search_blocks 取得完整比對資訊，或以 block_id 直接編輯
+
+Don't use when:
+  - You only need to match titles (use lark_search instead)
+  - You already know the document (use doc_search_blocks instead)`,
+      inputSchema: ContentSearchSchema,
+      outputSchema: ContentSearchOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const { query, regex, whole_word, case_sensitive, folder_token, wiki_token, wiki_space_id } = params;
+
+        const roots = [folder_token, wiki_token, wiki_space_id].filter((v) => v !== undefined);
+        if (roots.length !== 1) {
+          return error("Specify exactly one of folder_token, wiki_token or wiki_space_id");
+        }
+
+        let pattern: RegExp;
+        try {
+          pattern = buildPattern(query, { regex, caseSensitive: case_sensitive, wholeWord: whole_word });
+        } catch (err) {
+          return error(`Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+        }
+
+        const progressToken = extra._meta?.progressToken;
+        const result = await searchContent(
+          { folderToken: folder_token, wikiToken: wiki_token, spaceId: wiki_space_id },
+          pattern,
+          {
+            maxDepth: params.max_depth,
+            maxDocuments: params.max_documents,
+            maxMatchesPerDocument: params.max_matches_per_document,
+            onProgress:
+              progressToken !== undefined
+                ? ({ scanned, total, title }) =>
+                    extra.sendNotification({
+                      method: "notifications/progress",
+                      params: { progressToken, progress: scanned, total, message: `Searched "${title}"` },
+                    })
+                : undefined,
+          }
+        );
+
+        const summary = `Found "${query}" in ${result.documents.length} of ${result.scanned_documents} documents` +
+          (result.truncated ? " (crawl truncated; raise max_depth or max_documents to search further)" : "");
+        return success(
+          summary,
+          {
+            query,
+            scanned_documents: result.scanned_documents,
+            matched_documents: result.documents.length,
+            skipped: result.skipped,
+            truncated: result.truncated,
+            errors: result.errors,
+            documents: result.documents,
+          },
+          ResponseFormat.JSON
+        );
+      } catch (err) {
+        return error("Content search failed", err);
+      }
+    }
+  );
 }
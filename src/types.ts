@@ -16,7 +16,11 @@ export interface TokenData {
  */
 export interface ToolResponse {
   [key: string]: unknown;
-  content: Array<{ type: "text"; text: string }>;
+  content: Array<
+    | { type: "text"; text: string }
+    | { type: "image"; data: string; mimeType: string }
+    | { type: "resource"; resource: { uri: string; mimeType?: string; blob: string } }
+  >;
   structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
@@ -32,6 +36,43 @@ export interface PaginatedResponse<T> {
   next_offset?: number;
 }
 
+/**
+ * 分段讀取文件的結果（以根層級 block 為單位）
+ */
+export interface DocumentPage {
+  /** markdown / plain_text / outline 格式的渲染結果 */
+  content?: string;
+  /** blocks 格式的原始 blocks（含所選根層級 blocks 的整棵子樹） */
+  blocks?: LarkBlock[];
+  total_blocks: number;
+  start_index: number;
+  end_index: number;
+  has_more: boolean;
+  next_index?: number;
+  /** 讀取時的文件版本（寫入工具的 expected_revision） */
+  revision_id?: number;
+}
+
+/**
+ * Annotated Markdown 與原始 blocks 的差異（index 為所屬根層級 block index）
+ */
+export interface AnnotatedMarkdownDiff {
+  changed: Array<{
+    block_id: string;
+    index?: number;
+    block_type: number;
+    markdown: string;
+    /** 可直接用於 doc_batch_update_blocks 的 elements（僅單一文字類 block） */
+    elements?: NonNullable<LarkTextContent["elements"]>;
+  }>;
+  removed: Array<{ block_id: string; index?: number; block_type: number }>;
+  /** after_block_id 為 null 表示新增於文件開頭 */
+  added: Array<{ after_block_id: string | null; after_index?: number; markdown: string }>;
+  unchanged_count: number;
+  /** 比對時的文件版本 */
+  revision_id?: number;
+}
+
 /**
  * Lark Block 類型定義
  */
@@ -49,6 +90,8 @@ export interface LarkBlock {
   block_type: number;
   parent_id?: string;
   children?: string[];
+  // Page (block_type 1) - 文件標題
+  page?: LarkTextContent;
   // 基本內容類型
   text?: LarkTextContent;
   heading1?: LarkTextContent;
@@ -90,6 +133,8 @@ export interface LarkBlock {
     row_size?: number;
     column_size?: number;
   };
+  // GridColumn (block_type 25) - 分欄寬度比例
+  grid_column?: { width_ratio?: number };
   // 媒體類型
   file?: { token?: string; name?: string };
   image?: { token?: string; width?: number; height?: number };
@@ -106,15 +151,25 @@ export interface LarkTextContent {
         strikethrough?: boolean;
         inline_code?: boolean;
         link?: { url?: string };
+        // 字體顏色（1-7）與背景色（1-15）
+        text_color?: number;
+        background_color?: number;
       };
     };
     equation?: { content: string };
     mention_user?: { user_id: string };
-    mention_doc?: { obj_type: number; token: string };
+    mention_doc?: { obj_type: number; token: string; url?: string; title?: string };
   }>;
   style?: {
     align?: number;
     folded?: boolean;
+    // Todo 完成狀態
+    done?: boolean;
+    // Code 語言與換行
+    language?: number;
+    wrap?: boolean;
+    // Ordered 編號（"1" 重新起算，"auto" 延續前一個列表）
+    sequence?: string;
   };
 }
 
@@ -0,0 +1,133 @@
+/**
+ * 文件區塊搜尋
+ * 依文件順序走訪整棵 block 樹（含巢狀列表、callout、表格 cell 與分欄內的 block），
+ * 回傳每個符合的 block 及其位置資訊：parent 鏈、最近的標題、前後文與比對位置
+ */
+
+import type { LarkBlock } from "../types.js";
+import { getTextContent } from "./markdown.js";
+import { elementsToText, findMatches } from "./text-elements.js";
+
+/**
+ * 前後文或 parent 鏈中的 block 摘要
+ */
+export interface BlockRef {
+  block_id: string;
+  block_type: number;
+  text?: string;
+}
+
+/**
+ * 單一符合的 block
+ */
+export interface BlockSearchResult {
+  block_id: string;
+  block_type: number;
+  /** 所屬根層級 block 在根節點 children 中的位置 */
+  index: number;
+  /** 從根層級 block 到直接 parent 的鏈（不含文件根節點），有文字的 parent 附上文字 */
+  parent_chain: BlockRef[];
+  /** 文件順序中最近的前一個標題（含 block 本身） */
+  heading?: { block_id: string; level: number; text: string };
+  /** block 完整文字（@提及、公式等非文字元素以 U+FFFC 表示，與 offset 對齊） */
+  text: string;
+  matches: Array<{ offset: number; length: number; match: string }>;
+  context_before?: BlockRef[];
+  context_after?: BlockRef[];
+}
+
+export interface BlockSearchOptions {
+  /** 前後各附帶幾個有文字的 block（預設 0） */
+  context?: number;
+  /** 最多回傳幾個 block（其餘只計入總數） */
+  limit?: number;
+}
+
+/**
+ * 文件順序中的 block 與其位置
+ */
+interface VisitedBlock {
+  block: LarkBlock;
+  index: number;
+  chain: BlockRef[];
+  text: string;
+}
+
+/**
+ * 依文件順序（深度優先）列出根節點底下所有 block
+ */
+function walkBlocks(blocks: LarkBlock[], rootBlockId: string): VisitedBlock[] {
+  const blockMap = new Map(blocks.map((b) => [b.block_id, b]));
+  const visited: VisitedBlock[] = [];
+
+  const visit = (id: string, index: number, chain: BlockRef[]) => {
+    const block = blockMap.get(id);
+    if (!block) return;
+    const elements = getTextContent(block)?.elements;
+    const text = elements ? elementsToText(elements) : "";
+    visited.push({ block, index, chain, text });
+
+    const childChain = [...chain, { block_id: block.block_id, block_type: block.block_type, ...(text ? { text } : {}) }];
+    for (const childId of block.children || []) visit(childId, index, childChain);
+  };
+
+  (blockMap.get(rootBlockId)?.children || []).forEach((id, index) => visit(id, index, []));
+  return visited;
+}
+
+function headingLevel(block: LarkBlock): number | undefined {
+  return block.block_type >= 3 && block.block_type <= 11 ? block.block_type - 2 : undefined;
+}
+
+/**
+ * 在文件 blocks 中搜尋符合 pattern 的 block（pattern 需為全域 RegExp）
+ */
+export function searchBlocks(
+  blocks: LarkBlock[],
+  rootBlockId: string,
+  pattern: RegExp,
+  options: BlockSearchOptions = {}
+): { total: number; results: BlockSearchResult[] } {
+  const visited = walkBlocks(blocks, rootBlockId);
+  // 前後文只計入有文字的 block，略過表格、cell、分欄等容器
+  const textual = visited.filter((v) => v.text !== "");
+  const textualIndex = new Map(textual.map((v, i) => [v.block.block_id, i]));
+  const context = options.context ?? 0;
+  const limit = options.limit ?? Infinity;
+
+  const toRef = (v: VisitedBlock): BlockRef => ({ block_id: v.block.block_id, block_type: v.block.block_type, text: v.text });
+
+  const results: BlockSearchResult[] = [];
+  let heading: BlockSearchResult["heading"];
+  let total = 0;
+
+  for (const entry of visited) {
+    const level = headingLevel(entry.block);
+    if (level) heading = { block_id: entry.block.block_id, level, text: entry.text };
+    if (!entry.text) continue;
+
+    const found = findMatches(entry.text, pattern);
+    if (found.length === 0) continue;
+    total++;
+    if (results.length >= limit) continue;
+
+    const position = textualIndex.get(entry.block.block_id)!;
+    results.push({
+      block_id: entry.block.block_id,
+      block_type: entry.block.block_type,
+      index: entry.index,
+      parent_chain: entry.chain,
+      ...(heading ? { heading } : {}),
+      text: entry.text,
+      matches: found.map((m) => ({ offset: m.index, length: m[0].length, match: m[0] })),
+      ...(context > 0
+        ? {
+            context_before: textual.slice(Math.max(0, position - context), position).map(toRef),
+            context_after: textual.slice(position + 1, position + 1 + context).map(toRef),
+          }
+        : {}),
+    });
+  }
+
+  return { total, results };
+}
@@ -0,0 +1,106 @@
+/**
+ * 多步驟編輯的快照與回滾
+ * 刪除前擷取受影響範圍的 block 子樹，後續插入失敗時移除已插入的部分，並以 insertBlockTrees 深度複製還原原本的內容
+ */
+
+import type { LarkBlock } from "../types.js";
+import {
+  getBlock,
+  deleteBlockRange,
+  collectBlockTree,
+  insertBlockTrees,
+  type BlockTree,
+} from "../services/lark-client.js";
+import { RollbackError } from "./errors.js";
+
+/**
+ * 某個 parent 底下一段 children 的快照
+ */
+export interface BlockSnapshot {
+  documentId: string;
+  parentId: string;
+  startIndex: number;
+  endIndex: number;
+  trees: BlockTree[];
+}
+
+/**
+ * 從 getDocumentBlocks 結果擷取 parent children [startIndex, endIndex) 的子樹
+ */
+export function captureSnapshot(
+  documentId: string,
+  blocks: LarkBlock[],
+  parentId: string,
+  startIndex: number,
+  endIndex: number
+): BlockSnapshot {
+  const blockMap = new Map(blocks.map((b) => [b.block_id, b]));
+  const siblings = blockMap.get(parentId)?.children || [];
+  if (endIndex > siblings.length) {
+    throw new Error(`Invalid range: parent block has ${siblings.length} children, but end_index is ${endIndex}`);
+  }
+
+  return {
+    documentId,
+    parentId,
+    startIndex,
+    endIndex,
+    trees: siblings.slice(startIndex, endIndex).map((id) => collectBlockTree(blockMap, id)),
+  };
+}
+
+async function countChildren(documentId: string, blockId: string): Promise<number> {
+  return (await getBlock(documentId, blockId)).children?.length ?? 0;
+}
+
+/**
+ * 刪除快照範圍後執行插入步驟，插入失敗時回滾並拋出 RollbackError
+ * - target：插入位置（以刪除後的索引計算），用來找出失敗前已插入的 blocks
+ * - insert 收到的 revisionId：範圍為空（未刪除）時為呼叫端的版本，否則為 -1
+ * 刪除本身（或刪除前的讀取）失敗時文件未變動，直接拋出原始錯誤
+ */
+export async function replaceWithRollback(
+  snapshot: BlockSnapshot,
+  target: { parentId: string; index: number },
+  insert: (revisionId: number) => Promise<void>,
+  revisionId = -1
+): Promise<void> {
+  const { documentId } = snapshot;
+
+  // 刪除前先取得插入位置 parent 的 children 數（讀取失敗時文件尚未變動），換算為刪除後的數量
+  const before = await countChildren(documentId, target.parentId);
+  const baseline = target.parentId === snapshot.parentId ? before - snapshot.trees.length : before;
+
+  if (snapshot.trees.length > 0) {
+    await deleteBlockRange(documentId, snapshot.parentId, snapshot.startIndex, snapshot.endIndex, revisionId);
+  }
+
+  try {
+    await insert(snapshot.trees.length > 0 ? -1 : revisionId);
+  } catch (err) {
+    throw await rollback(snapshot, target, baseline, err);
+  }
+}
+
+/**
+ * 移除部分插入的 blocks 並還原快照，回傳說明結果的 RollbackError
+ */
+async function rollback(
+  snapshot: BlockSnapshot,
+  target: { parentId: string; index: number },
+  baseline: number,
+  cause: unknown
+): Promise<RollbackError> {
+  const { documentId } = snapshot;
+
+  try {
+    const inserted = (await countChildren(documentId, target.parentId)) - baseline;
+    if (inserted > 0) {
+      await deleteBlockRange(documentId, target.parentId, target.index, target.index + inserted);
+    }
+    await insertBlockTrees(documentId, snapshot.parentId, snapshot.trees, snapshot.startIndex);
+    return new RollbackError(documentId, cause);
+  } catch (rollbackErr) {
+    return new RollbackError(documentId, cause, rollbackErr);
+  }
+}
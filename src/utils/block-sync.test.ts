@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import type { LarkBlock } from "../types.js";
+import { blocksToMarkdown, markdownToBlocks } from "./markdown.js";
+import { planBlockSync } from "./block-sync.js";
+
+const ROOT = "doc";
+
+/**
+ * 建立文件 blocks：根節點依序包含 children，extra 為非根層級的 blocks（例如 view 底下的 file）
+ */
+function page(children: LarkBlock[], extra: LarkBlock[] = []): LarkBlock[] {
+  const root: LarkBlock = { block_id: ROOT, block_type: 1, children: children.map((b) => b.block_id) } as LarkBlock;
+  return [root, ...children, ...extra];
+}
+
+function text(id: string, content: string, field = "text", blockType = 2): LarkBlock {
+  return {
+    block_id: id,
+    block_type: blockType,
+    parent_id: ROOT,
+    [field]: { elements: content ? [{ text_run: { content } }] : [], style: { align: 1, folded: false } },
+  } as unknown as LarkBlock;
+}
+
+async function planUnedited(blocks: LarkBlock[]) {
+  const markdown = await blocksToMarkdown(blocks, { resolveMentions: false });
+  return planBlockSync(blocks, ROOT, markdownToBlocks(markdown), { markdown: true });
+}
+
+function runs(id: string, elements: unknown[]): LarkBlock {
+  return { block_id: id, block_type: 2, parent_id: ROOT, text: { elements } } as unknown as LarkBlock;
+}
+
+describe("doc_read markdown → doc_sync round trip", () => {
+  test("adjacent paragraphs stay separate blocks", async () => {
+    const plan = await planUnedited(page([text("p1", "first para"), text("p2", "second para")]));
+    expect(plan.edits).toEqual([]);
+    expect(plan.unchanged_count).toBe(2);
+  });
+
+  test("headings, lists, empty paragraphs and code are unchanged", async () => {
+    const plan = await planUnedited(page([
+      text("h1", "Title", "heading1", 3),
+      text("e1", ""),
+      text("b1", "one", "bullet", 12),
+      { ...text("b2", "two", "bullet", 12), children: ["n1", "n2"] } as LarkBlock,
+      text("o1", "first", "ordered", 13),
+      text("p1", "after list"),
+      { block_id: "c1", block_type: 14, code: { elements: [{ text_run: { content: "a\n\nb" } }], style: { language: 1 } } } as unknown as LarkBlock,
+    ], [text("n1", "nested paragraph"), text("n2", "nested item", "bullet", 12)]));
+    expect(plan.edits).toEqual([]);
+  });
+
+  test("images, attachments and mentions map back to the original elements", async () => {
+    const mention = {
+      block_id: "m1",
+      block_type: 2,
+      text: {
+        elements: [
+          { text_run: { content: "ping " } },
+          { mention_user: { user_id: "ou_123" } },
+          { text_run: { content: " see " } },
+          { mention_doc: { token: "doxAbc", obj_type: 22, url: "https%3A%2F%2Fexample.com%2Fdocx%2FdoxAbc", title: "Spec" } },
+        ],
+      },
+    } as unknown as LarkBlock;
+    const image = { block_id: "i1", block_type: 27, image: { token: "imgTok", width: 800, height: 400, align: 2 } } as unknown as LarkBlock;
+    const view = { block_id: "v1", block_type: 33, view: { view_type: 1 }, children: ["f1"] } as unknown as LarkBlock;
+    const file = { block_id: "f1", block_type: 23, parent_id: "v1", file: { token: "fileTok", name: "log.txt" } } as unknown as LarkBlock;
+
+    const plan = await planUnedited(page([mention, image, view], [file]));
+    expect(plan.edits).toEqual([]);
+    expect(plan.unchanged_count).toBe(3);
+  });
+
+  test("an edited paragraph becomes a single in-place update", async () => {
+    const blocks = page([text("p1", "first para"), text("p2", "second para")]);
+    const markdown = (await blocksToMarkdown(blocks, { resolveMentions: false })).replace("second", "2nd");
+    const plan = planBlockSync(blocks, ROOT, markdownToBlocks(markdown), { markdown: true });
+    expect(plan.edits.map((e) => [e.op, e.block_id])).toEqual([["update", "p2"]]);
+  });
+
+  test("Markdown syntax characters in plain text are escaped", async () => {
+    const plan = await planUnedited(page([
+      text("p1", "2*3*4 = 24"),
+      text("p2", "# not a heading"),
+      text("p3", "- not a bullet"),
+      text("p4", "1. not a list"),
+      text("p5", "> not a quote"),
+      text("p6", "hello `code` [x](y) ~~z~~ $5 | a_b \\ <br> https://example.com"),
+      text("p7", "line one\nline two"),
+    ]));
+    expect(plan.edits).toEqual([]);
+    expect(plan.unchanged_count).toBe(7);
+  });
+
+  test("styled runs, including bold inline code and code with backticks, round-trip", async () => {
+    const plan = await planUnedited(page([
+      runs("s1", [
+        { text_run: { content: "bold ", text_element_style: { bold: true } } },
+        { text_run: { content: "code", text_element_style: { bold: true, inline_code: true } } },
+        { text_run: { content: " a`b ", text_element_style: { inline_code: true } } },
+        { text_run: { content: "link*", text_element_style: { italic: true, link: { url: "https%3A%2F%2Fexample.com%2Fa%20b" } } } },
+      ]),
+    ]));
+    expect(plan.edits).toEqual([]);
+  });
+
+  test("styles Markdown cannot express are kept when the text is unchanged", async () => {
+    const blocks = page([
+      runs("u1", [
+        { text_run: { content: "under", text_element_style: { underline: true, text_color: 3 } } },
+        { text_run: { content: " plain" } },
+      ]),
+      { ...text("c1", "centered"), text: { elements: [{ text_run: { content: "centered" } }], style: { align: 2 } } } as LarkBlock,
+    ]);
+    expect((await planUnedited(blocks)).edits).toEqual([]);
+
+    const markdown = (await blocksToMarkdown(blocks, { resolveMentions: false })).replace("plain", "edited");
+    const plan = planBlockSync(blocks, ROOT, markdownToBlocks(markdown), { markdown: true });
+    expect(plan.edits.map((e) => [e.op, e.block_id])).toEqual([["update", "u1"]]);
+  });
+
+  test("blocks Markdown cannot express are refused instead of replaced", async () => {
+    const grid = { block_id: "g1", block_type: 24, parent_id: ROOT, grid: { column_size: 1 }, children: ["gc1"] } as unknown as LarkBlock;
+    const column = { block_id: "gc1", block_type: 25, parent_id: "g1", grid_column: {}, children: ["gp1"] } as unknown as LarkBlock;
+    const blocks = page([text("p1", "intro"), grid], [column, { ...text("gp1", "in a column"), parent_id: "gc1" } as LarkBlock]);
+    await expect(planUnedited(blocks)).rejects.toThrow("Block g1 (block type 24) cannot be expressed in Markdown");
+  });
+});
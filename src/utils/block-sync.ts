@@ -0,0 +1,531 @@
+/**
+ * 文件差異同步
+ * 比對目前 block 樹與目標內容，產生最小編輯腳本（原地更新文字、插入、刪除、移動），只套用有變動的部分
+ */
+
+import type { LarkBlock, LarkTextContent } from "../types.js";
+import { batchUpdateBlocks, deleteBlockRange, insertBlocks } from "../services/lark-client.js";
+import { BATCH_UPDATE_LIMIT } from "../constants.js";
+import { decodeLinkUrl, MARKDOWN_TEXT_STYLES } from "./markdown.js";
+import { normalizeElements } from "./text-elements.js";
+
+type TextElement = NonNullable<LarkTextContent["elements"]>[number];
+type BlockInput = Record<string, unknown>;
+
+// 不屬於 block 內容的欄位
+const META_KEYS = new Set(["block_id", "block_type", "parent_id", "children", "comment_ids", "_children", "_cellContents"]);
+
+// 可原地同步子節點的容器類型（Callout、Quote container）；文字類 block 亦可
+const CONTAINER_TYPES = new Set([19, 34]);
+
+// 配對動態規劃表的大小上限（超過時前後綴以外的區間全部重建）
+const MAX_LCS_CELLS = 4_000_000;
+
+// Markdown 能表達的 block 類型（markdownToBlocks 的輸出）；其他類型（Callout、分欄、嵌入表格等）匯出後無法原樣轉回
+const MARKDOWN_BLOCK_TYPES = new Set([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 17, 22, 23, 27, 31, 34]);
+
+// Markdown 能表達的 block 樣式：待辦勾選與程式碼語言
+const MARKDOWN_BLOCK_STYLES = ["done", "language"];
+const EMPHASIS_STYLES = new Set(["bold", "italic", "strikethrough"]);
+
+/**
+ * 編輯腳本項目
+ */
+export interface SyncEdit {
+  op: "update" | "insert" | "delete" | "move";
+  parent_block_id: string;
+  block_type: number;
+  block_id?: string;
+  /** update/delete/move：原位置；insert：同步後的位置 */
+  index: number;
+  /** move：目標 parent 與同步後的位置 */
+  to_parent_block_id?: string;
+  to_index?: number;
+  text?: string;
+}
+
+// 規劃階段的編輯項目（附內容簽章以偵測移動）
+type PlannedEdit = SyncEdit & { key?: string };
+
+export interface SyncPlan {
+  edits: SyncEdit[];
+  unchanged_count: number;
+  updates: Array<{ block_id: string; update_text_elements: { elements: Array<Record<string, unknown>> } }>;
+  deletions: Map<string, number[]>;
+  insertions: Map<string, Array<{ index: number; block: BlockInput }>>;
+}
+
+/**
+ * 比對用節點（目前 block 與目標 block 共用）
+ */
+interface SyncNode {
+  blockType: number;
+  /** 完整簽章：類型、內容與子節點皆相同才視為未變動 */
+  key: string;
+  /** 可原地更新的簽章（類型與樣式），文字與子節點不同時仍可沿用同一個 block */
+  headKey: string | null;
+  textKey: string | null;
+  elements?: TextElement[];
+  children: SyncNode[];
+  text: string;
+  blockId?: string;
+  source?: BlockInput;
+  /** 子樹內所有 block 都能以 Markdown 表達 */
+  markdown: boolean;
+}
+
+/**
+ * 同步選項
+ */
+export interface SyncOptions {
+  /** 目標內容由 Markdown 轉換：只比對 Markdown 能表達的樣式，並拒絕刪除 Markdown 無法表達的 block */
+  markdown?: boolean;
+}
+
+function isEmptyObject(value: unknown): boolean {
+  return !!value && typeof value === "object" && !Array.isArray(value) && Object.keys(value).length === 0;
+}
+
+/**
+ * 正規化比對值：移除 false / 空值 / 空物件、預設對齊，物件 key 排序，連結 URL 解碼
+ */
+function canonical(value: unknown, key?: string): unknown {
+  if (Array.isArray(value)) return value.map((v) => canonical(v));
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    // 文件連結只比對目標文件（url、title 由 API 補上，Markdown 佔位連結不含）
+    const keys = key === "mention_doc" ? ["obj_type", "text_element_style", "token"] : Object.keys(value).sort();
+    for (const k of keys) {
+      const v = (value as Record<string, unknown>)[k];
+      if (v === false || v === null || v === undefined) continue;
+      if (k === "align" && v === 1) continue;
+      const normalized = canonical(v, k);
+      if (isEmptyObject(normalized)) continue;
+      result[k] = normalized;
+    }
+    return result;
+  }
+  if (key === "url" && typeof value === "string") return decodeLinkUrl(value);
+  return value;
+}
+
+function pickKeys(value: Record<string, unknown>, keys: readonly string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.filter((k) => k in value).map((k) => [k, value[k]]));
+}
+
+/**
+ * 只保留 Markdown 能表達的文字樣式；強調樣式在前後空白上無法表達（匯出時移到符號外），一併移除
+ */
+function markdownElements(elements: TextElement[]): TextElement[] {
+  return elements.flatMap((el) => {
+    if (!el.text_run) return [el];
+    const style = pickKeys(el.text_run.text_element_style || {}, MARKDOWN_TEXT_STYLES);
+    if (style.inline_code) return [{ text_run: { content: el.text_run.content, text_element_style: style } }];
+
+    const outer = Object.fromEntries(Object.entries(style).filter(([k]) => !EMPHASIS_STYLES.has(k)));
+    const [, leading, core, trailing] = el.text_run.content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return [
+      { text_run: { content: leading, text_element_style: outer } },
+      { text_run: { content: core, text_element_style: style } },
+      { text_run: { content: trailing, text_element_style: outer } },
+    ].filter((run) => run.text_run.content);
+  });
+}
+
+function payloadKey(block: BlockInput): string | undefined {
+  return Object.keys(block).find((k) => !META_KEYS.has(k));
+}
+
+function plainText(elements?: TextElement[]): string {
+  const text = (elements || []).map((el) => el.text_run?.content ?? "").join("");
+  return text.length > 50 ? text.slice(0, 50) + "..." : text;
+}
+
+/**
+ * 建立比對節點（cellChildren 為表格各 cell 的子節點）
+ */
+function buildNode(
+  block: BlockInput,
+  children: SyncNode[],
+  options: SyncOptions,
+  cellChildren?: SyncNode[][]
+): SyncNode {
+  const blockType = block.block_type as number;
+  const field = payloadKey(block);
+  const payload = (field ? block[field] : undefined) as Record<string, unknown> | undefined;
+  const childKeys = children.map((c) => c.key);
+  // 表格 cell 匯出為單行文字，只有單一段落的 cell 能原樣轉回
+  const markdown = MARKDOWN_BLOCK_TYPES.has(blockType) &&
+    children.every((c) => c.markdown) &&
+    (cellChildren || []).every((cell) => cell.length <= 1 && cell.every((c) => c.blockType === 2 && c.markdown));
+
+  // 圖片與附件：只比對素材 token（尺寸、檔名等屬性不影響）
+  if (blockType === 27 || blockType === 23) {
+    const key = JSON.stringify({ t: blockType, token: payload?.token });
+    return { blockType, key, headKey: null, textKey: null, children: [], text: "", markdown };
+  }
+
+  // 表格：比對列數、欄數與 cell 內容（欄寬等屬性不影響）
+  if (blockType === 31) {
+    const property = (payload?.property || {}) as { row_size?: number; column_size?: number };
+    const key = JSON.stringify({
+      t: blockType,
+      rows: property.row_size,
+      cols: property.column_size,
+      cells: (cellChildren || []).map((cell) => cell.map((c) => c.key)),
+    });
+    return { blockType, key, headKey: null, textKey: null, children: [], text: "", markdown };
+  }
+
+  if (payload && Array.isArray(payload.elements)) {
+    const { elements, ...rest } = payload as { elements: TextElement[] } & Record<string, unknown>;
+    // Markdown 無法表達的樣式（底線、顏色、對齊等）不視為差異，文字未變動時保留原樣
+    const normalized = normalizeElements(options.markdown ? markdownElements(elements) : elements);
+    const style = options.markdown
+      ? { style: pickKeys((rest.style || {}) as Record<string, unknown>, MARKDOWN_BLOCK_STYLES) }
+      : rest;
+    const headKey = JSON.stringify({ t: blockType, field, style: canonical(style) });
+    const textKey = JSON.stringify(canonical(normalized));
+    return {
+      blockType,
+      key: JSON.stringify({ h: headKey, x: textKey, c: childKeys }),
+      headKey,
+      textKey,
+      elements,
+      children,
+      text: plainText(elements),
+      markdown,
+    };
+  }
+
+  const headKey = JSON.stringify({ t: blockType, field, p: canonical(payload) });
+  return {
+    blockType,
+    key: JSON.stringify({ h: headKey, c: childKeys }),
+    headKey: CONTAINER_TYPES.has(blockType) ? headKey : null,
+    textKey: null,
+    children,
+    text: "",
+    markdown,
+  };
+}
+
+function currentNode(blockId: string, blockMap: Map<string, LarkBlock>, options: SyncOptions): SyncNode | null {
+  const block = blockMap.get(blockId);
+  if (!block) return null;
+
+  // 附件：API 會包上一層 view block，以內層 file block 比對、以 view block 刪除或移動
+  const file = block.block_type === 33 && block.children?.length === 1 ? blockMap.get(block.children[0]) : undefined;
+  if (file?.block_type === 23) {
+    const node = buildNode(file as unknown as BlockInput, [], options);
+    node.blockId = blockId;
+    return node;
+  }
+
+  const childNodes = (ids?: string[]) =>
+    (ids || []).map((id) => currentNode(id, blockMap, options)).filter((n): n is SyncNode => !!n);
+
+  const cellChildren = block.block_type === 31
+    ? (block.table?.cells || []).map((cellId) => childNodes(blockMap.get(cellId)?.children))
+    : undefined;
+  const node = buildNode(
+    block as unknown as BlockInput,
+    block.block_type === 31 ? [] : childNodes(block.children),
+    options,
+    cellChildren
+  );
+  node.blockId = blockId;
+  return node;
+}
+
+function desiredNode(block: BlockInput, options: SyncOptions): SyncNode {
+  const childNodes = ((block._children as BlockInput[] | undefined) || []).map((child) => desiredNode(child, options));
+  const cellChildren = block.block_type === 31
+    ? ((block._cellContents as LarkTextContent[] | undefined) || []).map((content) => [
+        desiredNode({ block_type: 2, text: content }, options),
+      ])
+    : undefined;
+  const node = buildNode(block, childNodes, options, cellChildren);
+  node.source = block;
+  return node;
+}
+
+/**
+ * 配對分數：內容完全相同 2 分；類型與樣式相同（可原地更新）1 分；否則不可配對
+ */
+function pairScore(a: SyncNode, b: SyncNode): number {
+  if (a.key === b.key) return 2;
+  if (a.headKey !== null && a.headKey === b.headKey) return 1;
+  return 0;
+}
+
+/**
+ * 依序配對目前與目標子節點（加權最長共同子序列），回傳配對的 [current 索引, desired 索引]
+ */
+function alignNodes(current: SyncNode[], desired: SyncNode[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+
+  // 共同前綴/後綴先配對，縮小 DP 範圍
+  let start = 0;
+  while (start < current.length && start < desired.length && current[start].key === desired[start].key) {
+    pairs.push([start, start]);
+    start++;
+  }
+  let endA = current.length;
+  let endB = desired.length;
+  const suffix: Array<[number, number]> = [];
+  while (endA > start && endB > start && current[endA - 1].key === desired[endB - 1].key) {
+    endA--;
+    endB--;
+    suffix.unshift([endA, endB]);
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n > 0 && m > 0 && (n + 1) * (m + 1) <= MAX_LCS_CELLS) {
+    const width = m + 1;
+    const table = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        const score = pairScore(current[start + i], desired[start + j]);
+        table[i * width + j] = Math.max(
+          score > 0 ? table[(i + 1) * width + j + 1] + score : 0,
+          table[(i + 1) * width + j],
+          table[i * width + j + 1]
+        );
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      const score = pairScore(current[start + i], desired[start + j]);
+      if (score > 0 && table[i * width + j] === table[(i + 1) * width + j + 1] + score) {
+        pairs.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  return [...pairs, ...suffix];
+}
+
+/**
+ * 比對同一個 parent 底下的子節點
+ * 配對的 block 原地更新文字並遞迴同步子節點，未配對者刪除或插入
+ */
+function planChildren(
+  parentId: string,
+  current: SyncNode[],
+  desired: SyncNode[],
+  plan: SyncPlan,
+  edits: PlannedEdit[],
+  options: SyncOptions
+): void {
+  const pairs = alignNodes(current, desired);
+  const pairedA = new Set(pairs.map(([i]) => i));
+  const pairedB = new Set(pairs.map(([, j]) => j));
+
+  for (const [i, j] of pairs) {
+    const cur = current[i];
+    const des = desired[j];
+    if (cur.key === des.key) {
+      plan.unchanged_count++;
+      continue;
+    }
+
+    if (cur.textKey !== des.textKey) {
+      // update_text_elements 不接受空陣列
+      const elements = des.elements && des.elements.length > 0 ? des.elements : [{ text_run: { content: "" } }];
+      plan.updates.push({
+        block_id: cur.blockId!,
+        update_text_elements: { elements: elements as Array<Record<string, unknown>> },
+      });
+      edits.push({
+        op: "update",
+        parent_block_id: parentId,
+        block_id: cur.blockId,
+        block_type: cur.blockType,
+        index: i,
+        text: des.text,
+      });
+    } else {
+      plan.unchanged_count++;
+    }
+    planChildren(cur.blockId!, cur.children, des.children, plan, edits, options);
+  }
+
+  current.forEach((node, i) => {
+    if (pairedA.has(i)) return;
+    if (options.markdown && !node.markdown) {
+      // 匯出的 Markdown 無法轉回這類 block，同步會刪除後插入近似內容（或直接刪除），不可還原
+      throw new Error(
+        `Block ${node.blockId} (block type ${findUnrepresentable(node).blockType}) cannot be expressed in Markdown; ` +
+        "syncing Markdown would delete or replace it"
+      );
+    }
+    plan.deletions.set(parentId, [...(plan.deletions.get(parentId) || []), i]);
+    edits.push({
+      op: "delete",
+      parent_block_id: parentId,
+      block_id: node.blockId,
+      block_type: node.blockType,
+      index: i,
+      text: node.text || undefined,
+      key: node.key,
+    });
+  });
+
+  desired.forEach((node, j) => {
+    if (pairedB.has(j)) return;
+    plan.insertions.set(parentId, [...(plan.insertions.get(parentId) || []), { index: j, block: node.source! }]);
+    edits.push({
+      op: "insert",
+      parent_block_id: parentId,
+      block_type: node.blockType,
+      index: j,
+      text: node.text || undefined,
+      key: node.key,
+    });
+  });
+}
+
+/**
+ * 子樹中最上層的 Markdown 無法表達的 block（子節點都能表達時為節點本身，例如含多段落 cell 的表格）
+ */
+function findUnrepresentable(node: SyncNode): SyncNode {
+  if (!MARKDOWN_BLOCK_TYPES.has(node.blockType)) return node;
+  const child = node.children.find((c) => !c.markdown);
+  return child ? findUnrepresentable(child) : node;
+}
+
+/**
+ * 將內容相同的刪除與插入合併為移動（套用時仍為刪除 + 插入）
+ */
+function detectMoves(edits: PlannedEdit[]): SyncEdit[] {
+  const inserts = new Map<string, PlannedEdit[]>();
+  for (const edit of edits) {
+    if (edit.op === "insert" && edit.key) {
+      inserts.set(edit.key, [...(inserts.get(edit.key) || []), edit]);
+    }
+  }
+
+  const consumed = new Set<PlannedEdit>();
+  const result: PlannedEdit[] = [];
+  for (const edit of edits) {
+    if (edit.op === "delete" && edit.key) {
+      const target = inserts.get(edit.key)?.find((e) => !consumed.has(e));
+      if (target) {
+        consumed.add(target);
+        result.push({
+          op: "move",
+          parent_block_id: edit.parent_block_id,
+          block_id: edit.block_id,
+          block_type: edit.block_type,
+          index: edit.index,
+          to_parent_block_id: target.parent_block_id,
+          to_index: target.index,
+          text: edit.text,
+        });
+        continue;
+      }
+    }
+    result.push(edit);
+  }
+
+  return result
+    .filter((edit) => !consumed.has(edit))
+    .map(({ key: _key, ...edit }) => edit);
+}
+
+/**
+ * 計算同步計畫
+ * @param blocks 目前文件的所有 blocks（getDocumentBlocks）
+ * @param rootBlockId 同步範圍的根節點（文件根節點）
+ * @param desired 目標 blocks（可含 _children / _cellContents）
+ * @throws 目標來自 Markdown 且計畫會刪除 Markdown 無法表達的 block 時
+ */
+export function planBlockSync(
+  blocks: LarkBlock[],
+  rootBlockId: string,
+  desired: BlockInput[],
+  options: SyncOptions = {}
+): SyncPlan {
+  const blockMap = new Map(blocks.map((b) => [b.block_id, b]));
+  const root = blockMap.get(rootBlockId);
+  const current = (root?.children || [])
+    .map((id) => currentNode(id, blockMap, options))
+    .filter((n): n is SyncNode => !!n);
+
+  const plan: SyncPlan = {
+    edits: [],
+    unchanged_count: 0,
+    updates: [],
+    deletions: new Map(),
+    insertions: new Map(),
+  };
+  const edits: PlannedEdit[] = [];
+  planChildren(rootBlockId, current, desired.map((block) => desiredNode(block, options)), plan, edits, options);
+  plan.edits = detectMoves(edits);
+
+  return plan;
+}
+
+/**
+ * 套用同步計畫
+ * 1. 批次原地更新文字（block ID 不變）
+ * 2. 各 parent 由後往前刪除（連續範圍合併為一次呼叫）
+ * 3. 各 parent 由前往後插入（連續位置合併為一次呼叫）
+ * revisionId 只帶入第一個寫入請求
+ */
+export async function applyBlockSync(documentId: string, plan: SyncPlan, revisionId = -1): Promise<void> {
+  let pendingRevision = revisionId;
+  const takeRevision = () => {
+    const revision = pendingRevision;
+    pendingRevision = -1;
+    return revision;
+  };
+
+  for (let i = 0; i < plan.updates.length; i += BATCH_UPDATE_LIMIT) {
+    await batchUpdateBlocks(documentId, plan.updates.slice(i, i + BATCH_UPDATE_LIMIT), takeRevision());
+  }
+
+  for (const [parentId, indices] of plan.deletions) {
+    const sorted = [...indices].sort((a, b) => b - a);
+    let k = 0;
+    while (k < sorted.length) {
+      const end = sorted[k] + 1;
+      let start = sorted[k];
+      while (k + 1 < sorted.length && sorted[k + 1] === start - 1) {
+        start = sorted[++k];
+      }
+      await deleteBlockRange(documentId, parentId, start, end, takeRevision());
+      k++;
+    }
+  }
+
+  for (const [parentId, items] of plan.insertions) {
+    const sorted = [...items].sort((a, b) => a.index - b.index);
+    let k = 0;
+    while (k < sorted.length) {
+      const run = [sorted[k]];
+      while (k + 1 < sorted.length && sorted[k + 1].index === run[run.length - 1].index + 1) {
+        run.push(sorted[++k]);
+      }
+      await insertBlocks(documentId, parentId, run.map((item) => item.block), run[0].index, takeRevision());
+      k++;
+    }
+  }
+}
+
+/**
+ * 編輯腳本摘要
+ */
+export function summarizeSync(plan: SyncPlan): string {
+  const count = (op: SyncEdit["op"]) => plan.edits.filter((e) => e.op === op).length;
+  return `${count("update")} updated, ${count("insert")} inserted, ${count("delete")} deleted, ${count("move")} moved, ${plan.unchanged_count} unchanged`;
+}
@@ -0,0 +1,245 @@
+/**
+ * 跨文件全文搜尋
+ * 先走訪資料夾或 Wiki 節點子樹收集 docx 文件（廣度優先，受深度與文件數上限限制），
+ * 再逐一讀取文件 blocks 搜尋內文；所有請求都經過全域 rate limiter，逐份文件依序進行
+ */
+
+import { getDocumentBlocks, getDocumentRootBlockId, getWikiNode, listFolderFiles, listWikiNodes } from "../services/lark-client.js";
+import { DOC_URL, WIKI_URL } from "../constants.js";
+import { searchBlocks } from "./block-search.js";
+
+// 片段在比對前後各保留的字元數
+const SNIPPET_RADIUS = 40;
+
+/**
+ * 搜尋起點（三者擇一）
+ */
+export interface ContentSearchRoot {
+  folderToken?: string;
+  wikiToken?: string;
+  spaceId?: string;
+}
+
+export interface ContentSearchOptions {
+  /** 往下走訪的層數：0 只搜尋起點資料夾內的文件 / 起點節點本身 / 空間根節點 */
+  maxDepth: number;
+  /** 最多讀取幾份文件 */
+  maxDocuments: number;
+  /** 每份文件最多回傳幾個符合的 block */
+  maxMatchesPerDocument: number;
+  /** 每讀完一份文件呼叫一次 */
+  onProgress?: (progress: { scanned: number; total: number; title: string }) => Promise<void> | void;
+}
+
+/**
+ * 走訪得到的文件
+ */
+interface CrawledDocument {
+  documentId: string;
+  title: string;
+  url: string;
+  wikiToken?: string;
+  /** 上層資料夾或節點標題 */
+  path: string[];
+}
+
+/**
+ * 文件中的單一符合 block
+ */
+export interface ContentMatch {
+  block_id: string;
+  block_type: number;
+  heading?: string;
+  heading_block_id?: string;
+  /** 比對前後的文字，比對處以 [] 標示 */
+  snippet: string;
+  offset: number;
+}
+
+export interface ContentSearchDocument {
+  title: string;
+  document_id: string;
+  url: string;
+  wiki_token?: string;
+  path: string;
+  /** 符合的 block 總數（含超過上限未回傳的） */
+  match_count: number;
+  matches: ContentMatch[];
+}
+
+export interface ContentSearchResult {
+  scanned_documents: number;
+  /** 非 docx 而略過的檔案或節點數 */
+  skipped: number;
+  /** 達到文件數或深度上限而未走訪完整個範圍 */
+  truncated: boolean;
+  errors: Array<{ title: string; token: string; message: string }>;
+  documents: ContentSearchDocument[];
+}
+
+type CrawlEntry =
+  | { kind: "folder"; token: string; depth: number; path: string[] }
+  | { kind: "wiki"; spaceId: string; parentNodeToken?: string; depth: number; path: string[] };
+
+/**
+ * 廣度優先收集 docx 文件
+ */
+async function collectDocuments(
+  root: ContentSearchRoot,
+  options: ContentSearchOptions,
+  result: ContentSearchResult
+): Promise<CrawledDocument[]> {
+  const documents: CrawledDocument[] = [];
+  const queue: CrawlEntry[] = [];
+  // 達到文件數上限才停止走訪；超過深度上限只略過該子樹，其餘已排入的資料夾 / 節點照常走訪
+  let limitReached = false;
+
+  // 回傳 false 表示已達文件數上限
+  const addDocument = (document: CrawledDocument): boolean => {
+    if (documents.length >= options.maxDocuments) {
+      result.truncated = true;
+      limitReached = true;
+      return false;
+    }
+    documents.push(document);
+    return true;
+  };
+
+  const enqueue = (entry: CrawlEntry) => {
+    if (entry.depth > options.maxDepth) {
+      result.truncated = true;
+      return;
+    }
+    queue.push(entry);
+  };
+
+  if (root.folderToken) {
+    queue.push({ kind: "folder", token: root.folderToken, depth: 0, path: [] });
+  } else if (root.wikiToken) {
+    const node = await getWikiNode(root.wikiToken);
+    const title = node.title || "(untitled)";
+    if (node.objType === "docx") {
+      addDocument({ documentId: node.objToken, title, url: WIKI_URL(root.wikiToken), wikiToken: root.wikiToken, path: [] });
+    } else {
+      result.skipped++;
+    }
+    if (node.hasChild !== false) {
+      enqueue({ kind: "wiki", spaceId: node.spaceId, parentNodeToken: root.wikiToken, depth: 1, path: [title] });
+    }
+  } else if (root.spaceId) {
+    queue.push({ kind: "wiki", spaceId: root.spaceId, depth: 0, path: [] });
+  }
+
+  while (queue.length > 0 && !limitReached) {
+    const entry = queue.shift()!;
+
+    if (entry.kind === "folder") {
+      let files: Awaited<ReturnType<typeof listFolderFiles>>;
+      try {
+        files = await listFolderFiles(entry.token);
+      } catch (err) {
+        result.errors.push({
+          title: entry.path.join(" / ") || "(root folder)",
+          token: entry.token,
+          message: err instanceof Error ? err.message : String(err),
+        });
+        continue;
+      }
+      for (const file of files) {
+        if (file.type === "folder") {
+          enqueue({ kind: "folder", token: file.token, depth: entry.depth + 1, path: [...entry.path, file.name] });
+        } else if (file.type === "docx") {
+          if (!addDocument({ documentId: file.token, title: file.name, url: DOC_URL(file.token), path: entry.path })) break;
+        } else {
+          result.skipped++;
+        }
+      }
+      continue;
+    }
+
+    let nodes: Awaited<ReturnType<typeof listWikiNodes>>;
+    try {
+      nodes = await listWikiNodes(entry.spaceId, entry.parentNodeToken);
+    } catch (err) {
+      result.errors.push({
+        title: entry.path.join(" / ") || "(space root)",
+        token: entry.parentNodeToken || entry.spaceId,
+        message: err instanceof Error ? err.message : String(err),
+      });
+      continue;
+    }
+    for (const node of nodes) {
+      if (node.objType === "docx") {
+        const added = addDocument({
+          documentId: node.objToken,
+          title: node.title,
+          url: WIKI_URL(node.nodeToken),
+          wikiToken: node.nodeToken,
+          path: entry.path,
+        });
+        if (!added) break;
+      } else {
+        result.skipped++;
+      }
+      if (node.hasChild) {
+        enqueue({ kind: "wiki", spaceId: entry.spaceId, parentNodeToken: node.nodeToken, depth: entry.depth + 1, path: [...entry.path, node.title] });
+      }
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * 在資料夾或 Wiki 子樹的所有 docx 文件中搜尋內文（pattern 需為全域 RegExp）
+ * 單份文件讀取失敗時記錄在 errors 並繼續
+ */
+export async function searchContent(
+  root: ContentSearchRoot,
+  pattern: RegExp,
+  options: ContentSearchOptions
+): Promise<ContentSearchResult> {
+  const result: ContentSearchResult = { scanned_documents: 0, skipped: 0, truncated: false, errors: [], documents: [] };
+  const documents = await collectDocuments(root, options, result);
+
+  for (const document of documents) {
+    try {
+      const rootBlockId = await getDocumentRootBlockId(document.documentId);
+      const blocks = await getDocumentBlocks(document.documentId);
+      const { total, results } = searchBlocks(blocks, rootBlockId, pattern, { limit: options.maxMatchesPerDocument });
+      if (total > 0) {
+        result.documents.push({
+          title: document.title,
+          document_id: document.documentId,
+          url: document.url,
+          ...(document.wikiToken ? { wiki_token: document.wikiToken } : {}),
+          path: document.path.join(" / "),
+          match_count: total,
+          matches: results.map((r) => {
+            const first = r.matches[0];
+            const before = r.text.slice(Math.max(0, first.offset - SNIPPET_RADIUS), first.offset);
+            const after = r.text.slice(first.offset + first.length, first.offset + first.length + SNIPPET_RADIUS);
+            return {
+              block_id: r.block_id,
+              block_type: r.block_type,
+              ...(r.heading ? { heading: r.heading.text, heading_block_id: r.heading.block_id } : {}),
+              snippet: `${before}[${first.match}]${after}`,
+              offset: first.offset,
+            };
+          }),
+        });
+      }
+    } catch (err) {
+      result.errors.push({
+        title: document.title,
+        token: document.documentId,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    result.scanned_documents++;
+    await options.onProgress?.({ scanned: result.scanned_documents, total: documents.length, title: document.title });
+  }
+
+  return result;
+}
@@ -149,3 +149,113 @@ export function formatLarkError(error: LarkError): string {
 
   return lines.join("\n");
 }
+
+/**
+ * 文件版本衝突：寫入時指定的 expected_revision 與文件目前版本不符
+ */
+export class RevisionConflictError extends Error {
+  readonly documentId: string;
+  readonly expectedRevision: number;
+  readonly currentRevision: number;
+  readonly lastModifiedBy?: string;
+  readonly lastModifiedAt?: string;
+
+  constructor(
+    documentId: string,
+    expectedRevision: number,
+    currentRevision: number,
+    lastModified: { by?: string; at?: string } = {}
+  ) {
+    super(
+      expectedRevision > currentRevision
+        ? `Revision ${expectedRevision} does not exist (document ${documentId} is at revision ${currentRevision})`
+        : `Document ${documentId} has changed since revision ${expectedRevision} (now at revision ${currentRevision})`
+    );
+    this.name = "RevisionConflictError";
+    this.documentId = documentId;
+    this.expectedRevision = expectedRevision;
+    this.currentRevision = currentRevision;
+    this.lastModifiedBy = lastModified.by;
+    this.lastModifiedAt = lastModified.at;
+  }
+}
+
+/**
+ * 格式化版本衝突錯誤，說明呼叫端版本之後發生的變更
+ */
+export function formatRevisionConflict(error: RevisionConflictError): string {
+  const lines: string[] = [
+    `**Description**: Document revision conflict`,
+    `**Message**: ${error.message}`,
+    `**Expected Revision**: ${error.expectedRevision}`,
+    `**Current Revision**: ${error.currentRevision}`,
+  ];
+
+  if (error.currentRevision > error.expectedRevision) {
+    lines.push(`**Changes Since**: ${error.currentRevision - error.expectedRevision} revision(s)`);
+  }
+  if (error.lastModifiedBy) {
+    lines.push(`**Last Modified By**: ${error.lastModifiedBy}`);
+  }
+  if (error.lastModifiedAt) {
+    lines.push(`**Last Modified At**: ${error.lastModifiedAt}`);
+  }
+
+  lines.push(
+    `**Suggestion**: Re-read the document (doc_read / wiki_read) to get the latest content and revision, re-apply your edit, then retry with the new expected_revision.`
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * 多步驟編輯失敗：刪除後的插入步驟出錯，已嘗試以快照還原被刪除的內容
+ */
+export class RollbackError extends Error {
+  readonly documentId: string;
+  readonly cause: unknown;
+  readonly rolledBack: boolean;
+  readonly rollbackError?: unknown;
+
+  constructor(documentId: string, cause: unknown, rollbackError?: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      rollbackError === undefined
+        ? `Edit failed and was rolled back: ${reason}`
+        : `Edit failed and rollback also failed: ${reason}`
+    );
+    this.name = "RollbackError";
+    this.documentId = documentId;
+    this.cause = cause;
+    this.rolledBack = rollbackError === undefined;
+    this.rollbackError = rollbackError;
+  }
+}
+
+/**
+ * 格式化回滾錯誤，說明原始錯誤與還原結果
+ */
+export function formatRollbackError(error: RollbackError): string {
+  const lines: string[] = [
+    `**Description**: Multi-step edit failed after deleting the original blocks`,
+    `**Rollback**: ${error.rolledBack ? "succeeded (original content restored with new block IDs)" : "FAILED (document may be missing content)"}`,
+  ];
+
+  if (error.cause instanceof LarkError) {
+    lines.push(`**Cause**:`, formatLarkError(error.cause));
+  } else {
+    lines.push(`**Cause**: ${error.cause instanceof Error ? error.cause.message : String(error.cause)}`);
+  }
+
+  if (!error.rolledBack) {
+    const reason = error.rollbackError instanceof Error ? error.rollbackError.message : String(error.rollbackError);
+    lines.push(
+      `**Rollback Error**: ${reason}`,
+      `**Suggestion**: Check the document with doc_read and restore the missing content manually (the document version history also keeps the previous content).`
+    );
+  } else {
+    lines.push(`**Suggestion**: Re-read the document to get the new block IDs, fix the cause (e.g. invalid block JSON) and retry.`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,524 @@
+/**
+ * Lark Block → HTML 轉換工具
+ * 用於匯出保留樣式的 HTML（標題、Callout 底色、合併儲存格、文字顏色等），可將圖片內嵌為 data URI 產生單一檔案
+ */
+
+import type { LarkBlock, LarkTextContent } from "../types.js";
+import {
+  downloadMedia,
+  parseSheetToken,
+  getBitableFields,
+  getBitableRecords,
+  formatBitableValue,
+} from "../services/lark-client.js";
+import {
+  type MentionNames,
+  createMentionNames,
+  resolveMentionNames,
+  getMentionUserName,
+  getMentionDocTitle,
+  getMentionDocUrl,
+  decodeLinkUrl,
+  getTextContent,
+  getLanguageName,
+  findRootBlockIds,
+} from "./markdown.js";
+
+export interface HtmlRenderOptions {
+  /** 下載圖片並以 data URI 內嵌（預設 false，保留 lark://image 佔位連結） */
+  inlineImages?: boolean;
+  /** 將 @提及解析為用戶名稱、文件連結解析為標題（預設 true） */
+  resolveMentions?: boolean;
+  /** 輸出含 <head> 與樣式的完整 HTML 文件（預設 true；false 只輸出內容片段） */
+  standalone?: boolean;
+}
+
+interface HtmlContext {
+  blockMap: Map<string, LarkBlock>;
+  mentions?: MentionNames;
+  /** 圖片 token → src（內嵌時為 data URI） */
+  images: Map<string, string>;
+}
+
+/**
+ * 字體顏色（text_element_style.text_color 1-7）
+ */
+const FONT_COLORS: Record<number, string> = {
+  1: "#d83931", // 紅
+  2: "#de7802", // 橙
+  3: "#dc9b04", // 黃
+  4: "#2ea121", // 綠
+  5: "#245bdb", // 藍
+  6: "#6425d0", // 紫
+  7: "#8f959e", // 灰
+};
+
+/**
+ * 背景色（text_element_style.background_color、callout.background_color 1-15）
+ */
+const BACKGROUND_COLORS: Record<number, string> = {
+  1: "#fef1f1", // 淺紅
+  2: "#fef5e7", // 淺橙
+  3: "#fefbe5", // 淺黃
+  4: "#effaee", // 淺綠
+  5: "#f0f4ff", // 淺藍
+  6: "#f6f1fe", // 淺紫
+  7: "#f2f3f5", // 淺灰
+  8: "#fbbfbc", // 紅
+  9: "#fed4a4", // 橙
+  10: "#f8e6ab", // 黃
+  11: "#b7edb1", // 綠
+  12: "#bacefd", // 藍
+  13: "#cdb2fa", // 紫
+  14: "#dee0e3", // 灰
+  15: "#f5f6f7", // 淺灰白
+};
+
+/**
+ * Callout emoji_id 對照（未列出者使用 💡）
+ */
+const CALLOUT_EMOJIS: Record<string, string> = {
+  bulb: "💡",
+  warning: "⚠️",
+  exclamation: "❗",
+  question: "❓",
+  information_source: "ℹ️",
+  white_check_mark: "✅",
+  heavy_check_mark: "✔️",
+  x: "❌",
+  no_entry: "⛔",
+  star: "⭐",
+  fire: "🔥",
+  memo: "📝",
+  pushpin: "📌",
+  round_pushpin: "📍",
+  bookmark: "🔖",
+  link: "🔗",
+  calendar: "📅",
+  lock: "🔒",
+  key: "🔑",
+  rocket: "🚀",
+  tada: "🎉",
+  thumbsup: "👍",
+  eyes: "👀",
+  heart: "❤️",
+  smile: "😄",
+  grinning: "😀",
+};
+
+const ALIGNMENTS: Record<number, string> = { 2: "center", 3: "right" };
+
+const EXPORT_STYLES = `
+body { margin: 0; background: #fff; color: #1f2329; font: 16px/1.7 -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang TC", "Microsoft JhengHei", sans-serif; }
+.lark-doc { max-width: 860px; margin: 0 auto; padding: 48px 24px; }
+.heading-7, .heading-8, .heading-9 { font-weight: 600; margin: 1em 0 0.5em; }
+blockquote { margin: 0.5em 0; padding: 0 1em; border-left: 3px solid #dee0e3; color: #646a73; }
+pre.code { background: #f5f6f7; border-radius: 6px; padding: 12px 16px; overflow-x: auto; }
+code { font-family: SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+:not(pre) > code { background: #f2f3f5; border-radius: 4px; padding: 0 4px; }
+.callout { display: flex; gap: 8px; margin: 0.5em 0; padding: 12px 16px; border-radius: 8px; background: #fefbe5; }
+.callout-body > :first-child { margin-top: 0; }
+.callout-body > :last-child { margin-bottom: 0; }
+ul.todo-list { list-style: none; padding-left: 0.5em; }
+li.done > .todo-text { color: #8f959e; text-decoration: line-through; }
+table { border-collapse: collapse; margin: 0.5em 0; }
+th, td { border: 1px solid #dee0e3; padding: 6px 10px; vertical-align: top; }
+th { background: #f5f6f7; }
+td > p, th > p { margin: 0; }
+.grid { display: flex; gap: 16px; }
+.grid-column { flex: 1; min-width: 0; }
+.math-display { margin: 0.5em 0; text-align: center; }
+figure.image { margin: 0.5em 0; }
+figure.image img { max-width: 100%; height: auto; }
+hr { border: none; border-top: 1px solid #dee0e3; margin: 1em 0; }
+`.trim();
+
+/**
+ * 將 Lark Blocks 轉換為 HTML
+ * 走訪方式與 blocksToMarkdown 相同，連續的列表項目合併為同一個 <ul>/<ol>
+ */
+export async function blocksToHtml(
+  blocks: LarkBlock[],
+  options: HtmlRenderOptions = {}
+): Promise<string> {
+  const blockMap = new Map<string, LarkBlock>();
+  for (const block of blocks) {
+    blockMap.set(block.block_id, block);
+  }
+
+  const mentions = createMentionNames(options.resolveMentions);
+  if (mentions) await resolveMentionNames(blocks, mentions);
+
+  const images = options.inlineImages ? await loadInlineImages(blocks) : new Map<string, string>();
+  const ctx: HtmlContext = { blockMap, mentions, images };
+  const body = (await renderBlockList(findRootBlockIds(blocks), ctx)).join("\n");
+
+  if (options.standalone === false) return body;
+
+  const page = blocks.find((b) => b.block_type === 1);
+  const title = plainText(page?.page) || "Untitled";
+  return [
+    "<!DOCTYPE html>",
+    "<html>",
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${EXPORT_STYLES}\n</style>`,
+    "</head>",
+    "<body>",
+    '<article class="lark-doc">',
+    body,
+    "</article>",
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+/**
+ * 下載所有圖片並轉為 data URI（失敗的圖片保留佔位連結）
+ */
+async function loadInlineImages(blocks: LarkBlock[]): Promise<Map<string, string>> {
+  const images = new Map<string, string>();
+  for (const block of blocks) {
+    const token = block.block_type === 27 ? block.image?.token : undefined;
+    if (!token || images.has(token)) continue;
+    try {
+      const media = await downloadMedia(token);
+      images.set(token, `data:${media.contentType};base64,${media.data.toString("base64")}`);
+    } catch (err) {
+      console.error(`[HTML export] Image ${token} download failed: ${(err as Error).message}`);
+    }
+  }
+  return images;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * 可輸出為 href 的連結：只允許 http(s)、mailto 與相對路徑，其餘（javascript:、data: 等）回傳 undefined
+ * 判斷 scheme 前先移除瀏覽器會忽略的空白與控制字元
+ */
+function safeHref(url: string): string | undefined {
+  const normalized = url.replace(/[\u0000-\u0020]/g, "");
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized)?.[1].toLowerCase();
+  if (scheme && scheme !== "http" && scheme !== "https" && scheme !== "mailto") return undefined;
+  return url;
+}
+
+function plainText(content?: LarkTextContent): string {
+  return (content?.elements || [])
+    .map((el) => el.text_run?.content ?? el.equation?.content ?? "")
+    .join("");
+}
+
+/**
+ * 渲染行內元素（文字樣式、顏色、連結、公式、@提及）
+ */
+function renderInline(content: LarkTextContent | undefined, ctx: HtmlContext): string {
+  if (!content?.elements) return "";
+
+  return content.elements.map((el) => {
+    if (el.text_run) {
+      const style = el.text_run.text_element_style;
+      let html = escapeHtml(el.text_run.content).replace(/\n/g, "<br>");
+
+      if (style?.inline_code) html = `<code>${html}</code>`;
+      if (style?.bold) html = `<strong>${html}</strong>`;
+      if (style?.italic) html = `<em>${html}</em>`;
+      if (style?.underline) html = `<u>${html}</u>`;
+      if (style?.strikethrough) html = `<s>${html}</s>`;
+
+      const css: string[] = [];
+      if (style?.text_color && FONT_COLORS[style.text_color]) {
+        css.push(`color: ${FONT_COLORS[style.text_color]}`);
+      }
+      if (style?.background_color && BACKGROUND_COLORS[style.background_color]) {
+        css.push(`background-color: ${BACKGROUND_COLORS[style.background_color]}`);
+      }
+      if (css.length > 0) html = `<span style="${css.join("; ")}">${html}</span>`;
+
+      const href = style?.link?.url ? safeHref(decodeLinkUrl(style.link.url)) : undefined;
+      if (href) {
+        html = `<a href="${escapeHtml(href)}">${html}</a>`;
+      }
+      return html;
+    }
+    if (el.equation) {
+      return `<span class="math-inline">\\(${escapeHtml(el.equation.content)}\\)</span>`;
+    }
+    if (el.mention_user) {
+      const name = getMentionUserName(el.mention_user.user_id, ctx.mentions);
+      return `<span class="mention-user" data-user-id="${escapeHtml(el.mention_user.user_id)}">@${escapeHtml(name)}</span>`;
+    }
+    if (el.mention_doc) {
+      const title = getMentionDocTitle(el.mention_doc, ctx.mentions);
+      const href = safeHref(getMentionDocUrl(el.mention_doc));
+      return href
+        ? `<a class="mention-doc" href="${escapeHtml(href)}">${escapeHtml(title)}</a>`
+        : `<span class="mention-doc">${escapeHtml(title)}</span>`;
+    }
+    return "";
+  }).join("");
+}
+
+function alignAttr(content?: LarkTextContent): string {
+  const align = ALIGNMENTS[content?.style?.align ?? 0];
+  return align ? ` style="text-align: ${align}"` : "";
+}
+
+/**
+ * 列表 block 對應的容器標籤
+ */
+const LIST_CONTAINERS: Record<number, { open: string; close: string }> = {
+  12: { open: "<ul>", close: "</ul>" },
+  13: { open: "<ol>", close: "</ol>" },
+  17: { open: '<ul class="todo-list">', close: "</ul>" },
+};
+
+/**
+ * 依序渲染同層 blocks，連續同類型列表項目合併為一個列表
+ */
+async function renderBlockList(blockIds: string[], ctx: HtmlContext): Promise<string[]> {
+  const html: string[] = [];
+  const blocks = blockIds
+    .map((id) => ctx.blockMap.get(id))
+    .filter((block): block is LarkBlock => block !== undefined);
+
+  let i = 0;
+  while (i < blocks.length) {
+    const container = LIST_CONTAINERS[blocks[i].block_type];
+    if (!container) {
+      html.push(await renderBlock(blocks[i], ctx));
+      i++;
+      continue;
+    }
+
+    const listType = blocks[i].block_type;
+    html.push(container.open);
+    while (i < blocks.length && blocks[i].block_type === listType) {
+      html.push(await renderListItem(blocks[i], ctx));
+      i++;
+    }
+    html.push(container.close);
+  }
+
+  return html;
+}
+
+async function renderChildren(block: LarkBlock, ctx: HtmlContext): Promise<string> {
+  return (await renderBlockList(block.children || [], ctx)).join("\n");
+}
+
+/**
+ * 渲染列表項目（子 blocks 渲染在 <li> 內形成巢狀列表）
+ */
+async function renderListItem(block: LarkBlock, ctx: HtmlContext): Promise<string> {
+  const children = await renderChildren(block, ctx);
+  const nested = children ? `\n${children}\n` : "";
+
+  if (block.block_type === 17) {
+    const done = block.todo?.style?.done ?? block.todo?.done;
+    const checkbox = `<input type="checkbox" disabled${done ? " checked" : ""}>`;
+    const text = `<span class="todo-text">${renderInline(block.todo, ctx)}</span>`;
+    return `<li class="todo${done ? " done" : ""}">${checkbox} ${text}${nested}</li>`;
+  }
+
+  const content = block.block_type === 12 ? block.bullet : block.ordered;
+  return `<li${alignAttr(content)}>${renderInline(content, ctx)}${nested}</li>`;
+}
+
+/**
+ * 渲染單一 block（含其子 blocks）
+ */
+async function renderBlock(block: LarkBlock, ctx: HtmlContext): Promise<string> {
+  switch (block.block_type) {
+    case 1: { // Page（文件標題 + 內容）
+      const title = renderInline(block.page, ctx);
+      const children = await renderChildren(block, ctx);
+      return title ? `<h1 class="page-title">${title}</h1>\n${children}` : children;
+    }
+    case 2: // Text
+      return `<p${alignAttr(block.text)}>${renderInline(block.text, ctx)}</p>` + await renderTrailingChildren(block, ctx);
+    case 14: { // Code
+      const lang = getLanguageName(block.code?.style?.language ?? block.code?.language);
+      const langAttr = lang ? ` class="language-${lang}"` : "";
+      return `<pre class="code"><code${langAttr}>${escapeHtml(plainText(block.code))}</code></pre>`;
+    }
+    case 15: { // Quote
+      const children = await renderChildren(block, ctx);
+      return `<blockquote>\n<p>${renderInline(block.quote, ctx)}</p>${children ? `\n${children}` : ""}\n</blockquote>`;
+    }
+    case 16: // Equation
+      return `<div class="math-display">\\[${escapeHtml(plainText(block.equation))}\\]</div>`;
+    case 19: { // Callout（高亮塊）
+      const background = BACKGROUND_COLORS[block.callout?.background_color ?? 0];
+      const style = background ? ` style="background-color: ${background}"` : "";
+      const emoji = CALLOUT_EMOJIS[block.callout?.emoji_id ?? ""] ?? "💡";
+      const text = block.callout?.elements?.length ? `<p>${renderInline(block.callout, ctx)}</p>\n` : "";
+      const children = await renderChildren(block, ctx);
+      return `<div class="callout"${style}>\n<span class="callout-emoji">${emoji}</span>\n<div class="callout-body">\n${text}${children}\n</div>\n</div>`;
+    }
+    case 22: // Divider
+      return "<hr>";
+    case 23: { // File
+      if (!block.file?.token) return "";
+      const name = escapeHtml(block.file.name || "file");
+      return `<p class="file"><a href="lark://file/${block.file.token}">📎 ${name}</a></p>`;
+    }
+    case 24: // Grid（分欄）
+      return `<div class="grid">\n${await renderChildren(block, ctx)}\n</div>`;
+    case 25: { // GridColumn
+      const ratio = block.grid_column?.width_ratio;
+      const style = ratio ? ` style="flex: ${ratio}"` : "";
+      return `<div class="grid-column"${style}>\n${await renderChildren(block, ctx)}\n</div>`;
+    }
+    case 27: { // Image
+      const token = block.image?.token;
+      if (!token) return "";
+      const src = ctx.images.get(token) ?? `lark://image/${token}`;
+      const size = [
+        block.image?.width ? ` width="${block.image.width}"` : "",
+        block.image?.height ? ` height="${block.image.height}"` : "",
+      ].join("");
+      return `<figure class="image"><img src="${src}" alt="image"${size}></figure>`;
+    }
+    case 30: // Sheet（嵌入多維表格）
+      return renderSheet(block);
+    case 31: // Table
+      return renderTable(block, ctx);
+    case 32: // TableCell（由 Table 處理）
+      return "";
+    case 34: // QuoteContainer
+      return `<blockquote>\n${await renderChildren(block, ctx)}\n</blockquote>`;
+    default: {
+      if (block.block_type >= 3 && block.block_type <= 11) {
+        const level = block.block_type - 2;
+        const content = block[`heading${level}` as keyof LarkBlock] as LarkTextContent | undefined;
+        const inner = renderInline(content, ctx);
+        // HTML 只有 h1-h6，Heading 7-9 以 ARIA heading 表示
+        const heading = level <= 6
+          ? `<h${level}${alignAttr(content)}>${inner}</h${level}>`
+          : `<div class="heading-${level}" role="heading" aria-level="${level}"${alignAttr(content)}>${inner}</div>`;
+        return heading + await renderTrailingChildren(block, ctx);
+      }
+
+      const textContent = getTextContent(block);
+      if (textContent) {
+        return `<p${alignAttr(textContent)}>${renderInline(textContent, ctx)}</p>` + await renderTrailingChildren(block, ctx);
+      }
+      // 不支援的 block（Bitable、ChatCard、Diagram、Iframe 等）保留註解方便追查
+      return `<!-- unsupported block_type ${block.block_type} (${block.block_id}) -->` + await renderTrailingChildren(block, ctx);
+    }
+  }
+}
+
+/**
+ * 文字/標題 block 的子節點（例如摺疊標題底下的內容）維持同層級
+ */
+async function renderTrailingChildren(block: LarkBlock, ctx: HtmlContext): Promise<string> {
+  const children = await renderChildren(block, ctx);
+  return children ? `\n${children}` : "";
+}
+
+/**
+ * 渲染原生表格：支援 merge_info 合併儲存格、標題列/欄與欄寬
+ */
+async function renderTable(block: LarkBlock, ctx: HtmlContext): Promise<string> {
+  const property = block.table?.property;
+  const cells = block.table?.cells;
+  if (!property?.row_size || !property?.column_size || !cells) return "";
+
+  const rows = property.row_size;
+  const cols = property.column_size;
+  const mergeInfo = property.merge_info || [];
+
+  // 被合併儲存格覆蓋的位置不輸出
+  const covered = new Set<number>();
+  mergeInfo.forEach((merge, index) => {
+    const rowSpan = merge?.row_span ?? 1;
+    const colSpan = merge?.col_span ?? 1;
+    if (rowSpan <= 1 && colSpan <= 1) return;
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+    for (let r = row; r < Math.min(row + rowSpan, rows); r++) {
+      for (let c = col; c < Math.min(col + colSpan, cols); c++) {
+        if (r !== row || c !== col) covered.add(r * cols + c);
+      }
+    }
+  });
+
+  const html: string[] = ["<table>"];
+  if (property.column_width?.length) {
+    html.push("<colgroup>");
+    for (const width of property.column_width) html.push(`<col style="width: ${width}px">`);
+    html.push("</colgroup>");
+  }
+
+  for (let row = 0; row < rows; row++) {
+    const isHeaderRow = row === 0 && property.header_row;
+    if (row === 0) html.push(isHeaderRow ? "<thead>" : "<tbody>");
+    if (row === 1 && property.header_row) html.push("<tbody>");
+
+    const rowCells: string[] = [];
+    for (let col = 0; col < cols; col++) {
+      const index = row * cols + col;
+      if (covered.has(index)) continue;
+
+      const tag = isHeaderRow || (col === 0 && property.header_column) ? "th" : "td";
+      const merge = mergeInfo[index];
+      const spans = [
+        (merge?.row_span ?? 1) > 1 ? ` rowspan="${merge!.row_span}"` : "",
+        (merge?.col_span ?? 1) > 1 ? ` colspan="${merge!.col_span}"` : "",
+      ].join("");
+
+      const cell = ctx.blockMap.get(cells[index] ?? "");
+      const content = cell?.children?.length
+        ? await renderChildren(cell, ctx)
+        : renderInline(cell?.table_cell, ctx);
+      rowCells.push(`<${tag}${spans}>${content}</${tag}>`);
+    }
+    html.push(`<tr>${rowCells.join("")}</tr>`);
+
+    if (isHeaderRow) html.push("</thead>");
+  }
+
+  if (rows > 1 || !property.header_row) html.push("</tbody>");
+  html.push("</table>");
+  return html.join("\n");
+}
+
+/**
+ * 渲染嵌入的多維表格（無法讀取時輸出連結）
+ */
+async function renderSheet(block: LarkBlock): Promise<string> {
+  const token = block.sheet?.token;
+  if (!token) return "";
+
+  const fallback = `<p class="sheet"><a href="lark://sheet/${token}">📊 sheet</a></p>`;
+  const parsed = parseSheetToken(token);
+  if (!parsed) return fallback;
+
+  try {
+    const [fields, records] = await Promise.all([
+      getBitableFields(parsed.appToken, parsed.tableId),
+      getBitableRecords(parsed.appToken, parsed.tableId),
+    ]);
+    if (fields.length === 0) return fallback;
+
+    const header = fields.map((f) => `<th>${escapeHtml(f.field_name)}</th>`).join("");
+    const rows = records.map((record) => {
+      const cells = fields.map((f) => `<td>${escapeHtml(formatBitableValue(record.fields[f.field_name]))}</td>`);
+      return `<tr>${cells.join("")}</tr>`;
+    });
+    return ["<table>", "<thead>", `<tr>${header}</tr>`, "</thead>", "<tbody>", ...rows, "</tbody>", "</table>"].join("\n");
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import type { LarkBlock, LarkTextContent } from "../types.js";
+import { blocksToMarkdown, diffAnnotatedMarkdown, markdownToBlocks } from "./markdown.js";
+
+function paragraph(id: string, content: string): LarkBlock {
+  return {
+    block_id: id,
+    block_type: 2,
+    parent_id: "doc",
+    text: { elements: content ? [{ text_run: { content } }] : [], style: { align: 1 } },
+  } as unknown as LarkBlock;
+}
+
+describe("diffAnnotatedMarkdown", () => {
+  const blocks = [
+    { block_id: "doc", block_type: 1, children: ["p1", "e1", "p2"] } as LarkBlock,
+    paragraph("p1", "first"),
+    paragraph("e1", ""),
+    paragraph("p2", "second"),
+  ];
+
+  test("an unedited export has no changes, including empty paragraphs", async () => {
+    const markdown = await blocksToMarkdown(blocks, { annotated: true });
+    const diff = await diffAnnotatedMarkdown(blocks, markdown);
+    expect(diff).toEqual({ changed: [], removed: [], added: [], unchanged_count: 3 });
+  });
+
+  test("text typed into an empty paragraph is reported as changed", async () => {
+    const markdown = (await blocksToMarkdown(blocks, { annotated: true })).replace(
+      "<!-- block_id:e1 index:1 -->",
+      "<!-- block_id:e1 index:1 -->\nfilled in"
+    );
+    const diff = await diffAnnotatedMarkdown(blocks, markdown);
+    expect(diff.changed.map((c) => [c.block_id, c.markdown])).toEqual([["e1", "filled in"]]);
+  });
+});
+
+describe("markdownToBlocks", () => {
+  test("a changed ordered-list delimiter starts a new list that restarts numbering", () => {
+    const blocks = markdownToBlocks("1. a\n2. b\n1) c\n");
+    expect(blocks.map((b) => (b.ordered as LarkTextContent).style)).toEqual([undefined, undefined, { sequence: "1" }]);
+  });
+
+  test("a restarted ordered list exports with the other delimiter", async () => {
+    const blocks = [
+      { block_id: "doc", block_type: 1, children: ["o1", "o2", "o3"] },
+      { block_id: "o1", block_type: 13, ordered: { elements: [{ text_run: { content: "a" } }] } },
+      { block_id: "o2", block_type: 13, ordered: { elements: [{ text_run: { content: "b" } }] } },
+      { block_id: "o3", block_type: 13, ordered: { elements: [{ text_run: { content: "c" } }], style: { sequence: "1" } } },
+    ] as LarkBlock[];
+    expect(await blocksToMarkdown(blocks)).toBe("1. a\n2. b\n1) c");
+  });
+
+  test("a changed bullet marker ends the list instead of continuing the previous item", () => {
+    const blocks = markdownToBlocks("- a\n* b\n+ c\n");
+    expect(blocks.map((b) => [b.block_type, (b.bullet as LarkTextContent).elements])).toEqual([
+      [12, [{ text_run: { content: "a" } }]],
+      [12, [{ text_run: { content: "b" } }]],
+      [12, [{ text_run: { content: "c" } }]],
+    ]);
+  });
+
+  test("table rows shorter than the header are padded with empty text runs", () => {
+    const [table] = markdownToBlocks("| h1 | h2 | h3 |\n|---|---|---|\n| x |\n");
+    expect((table._cellContents as LarkTextContent[]).slice(3).map((c) => c.elements)).toEqual([
+      [{ text_run: { content: "x" } }],
+      [{ text_run: { content: "" } }],
+      [{ text_run: { content: "" } }],
+    ]);
+  });
+});
@@ -1,10 +1,12 @@
 /**
- * Lark Block → Markdown 轉換工具
- * 用於將 Lark blocks 轉換為 Markdown 格式顯示給用戶
+ * Lark Block ↔ Markdown 轉換工具
+ * 用於將 Lark blocks 轉換為 Markdown 格式顯示給用戶，以及將 Markdown 轉換為可寫入的 blocks
  */
 
-import type { LarkBlock, LarkTextContent } from "../types.js";
-import { getSheetAsMarkdown } from "../services/lark-client.js";
+import type { LarkBlock, LarkTextContent, DocumentPage, AnnotatedMarkdownDiff } from "../types.js";
+import { join } from "path";
+import { getSheetAsMarkdown, getUserName, getDocumentTitles, saveMedia } from "../services/lark-client.js";
+import { CHARACTER_LIMIT, DocumentFormat, DOC_URL, WIKI_URL } from "../constants.js";
 
 // =============================================================================
 // Lark Blocks → Markdown
@@ -47,9 +49,7 @@ function renderTable(
           for (const childId of cellBlock.children) {
             const childBlock = blockMap.get(childId);
             if (childBlock) {
-              const text = extractTextFn(
-                childBlock.text || childBlock.bullet || childBlock.ordered
-              );
+              const text = extractTextFn(getTextContent(childBlock));
               if (text) childContents.push(text);
             }
           }
@@ -59,8 +59,8 @@ function renderTable(
         }
       }
 
-      // 清理單元格內容（移除換行和管道符）
-      cellContent = cellContent.replace(/[\n\r|]/g, " ").trim();
+      // 清理單元格內容：移除換行，管道符一律跳脫（文字中已跳脫的 \| 轉回時仍為 |）
+      cellContent = cellContent.replace(/[\n\r]/g, " ").replace(/\|/g, "\\|").trim();
       rowCells.push(cellContent || " ");
     }
 
@@ -77,170 +77,1778 @@ function renderTable(
 
 /**
  * 從 Lark Block 提取文字內容
+ * 文字中的 Markdown 語法字元以反斜線跳脫、換行輸出為 <br>，markdownToBlocks 轉回時得到相同的文字與樣式
+ * @提及與文件連結輸出為 lark://user/{user_id}、lark://doc/{obj_type}/{token} 佔位連結，markdownToBlocks 會還原為原本的元素
+ * 未提供 mentions 時，連結文字保留原始 ID
  */
-function extractText(content?: LarkTextContent): string {
+export function extractText(content?: LarkTextContent, mentions?: MentionNames): string {
   if (!content?.elements) return "";
 
-  return content.elements.map((el) => {
+  const text = mergeMarkdownRuns(content.elements).map((el) => {
     if (el.text_run) {
-      let text = el.text_run.content;
       const style = el.text_run.text_element_style;
+      const raw = el.text_run.content;
 
-      if (style?.bold) text = `**${text}**`;
-      if (style?.italic) text = `*${text}*`;
-      if (style?.strikethrough) text = `~~${text}~~`;
-      if (style?.inline_code) text = `\`${text}\``;
-      if (style?.link?.url) text = `[${text}](${style.link.url})`;
-
-      return text;
+      // inline code 不跳脫、放在強調符號內側；強調符號內側不可為空白，前後空白移到符號外
+      const [, leading, core, trailing] = style?.inline_code ? ["", "", raw, ""] : raw.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      let text = style?.inline_code ? codeSpan(core) : escapeMarkdown(core);
+      if (core) {
+        if (style?.bold) text = `**${text}**`;
+        if (style?.italic) text = `*${text}*`;
+        if (style?.strikethrough) text = `~~${text}~~`;
+      }
+      return wrapLink(escapeMarkdown(leading) + text + escapeMarkdown(trailing), style?.link?.url);
     }
     if (el.equation) return `$${el.equation.content}$`;
+    if (el.mention_user) {
+      const name = escapeMarkdown(getMentionUserName(el.mention_user.user_id, mentions));
+      return `[@${name}](lark://user/${el.mention_user.user_id})`;
+    }
+    if (el.mention_doc) {
+      const title = escapeMarkdown(getMentionDocTitle(el.mention_doc, mentions));
+      return `[${title}](lark://doc/${el.mention_doc.obj_type}/${el.mention_doc.token})`;
+    }
     return "";
   }).join("");
+
+  // 行首的 # - + > = 與「數字.」會被解析為標題、列表、引用或 setext 標題
+  return text.replace(/^( *)([#>+=-])/, "$1\\$2").replace(/^( *\d+)([.)])/, "$1\\$2");
+}
+
+// Markdown 能表達的文字樣式
+export const MARKDOWN_TEXT_STYLES = ["bold", "italic", "strikethrough", "inline_code", "link"] as const;
+
+/**
+ * 合併 Markdown 樣式相同的相鄰 text_run（只差在底線、顏色等樣式的 text_run 輸出後無法分開，
+ * 相鄰的 inline code 也會黏成一段）
+ */
+function mergeMarkdownRuns(elements: TextElement[]): TextElement[] {
+  const styleKey = (el: TextElement) =>
+    JSON.stringify(MARKDOWN_TEXT_STYLES.map((k) => el.text_run?.text_element_style?.[k] ?? null));
+  const merged: TextElement[] = [];
+  for (const el of elements) {
+    const previous = merged[merged.length - 1];
+    if (el.text_run && previous?.text_run && styleKey(el) === styleKey(previous)) {
+      merged[merged.length - 1] = {
+        text_run: { ...previous.text_run, content: previous.text_run.content + el.text_run.content },
+      };
+    } else {
+      merged.push(el);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 跳脫行內 Markdown 語法字元；網址加上跳脫避免被自動轉為連結，換行以 <br> 表示
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\*_`[\]~|$<]/g, "\\$&")
+    .replace(/\b(https?):\/\//gi, "$1\\://")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Inline code：以比內容更長的反引號包住，內容前後為反引號或空白時補一個空白
+ */
+function codeSpan(code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length));
+  const ticks = "`".repeat(longestRun + 1);
+  const padded = /^[`\s]|[`\s]$/.test(code) && code.trim() ? ` ${code} ` : code;
+  return `${ticks}${padded}${ticks}`;
+}
+
+/**
+ * 原始文字（程式碼、公式 block 內不解析 Markdown，不需跳脫）
+ */
+function rawText(content?: LarkTextContent): string {
+  return (content?.elements || []).map((el) => el.text_run?.content ?? el.equation?.content ?? "").join("");
+}
+
+function wrapLink(text: string, url?: string): string {
+  return url ? `[${text}](${linkTarget(decodeLinkUrl(url))})` : text;
+}
+
+// =============================================================================
+// @提及與文件連結
+// =============================================================================
+
+type MentionDoc = NonNullable<NonNullable<LarkTextContent["elements"]>[number]["mention_doc"]>;
+
+/**
+ * 單次渲染內的名稱快取（user open_id → 名稱、文件 token → 標題）
+ */
+export interface MentionNames {
+  users: Map<string, string>;
+  docs: Map<string, string>;
+}
+
+export function getMentionUserName(userId: string, mentions?: MentionNames): string {
+  return mentions?.users.get(userId) ?? userId;
+}
+
+export function getMentionDocTitle(doc: MentionDoc, mentions?: MentionNames): string {
+  if (!mentions) return doc.token;
+  return doc.title || mentions.docs.get(doc.token) || doc.token;
+}
+
+/**
+ * 文件連結：Wiki 使用 WIKI_URL、docx/doc 使用 DOC_URL，其他類型優先使用 API 回傳的 url
+ */
+export function getMentionDocUrl(doc: MentionDoc): string {
+  if (doc.obj_type === 16) return WIKI_URL(doc.token);
+  if (doc.obj_type === 1 || doc.obj_type === 22 || !doc.url) return DOC_URL(doc.token);
+  return decodeLinkUrl(doc.url);
+}
+
+/**
+ * 查詢 blocks 中尚未快取的用戶名稱與文件標題
+ * 查詢失敗（權限不足、用戶已離職等）時保留原始 ID，並寫入快取避免重複查詢
+ */
+export async function resolveMentionNames(blocks: LarkBlock[], mentions: MentionNames): Promise<void> {
+  const userIds = new Set<string>();
+  const docs = new Map<string, number>();
+
+  for (const block of blocks) {
+    for (const el of (getTextContent(block) ?? block.table_cell)?.elements || []) {
+      if (el.mention_user && !mentions.users.has(el.mention_user.user_id)) {
+        userIds.add(el.mention_user.user_id);
+      }
+      if (el.mention_doc && !el.mention_doc.title && !mentions.docs.has(el.mention_doc.token)) {
+        docs.set(el.mention_doc.token, el.mention_doc.obj_type);
+      }
+    }
+  }
+
+  for (const userId of userIds) {
+    const name = await getUserName(userId).catch(() => undefined);
+    mentions.users.set(userId, name || userId);
+  }
+
+  if (docs.size > 0) {
+    const titles = await getDocumentTitles(
+      [...docs].map(([token, objType]) => ({ token, objType }))
+    ).catch(() => new Map<string, string>());
+    for (const token of docs.keys()) {
+      mentions.docs.set(token, titles.get(token) ?? token);
+    }
+  }
+}
+
+/**
+ * Lark 回傳的連結為 URL encoded，解碼後再輸出
+ */
+export function decodeLinkUrl(url: string): string {
+  try {
+    return decodeURIComponent(url);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * 取得 block 的文字內容欄位（不論 block 類型）
+ */
+export function getTextContent(block: LarkBlock): LarkTextContent | undefined {
+  return (
+    block.text || block.heading1 || block.heading2 || block.heading3 ||
+    block.heading4 || block.heading5 || block.heading6 || block.heading7 ||
+    block.heading8 || block.heading9 || block.bullet || block.ordered ||
+    block.quote || block.todo || block.code || block.callout || block.equation
+  );
 }
 
+/**
+ * Code block 語言對照表（Lark CodeLanguage 列舉）
+ */
+const CODE_LANGUAGES: Record<number, string> = {
+  1: "plaintext",
+  2: "abap",
+  3: "ada",
+  4: "apache",
+  5: "apex",
+  6: "assembly",
+  7: "bash",
+  8: "csharp",
+  9: "cpp",
+  10: "c",
+  11: "cobol",
+  12: "css",
+  13: "coffeescript",
+  14: "d",
+  15: "dart",
+  16: "delphi",
+  17: "django",
+  18: "dockerfile",
+  19: "erlang",
+  20: "fortran",
+  21: "foxpro",
+  22: "go",
+  23: "groovy",
+  24: "html",
+  25: "htmlbars",
+  26: "http",
+  27: "haskell",
+  28: "json",
+  29: "java",
+  30: "javascript",
+  31: "julia",
+  32: "kotlin",
+  33: "latex",
+  34: "lisp",
+  35: "logo",
+  36: "lua",
+  37: "matlab",
+  38: "makefile",
+  39: "markdown",
+  40: "nginx",
+  41: "objectivec",
+  42: "openedge",
+  43: "php",
+  44: "perl",
+  45: "postscript",
+  46: "powershell",
+  47: "prolog",
+  48: "protobuf",
+  49: "python",
+  50: "r",
+  51: "rpg",
+  52: "ruby",
+  53: "rust",
+  54: "sas",
+  55: "scss",
+  56: "sql",
+  57: "scala",
+  58: "scheme",
+  59: "scratch",
+  60: "shell",
+  61: "swift",
+  62: "thrift",
+  63: "typescript",
+  64: "vbscript",
+  65: "vb",
+  66: "xml",
+  67: "yaml",
+  68: "cmake",
+  69: "diff",
+  70: "gherkin",
+  71: "graphql",
+  72: "glsl",
+  73: "properties",
+  74: "solidity",
+  75: "toml",
+};
+
+/**
+ * 常見語言別名（fenced code info string → CODE_LANGUAGES 名稱）
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  text: "plaintext",
+  txt: "plaintext",
+  plain: "plaintext",
+  sh: "bash",
+  zsh: "shell",
+  "c#": "csharp",
+  cs: "csharp",
+  "c++": "cpp",
+  cc: "cpp",
+  golang: "go",
+  htm: "html",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  kt: "kotlin",
+  tex: "latex",
+  md: "markdown",
+  "objective-c": "objectivec",
+  objc: "objectivec",
+  ps1: "powershell",
+  proto: "protobuf",
+  py: "python",
+  rb: "ruby",
+  rs: "rust",
+  ts: "typescript",
+  tsx: "typescript",
+  yml: "yaml",
+  patch: "diff",
+  gql: "graphql",
+};
+
 /**
  * 取得語言名稱
  */
-function getLanguageName(code?: number): string {
-  const languageNames: Record<number, string> = {
-    0: "",
-    1: "plaintext",
-    3: "bash",
-    4: "c",
-    5: "cpp",
-    6: "csharp",
-    7: "css",
-    9: "go",
-    12: "html",
-    13: "java",
-    14: "javascript",
-    16: "json",
-    18: "kotlin",
-    20: "markdown",
-    22: "php",
-    24: "python",
-    26: "ruby",
-    27: "rust",
-    29: "sql",
-    31: "swift",
-    33: "typescript",
-    36: "xml",
-    37: "yaml",
-  };
+export function getLanguageName(code?: number): string {
+  return CODE_LANGUAGES[code ?? 0] ?? "";
+}
+
+/**
+ * 取得語言代碼（未知語言回傳 PlainText）
+ */
+function getLanguageCode(name: string): number {
+  const normalized = name.trim().toLowerCase();
+  const resolved = LANGUAGE_ALIASES[normalized] ?? normalized;
+  for (const [code, languageName] of Object.entries(CODE_LANGUAGES)) {
+    if (languageName === resolved) return Number(code);
+  }
+  return 1;
+}
+
+export interface MarkdownRenderOptions {
+  /** 在每個 block 前輸出 `<!-- block_id:xxx index:N -->` 錨點，供編輯後以 diffAnnotatedMarkdown 比對 */
+  annotated?: boolean;
+  /** 將 @提及解析為用戶名稱、文件連結解析為標題（預設 true；false 保留原始 ID） */
+  resolveMentions?: boolean;
+  /** 下載圖片與附件到此目錄，並將 lark:// 佔位連結改寫為本機路徑 */
+  mediaDir?: string;
+}
+
+/**
+ * 渲染狀態（rootIndex 為目前 block 所屬的根層級 block index）
+ */
+interface RenderContext {
+  blockMap: Map<string, LarkBlock>;
+  annotated: boolean;
+  rootIndex?: number;
+  mentions?: MentionNames;
+  /** 已下載的素材（token → 本機路徑） */
+  media?: Map<string, string>;
+}
+
+export function createMentionNames(resolveMentions = true): MentionNames | undefined {
+  return resolveMentions ? { users: new Map(), docs: new Map() } : undefined;
+}
+
+/**
+ * 下載 blocks 中的圖片與附件（已下載的 token 會略過）
+ * 下載失敗時保留 lark:// 佔位連結，不中斷轉換
+ */
+async function downloadMediaFiles(
+  blocks: LarkBlock[],
+  mediaDir: string,
+  media: Map<string, string>
+): Promise<void> {
+  for (const block of blocks) {
+    const token = block.block_type === 27 ? block.image?.token
+      : block.block_type === 23 ? block.file?.token
+      : undefined;
+    if (!token || media.has(token)) continue;
+
+    try {
+      const saved = await saveMedia(token, join(mediaDir, "/"));
+      media.set(token, saved.path);
+    } catch (err) {
+      console.error(`[Markdown] Media ${token} download failed: ${(err as Error).message}`);
+    }
+  }
+}
 
-  return languageNames[code ?? 0] ?? "";
+/**
+ * Markdown 連結目標（含空白的路徑需以角括號包住）
+ */
+function linkTarget(path: string): string {
+  return /\s/.test(path) ? `<${path}>` : path;
+}
+
+const ANCHOR_RE = /^[ \t>]*<!--\s*block_id:([\w-]+)(?:\s+index:(\d+))?\s*-->[ \t]*$/;
+
+function formatAnchor(blockId: string, rootIndex?: number): string {
+  return rootIndex === undefined
+    ? `<!-- block_id:${blockId} -->`
+    : `<!-- block_id:${blockId} index:${rootIndex} -->`;
 }
 
 /**
  * 將 Lark Blocks 轉換為 Markdown
  * 解決原生 API 回應過大的問題（88,946 字符 → 純文字）
+ *
+ * 從根節點的 children 走訪整棵樹：巢狀列表依層級縮排、容器的子 block 渲染在容器內、
+ * 已由父 block 處理的 block（表格 cell、grid column）不會重複輸出。
  */
-export async function blocksToMarkdown(blocks: LarkBlock[]): Promise<string> {
-  const lines: string[] = [];
-
-  // 建立 block map 以便查找子 blocks（用於表格）
+export async function blocksToMarkdown(
+  blocks: LarkBlock[],
+  options: MarkdownRenderOptions = {}
+): Promise<string> {
+  // 建立 block map 以便查找子 blocks
   const blockMap = new Map<string, LarkBlock>();
   for (const block of blocks) {
     blockMap.set(block.block_id, block);
   }
 
+  const mentions = createMentionNames(options.resolveMentions);
+  if (mentions) await resolveMentionNames(blocks, mentions);
+
+  const media = options.mediaDir ? new Map<string, string>() : undefined;
+  if (media) await downloadMediaFiles(blocks, options.mediaDir!, media);
+
+  const ctx: RenderContext = { blockMap, annotated: options.annotated ?? false, mentions, media };
+  const lines = await renderBlockList(findRootBlockIds(blocks), ctx, true);
+  return lines.join("\n");
+}
+
+/**
+ * 找出未被任何 block 引用為子節點的 blocks（依原始順序）
+ * 完整文件只會得到 Page block；片段或扁平陣列則回傳各自的頂層 blocks
+ */
+export function findRootBlockIds(blocks: LarkBlock[]): string[] {
+  const referenced = new Set<string>();
   for (const block of blocks) {
-    switch (block.block_type) {
-      case 1: // Page（文件根節點，跳過）
-        break;
-      case 2: // Text
-        lines.push(extractText(block.text));
-        break;
-      case 3: // Heading1
-        lines.push(`# ${extractText(block.heading1)}`);
-        break;
-      case 4: // Heading2
-        lines.push(`## ${extractText(block.heading2)}`);
-        break;
-      case 5: // Heading3
-        lines.push(`### ${extractText(block.heading3)}`);
-        break;
-      case 6: // Heading4
-        lines.push(`#### ${extractText(block.heading4)}`);
-        break;
-      case 7: // Heading5
-        lines.push(`##### ${extractText(block.heading5)}`);
-        break;
-      case 8: // Heading6
-        lines.push(`###### ${extractText(block.heading6)}`);
-        break;
-      case 9: // Heading7
-        lines.push(`####### ${extractText(block.heading7)}`);
-        break;
-      case 10: // Heading8
-        lines.push(`######## ${extractText(block.heading8)}`);
-        break;
-      case 11: // Heading9
-        lines.push(`######### ${extractText(block.heading9)}`);
-        break;
-      case 12: // Bullet
-        lines.push(`- ${extractText(block.bullet)}`);
-        break;
-      case 13: // Ordered
-        lines.push(`1. ${extractText(block.ordered)}`);
-        break;
-      case 14: // Code
-        const lang = getLanguageName(block.code?.language);
-        lines.push(`\`\`\`${lang}`);
-        lines.push(extractText(block.code));
-        lines.push("```");
-        break;
-      case 15: // Quote
-        lines.push(`> ${extractText(block.quote)}`);
-        break;
-      case 16: // Equation
-        lines.push(`$$${extractText(block.equation)}$$`);
-        break;
-      case 17: // Todo
-        const checked = block.todo?.done ? "x" : " ";
-        lines.push(`- [${checked}] ${extractText(block.todo)}`);
-        break;
-      case 19: // Callout（高亮塊）
-        lines.push(`> 💡 ${extractText(block.callout)}`);
-        break;
-      case 22: // Divider（分割線）
-        lines.push("---");
-        break;
-      case 23: // File（文件）
-        if (block.file?.token) {
-          lines.push(`📎 [file](lark://file/${block.file.token})`);
-        }
-        break;
-      case 27: // Image（圖片）
-        if (block.image?.token) {
-          lines.push(`![image](lark://image/${block.image.token})`);
-        }
-        break;
-      case 30: // Sheet（嵌入多維表格）
-        if (block.sheet?.token) {
-          const sheetContent = await getSheetAsMarkdown(block.sheet.token);
-          if (sheetContent) {
-            lines.push(sheetContent);
-          }
-        }
-        break;
-      case 31: // Table（原生表格）
-        const tableLines = renderTable(block, blockMap, extractText);
-        if (tableLines) {
-          lines.push(tableLines);
-        }
-        break;
-      case 32: // TableCell（表格單元格，由 Table 處理，跳過）
-        break;
-      default:
-        // 未知類型，嘗試提取文字
-        const textContent = block.text || block.bullet || block.ordered;
-        if (textContent) {
-          lines.push(extractText(textContent));
+    for (const childId of block.children || []) referenced.add(childId);
+    for (const cellId of block.table?.cells || []) referenced.add(cellId);
+  }
+  return blocks.filter((b) => !referenced.has(b.block_id)).map((b) => b.block_id);
+}
+
+// 列表項目（Bullet / Ordered / Todo）之間不加空行，維持同一個列表
+const LIST_BLOCK_TYPES = new Set([12, 13, 17]);
+
+/**
+ * 同層 blocks 之間是否以空行分隔：相鄰段落需要空行才不會在轉回 blocks 時合併
+ * annotated 模式已由錨點分隔，不另加空行
+ */
+function needsBlankLine(previous: LarkBlock | undefined, block: LarkBlock, annotated: boolean): boolean {
+  if (!previous || annotated) return false;
+  return !(LIST_BLOCK_TYPES.has(previous.block_type) && LIST_BLOCK_TYPES.has(block.block_type));
+}
+
+/**
+ * 有序列表的目前編號與分隔符號
+ */
+interface OrderedState {
+  number: number;
+  delimiter: "." | ")";
+}
+
+/**
+ * 推進有序列表編號：連續的 Ordered blocks 依序遞增；sequence 為 "1" 的項目另起新列表，
+ * 改用另一種分隔符號，轉回 blocks 時才不會併入前一個列表
+ */
+function nextOrdered(block: LarkBlock, previous: OrderedState | undefined): OrderedState | undefined {
+  if (block.block_type !== 13) return undefined;
+  if (!previous) return { number: 1, delimiter: "." };
+  if (block.ordered?.style?.sequence === "1") {
+    return { number: 1, delimiter: previous.delimiter === "." ? ")" : "." };
+  }
+  return { number: previous.number + 1, delimiter: previous.delimiter };
+}
+
+/**
+ * 依序渲染同層 blocks（有序列表編號在連續的 Ordered block 間遞增）
+ */
+async function renderBlockList(
+  blockIds: string[],
+  ctx: RenderContext,
+  isRoot = false
+): Promise<string[]> {
+  const lines: string[] = [];
+  let ordered: OrderedState | undefined;
+  let previous: LarkBlock | undefined;
+
+  for (const [index, blockId] of blockIds.entries()) {
+    const block = ctx.blockMap.get(blockId);
+    if (!block) continue;
+
+    ordered = nextOrdered(block, ordered);
+    const blockCtx = isRoot ? { ...ctx, rootIndex: index } : ctx;
+    const blockLines = await renderAnchoredBlock(block, blockCtx, ordered);
+    if (blockLines.length === 0) continue;
+
+    if (needsBlankLine(previous, block, ctx.annotated)) lines.push("");
+    lines.push(...blockLines);
+    previous = block;
+  }
+
+  return lines;
+}
+
+/**
+ * 渲染 block；annotated 模式下在前面加上錨點註解（Page block 除外）
+ */
+async function renderAnchoredBlock(
+  block: LarkBlock,
+  ctx: RenderContext,
+  ordered?: OrderedState
+): Promise<string[]> {
+  const lines = await renderBlock(block, ctx, ordered);
+  if (!ctx.annotated || block.block_type === 1) return lines;
+  return [formatAnchor(block.block_id, ctx.rootIndex), ...lines];
+}
+
+/**
+ * 為多行內容加上前綴（縮排或引用符號）
+ */
+function prefixLines(lines: string[], prefix: string, firstPrefix = prefix): string[] {
+  return lines
+    .flatMap((line) => line.split("\n"))
+    .map((line, index) => {
+      const linePrefix = index === 0 ? firstPrefix : prefix;
+      return line ? `${linePrefix}${line}` : linePrefix.trimEnd();
+    });
+}
+
+/**
+ * 渲染列表項目，子 block 依 marker 寬度縮排
+ */
+async function renderListItem(
+  marker: string,
+  content: LarkTextContent | undefined,
+  block: LarkBlock,
+  ctx: RenderContext,
+  indentWidth = marker.length
+): Promise<string[]> {
+  const children = await renderBlockList(block.children || [], ctx);
+  const indent = " ".repeat(indentWidth);
+  // 子 block 不是列表項目時以空行分隔，避免併入項目文字
+  const firstChild = ctx.blockMap.get(block.children?.[0] ?? "");
+  const gap = children.length > 0 && firstChild && needsBlankLine(block, firstChild, ctx.annotated) ? [""] : [];
+  return [
+    ...prefixLines([extractText(content, ctx.mentions)], indent, marker),
+    ...gap,
+    ...prefixLines(children, indent),
+  ];
+}
+
+/**
+ * 渲染單一 block（含其子 blocks）
+ */
+async function renderBlock(
+  block: LarkBlock,
+  ctx: RenderContext,
+  ordered?: OrderedState
+): Promise<string[]> {
+  const childIds = block.children || [];
+
+  switch (block.block_type) {
+    case 1: // Page（文件根節點，只渲染子 blocks）
+      return renderBlockList(childIds, ctx, true);
+    case 12: // Bullet
+      return renderListItem("- ", block.bullet, block, ctx);
+    case 13: // Ordered
+      return renderListItem(`${ordered?.number ?? 1}${ordered?.delimiter ?? "."} `, block.ordered, block, ctx);
+    case 17: { // Todo
+      const done = block.todo?.style?.done ?? block.todo?.done;
+      return renderListItem(`- [${done ? "x" : " "}] `, block.todo, block, ctx, 2);
+    }
+    case 14: { // Code
+      const lang = getLanguageName(block.code?.style?.language ?? block.code?.language);
+      return [`\`\`\`${lang}`, ...rawText(block.code).split("\n"), "```"];
+    }
+    case 15: { // Quote
+      const children = await renderBlockList(childIds, ctx);
+      return prefixLines([extractText(block.quote, ctx.mentions), ...children], "> ");
+    }
+    case 16: // Equation
+      return [`$$${rawText(block.equation)}$$`];
+    case 19: { // Callout（高亮塊，子 blocks 渲染在引用內）
+      const text = extractText(block.callout, ctx.mentions);
+      const children = await renderBlockList(childIds, ctx);
+      return prefixLines([text ? `💡 ${text}` : "💡", ...children], "> ");
+    }
+    case 22: // Divider（分割線）
+      return ["---"];
+    case 23: { // File（文件）
+      const token = block.file?.token;
+      if (!token) return [];
+      const localPath = ctx.media?.get(token);
+      return localPath
+        ? [`📎 [${block.file?.name || "file"}](${linkTarget(localPath)})`]
+        : [`📎 [file](lark://file/${token})`];
+    }
+    case 24: // Grid（分欄，依序渲染每一欄）
+    case 25: // GridColumn
+      return renderBlockList(childIds, ctx);
+    case 27: { // Image（圖片）
+      const token = block.image?.token;
+      if (!token) return [];
+      const localPath = ctx.media?.get(token);
+      return [`![image](${localPath ? linkTarget(localPath) : `lark://image/${token}`})`];
+    }
+    case 30: { // Sheet（嵌入多維表格）
+      if (!block.sheet?.token) return [];
+      const sheetContent = await getSheetAsMarkdown(block.sheet.token);
+      return sheetContent ? [sheetContent] : [];
+    }
+    case 31: { // Table（原生表格，cell 內容由表格處理）
+      const tableLines = renderTable(block, ctx.blockMap, (content) => extractText(content, ctx.mentions));
+      return tableLines ? [tableLines] : [];
+    }
+    case 32: // TableCell（由 Table 處理，跳過）
+      return [];
+    case 34: // QuoteContainer
+      return prefixLines(await renderBlockList(childIds, ctx), "> ");
+    default: {
+      const lines: string[] = [];
+      if (block.block_type >= 3 && block.block_type <= 11) {
+        // Heading1-9
+        const level = block.block_type - 2;
+        const content = block[`heading${level}` as keyof LarkBlock] as LarkTextContent | undefined;
+        lines.push(`${"#".repeat(level)} ${extractText(content, ctx.mentions)}`);
+      } else {
+        // Text 及未知類型，嘗試提取文字
+        const textContent = getTextContent(block);
+        if (textContent || block.block_type === 2) {
+          const text = extractText(textContent, ctx.mentions);
+          // 空段落以 <br> 表示，避免轉回 blocks 時被當成分隔的空行略過
+          lines.push(!text && block.block_type === 2 && !ctx.annotated ? "<br>" : text);
         }
+      }
+      // 其他 block 的子節點（例如摺疊標題底下的內容）維持同層級
+      lines.push(...await renderBlockList(childIds, ctx));
+      return lines;
     }
   }
+}
 
-  return lines.join("\n");
+// =============================================================================
+// 分段讀取（doc_read / wiki_read）
+// =============================================================================
+
+// 保留給訊息標頭與分頁資訊的字元數
+const PAGE_OVERHEAD = 1000;
+
+/**
+ * 依根層級 block 範圍渲染文件
+ * 未指定 endIndex 時，盡可能容納在 CHARACTER_LIMIT 內（至少一個 block），避免回應被截斷
+ * @提及與素材只查詢/下載實際渲染的 blocks
+ */
+export async function renderDocumentPage(
+  blocks: LarkBlock[],
+  format: DocumentFormat,
+  startIndex = 0,
+  endIndex?: number,
+  options: Omit<MarkdownRenderOptions, "annotated"> = {}
+): Promise<DocumentPage> {
+  const blockMap = new Map<string, LarkBlock>();
+  for (const block of blocks) {
+    blockMap.set(block.block_id, block);
+  }
+
+  const rootIds = getTopLevelBlockIds(blocks, blockMap);
+  const total = rootIds.length;
+  const start = Math.min(startIndex, total);
+  const limit = endIndex !== undefined ? Math.min(endIndex, total) : total;
+  const budget = CHARACTER_LIMIT - PAGE_OVERHEAD;
+
+  // 有序列表編號需延續前一頁的連續 Ordered blocks
+  let runStart = start;
+  while (runStart > 0 && blockMap.get(rootIds[runStart - 1])?.block_type === 13) runStart--;
+  let ordered: OrderedState | undefined;
+  for (let i = runStart; i < start; i++) {
+    ordered = nextOrdered(blockMap.get(rootIds[i])!, ordered);
+  }
+
+  const isMarkdown = format === DocumentFormat.MARKDOWN || format === DocumentFormat.ANNOTATED_MARKDOWN;
+  const mentions = format === DocumentFormat.BLOCKS ? undefined : createMentionNames(options.resolveMentions);
+  const media = isMarkdown && options.mediaDir ? new Map<string, string>() : undefined;
+  const chunks: string[] = [];
+  const pageBlocks: LarkBlock[] = [];
+  let previous: LarkBlock | undefined;
+  let size = 0;
+  let end = start;
+
+  while (end < limit) {
+    const block = blockMap.get(rootIds[end])!;
+    ordered = nextOrdered(block, ordered);
+
+    const subtree = collectSubtree(block.block_id, blockMap);
+    if (mentions) await resolveMentionNames(subtree, mentions);
+
+    // blocks 格式直接回傳 block 物件，不產生文字 chunk
+    const renderChunk = async (): Promise<string> => {
+      if (isMarkdown) {
+        const ctx: RenderContext = {
+          blockMap,
+          annotated: format === DocumentFormat.ANNOTATED_MARKDOWN,
+          rootIndex: end,
+          mentions,
+          media,
+        };
+        return (await renderAnchoredBlock(block, ctx, ordered)).join("\n");
+      }
+      if (format === DocumentFormat.PLAIN_TEXT) return renderPlainText(block, blockMap, mentions).join("\n");
+      if (format === DocumentFormat.OUTLINE) return renderOutline(block, blockMap, end, mentions).join("\n");
+      return "";
+    };
+    let chunk = await renderChunk();
+    const separated = !!chunk && isMarkdown && needsBlankLine(previous, block, format === DocumentFormat.ANNOTATED_MARKDOWN);
+    const measure = (text: string): number => format === DocumentFormat.BLOCKS
+      ? subtree.reduce((sum, b) => sum + serializedBlockSize(b), 0)
+      : text.length + 1 + (separated ? 1 : 0);
+
+    let chunkSize = measure(chunk);
+    if (endIndex === undefined && end > start && size + chunkSize > budget) {
+      break;
+    }
+
+    // 素材只下載確定放進本頁的 blocks（先以 lark:// 佔位連結估算），下載後改用本機路徑重新渲染；
+    // 路徑長度的差異由 PAGE_OVERHEAD 吸收，不再因此把已下載的 block 移到下一頁
+    if (media && subtree.some((b) => b.block_type === 27 || b.block_type === 23)) {
+      await downloadMediaFiles(subtree, options.mediaDir!, media);
+      chunk = await renderChunk();
+      chunkSize = measure(chunk);
+    }
+
+    size += chunkSize;
+    if (separated) chunks.push("");
+    if (chunk) {
+      chunks.push(chunk);
+      previous = block;
+    }
+    if (format === DocumentFormat.BLOCKS) pageBlocks.push(...subtree);
+    end++;
+  }
+
+  const hasMore = end < total;
+  return {
+    ...(format === DocumentFormat.BLOCKS ? { blocks: pageBlocks } : { content: chunks.join("\n") }),
+    total_blocks: total,
+    start_index: start,
+    end_index: end,
+    has_more: hasMore,
+    ...(hasMore ? { next_index: end } : {}),
+  };
+}
+
+/**
+ * block 在 documentPageResponse 回應（{ "items": [...] }，縮排 2）中佔用的字元數：
+ * 陣列元素每行多 4 個空白縮排，另加分隔的 ",\n"
+ */
+function serializedBlockSize(block: LarkBlock): number {
+  const json = JSON.stringify(block, null, 2);
+  return json.length + 4 * json.split("\n").length + 2;
+}
+
+/**
+ * 取得根層級 blocks：完整文件為 Page block 的 children，片段則為各自的頂層 blocks
+ */
+function getTopLevelBlockIds(blocks: LarkBlock[], blockMap: Map<string, LarkBlock>): string[] {
+  const rootIds = findRootBlockIds(blocks);
+  const page = rootIds.length === 1 ? blockMap.get(rootIds[0]) : undefined;
+  if (page?.block_type === 1) {
+    return (page.children || []).filter((id) => blockMap.has(id));
+  }
+  return rootIds;
+}
+
+/**
+ * 收集 block 及其所有後代（深度優先，含表格 cell）
+ */
+function collectSubtree(blockId: string, blockMap: Map<string, LarkBlock>): LarkBlock[] {
+  const block = blockMap.get(blockId);
+  if (!block) return [];
+  return [block, ...(block.children || []).flatMap((id) => collectSubtree(id, blockMap))];
+}
+
+/**
+ * 純文字：不含 Markdown 標記，表格以 tab 分隔
+ */
+function extractPlainText(content?: LarkTextContent, mentions?: MentionNames): string {
+  if (!content?.elements) return "";
+  return content.elements.map((el) => {
+    if (el.mention_user) return `@${getMentionUserName(el.mention_user.user_id, mentions)}`;
+    if (el.mention_doc) return getMentionDocTitle(el.mention_doc, mentions);
+    return el.text_run?.content ?? el.equation?.content ?? "";
+  }).join("");
+}
+
+function renderPlainText(
+  block: LarkBlock,
+  blockMap: Map<string, LarkBlock>,
+  mentions?: MentionNames
+): string[] {
+  if (block.block_type === 31) {
+    const cells = block.table?.cells || [];
+    const cols = block.table?.property?.column_size || 1;
+    const lines: string[] = [];
+    for (let i = 0; i < cells.length; i += cols) {
+      const row = cells.slice(i, i + cols).map((cellId) => {
+        const cell = blockMap.get(cellId);
+        return (cell?.children || [])
+          .flatMap((id) => {
+            const child = blockMap.get(id);
+            return child ? renderPlainText(child, blockMap, mentions) : [];
+          })
+          .join(" ");
+      });
+      lines.push(row.join("\t"));
+    }
+    return lines;
+  }
+
+  const text = extractPlainText(getTextContent(block), mentions);
+  const lines = text ? [text] : [];
+  for (const childId of block.children || []) {
+    const child = blockMap.get(childId);
+    if (child) lines.push(...renderPlainText(child, blockMap, mentions));
+  }
+  return lines;
+}
+
+/**
+ * 大綱：只輸出標題（依層級縮排），附根層級 index 與 block_id
+ */
+function renderOutline(
+  block: LarkBlock,
+  blockMap: Map<string, LarkBlock>,
+  rootIndex: number,
+  mentions?: MentionNames
+): string[] {
+  const lines: string[] = [];
+  if (block.block_type >= 3 && block.block_type <= 11) {
+    const level = block.block_type - 2;
+    const content = block[`heading${level}` as keyof LarkBlock] as LarkTextContent | undefined;
+    lines.push(`${"  ".repeat(level - 1)}- ${extractPlainText(content, mentions)} (index ${rootIndex}, ${block.block_id})`);
+  }
+  for (const childId of block.children || []) {
+    const child = blockMap.get(childId);
+    if (child) lines.push(...renderOutline(child, blockMap, rootIndex, mentions));
+  }
+  return lines;
+}
+
+// =============================================================================
+// Annotated Markdown 差異比對
+// =============================================================================
+
+interface AnnotatedSegment {
+  blockId: string;
+  rootIndex?: number;
+  lines: string[];
+}
+
+/**
+ * 依錨點切分 annotated Markdown；第一個錨點前的內容放在 leading
+ */
+function splitAnnotatedMarkdown(markdown: string): { leading: string[]; segments: AnnotatedSegment[] } {
+  const leading: string[] = [];
+  const segments: AnnotatedSegment[] = [];
+
+  for (const line of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    const match = ANCHOR_RE.exec(line);
+    if (match) {
+      segments.push({
+        blockId: match[1],
+        rootIndex: match[2] !== undefined ? Number(match[2]) : undefined,
+        lines: [],
+      });
+    } else if (segments.length > 0) {
+      segments[segments.length - 1].lines.push(line);
+    } else {
+      leading.push(line);
+    }
+  }
+
+  return { leading, segments };
+}
+
+/**
+ * 比較用的正規化：去除行尾空白與空行（包含只剩引用符號的行）
+ */
+function normalizeSegmentLines(lines: string[]): string[] {
+  return lines.map((line) => line.trimEnd()).filter((line) => line.replace(/[\s>]/g, "") !== "");
+}
+
+/**
+ * 去除共同縮排，讓巢狀 block 的 Markdown 能獨立轉換
+ */
+function dedentLines(lines: string[]): string[] {
+  const indents = lines.filter((line) => line.trim()).map((line) => /^ */.exec(line)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(common));
+}
+
+function trimBlankLines(lines: string[]): string {
+  return lines.join("\n").replace(/^\s*\n/, "").trimEnd();
+}
+
+/**
+ * 將修改後的單一 block Markdown 轉為可傳給 doc_batch_update_blocks 的 elements
+ * 只有轉換結果恰為一個不含子 block 的文字類 block 時才回傳
+ */
+function markdownToUpdateElements(markdown: string): TextElement[] | undefined {
+  const converted = markdownToBlocks(dedentLines(markdown.split("\n")).join("\n"));
+  if (converted.length !== 1 || converted[0]._children) return undefined;
+  const content = getTextContent(converted[0] as unknown as LarkBlock);
+  return content?.elements;
+}
+
+/**
+ * 比對原始 blocks 與編輯後的 annotated Markdown（由 blocksToMarkdown annotated 模式產生）
+ *
+ * - 錨點保留但內容不同 → changed（附上轉換好的 elements，可直接用於 doc_batch_update_blocks）
+ * - 原始錨點在編輯後消失 → removed
+ * - 沒有錨點的新內容 → added（以前一個錨點定位；接在原內容之後的新段落也視為 added）
+ * 重複或不存在於原文件的錨點視為新內容。
+ */
+export async function diffAnnotatedMarkdown(
+  blocks: LarkBlock[],
+  editedMarkdown: string
+): Promise<AnnotatedMarkdownDiff> {
+  const blockMap = new Map<string, LarkBlock>();
+  for (const block of blocks) {
+    blockMap.set(block.block_id, block);
+  }
+
+  const original = splitAnnotatedMarkdown(await blocksToMarkdown(blocks, { annotated: true }));
+  const originalSegments = new Map(original.segments.map((segment) => [segment.blockId, segment]));
+  const edited = splitAnnotatedMarkdown(editedMarkdown);
+
+  const diff: AnnotatedMarkdownDiff = { changed: [], removed: [], added: [], unchanged_count: 0 };
+  const seen = new Set<string>();
+  let anchor: AnnotatedSegment | undefined;
+
+  const addContent = (lines: string[]) => {
+    const markdown = trimBlankLines(dedentLines(lines));
+    if (!markdown) return;
+    const last = diff.added[diff.added.length - 1];
+    if (last && last.after_block_id === anchor?.blockId) {
+      last.markdown += `\n\n${markdown}`;
+      return;
+    }
+    diff.added.push({
+      after_block_id: anchor?.blockId ?? null,
+      ...(anchor?.rootIndex !== undefined ? { after_index: anchor.rootIndex } : {}),
+      markdown,
+    });
+  };
+
+  addContent(edited.leading);
+
+  for (const segment of edited.segments) {
+    const originalSegment = originalSegments.get(segment.blockId);
+    if (!originalSegment || seen.has(segment.blockId)) {
+      addContent(segment.lines);
+      continue;
+    }
+    seen.add(segment.blockId);
+    anchor = originalSegment;
+
+    const before = normalizeSegmentLines(originalSegment.lines);
+    const after = normalizeSegmentLines(segment.lines);
+    // 空段落等原本沒有內容的 block，編輯後仍為空即視為未變動
+    if (before.length === 0 && after.length === 0) {
+      diff.unchanged_count++;
+      continue;
+    }
+    const isPrefix = before.length > 0 && before.every((line, i) => after[i] === line);
+
+    if (isPrefix) {
+      diff.unchanged_count++;
+      if (after.length > before.length) {
+        // 原內容不變，其後新增的行視為新 blocks
+        let matched = 0;
+        const rest = segment.lines.findIndex((line) => {
+          if (matched === before.length) return true;
+          if (normalizeSegmentLines([line]).length > 0) matched++;
+          return false;
+        });
+        addContent(segment.lines.slice(rest));
+      }
+      continue;
+    }
+
+    const markdown = trimBlankLines(segment.lines);
+    const elements = markdown ? markdownToUpdateElements(markdown) : undefined;
+    diff.changed.push({
+      block_id: segment.blockId,
+      ...(originalSegment.rootIndex !== undefined ? { index: originalSegment.rootIndex } : {}),
+      block_type: blockMap.get(segment.blockId)?.block_type ?? 0,
+      markdown,
+      ...(elements ? { elements } : {}),
+    });
+  }
+
+  for (const segment of original.segments) {
+    if (seen.has(segment.blockId)) continue;
+    diff.removed.push({
+      block_id: segment.blockId,
+      ...(segment.rootIndex !== undefined ? { index: segment.rootIndex } : {}),
+      block_type: blockMap.get(segment.blockId)?.block_type ?? 0,
+    });
+  }
+
+  return diff;
+}
+
+// =============================================================================
+// Markdown → Lark Blocks
+// =============================================================================
+
+type TextElement = NonNullable<LarkTextContent["elements"]>[number];
+type TextElementStyle = NonNullable<NonNullable<TextElement["text_run"]>["text_element_style"]>;
+
+/**
+ * 可直接傳給 insertBlocks 的 block（容器使用 _children、表格使用 _cellContents）
+ */
+type BlockInput = Record<string, unknown>;
+
+const FENCE_RE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const HEADING_RE = /^ {0,3}(#{1,9})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK_RE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_RE = /^ {0,3}(=+|-+)[ \t]*$/;
+const BLOCKQUOTE_RE = /^ {0,3}> ?/;
+const LIST_ITEM_RE = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TASK_RE = /^\[([ xX])\](?:[ \t]+|$)/;
+const TABLE_DELIMITER_RE = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const MATH_BLOCK_RE = /^ {0,3}\$\$/;
+// blocksToMarkdown 輸出的佔位內容：單獨成段的 lark:// 圖片 / 附件連結與空段落
+const IMAGE_PLACEHOLDER_RE = /^!\[[^\]]*\]\(lark:\/\/image\/([\w-]+)\)$/;
+const FILE_PLACEHOLDER_RE = /^📎 \[[^\]]*\]\(lark:\/\/file\/([\w-]+)\)$/u;
+const EMPTY_PARAGRAPH_RE = /^<br\s*\/?>$/i;
+
+/**
+ * 將 Markdown 轉換為 Lark Blocks
+ * 支援 CommonMark + GFM：標題、巢狀列表、任務列表、fenced code、引用、表格、行內樣式與 $math$
+ */
+export function markdownToBlocks(markdown: string): BlockInput[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n").map(expandLeadingTabs);
+  return parseBlocks(lines);
+}
+
+/**
+ * 解析寫入工具的內容參數（blocks 與 markdown 擇一）
+ */
+export function resolveContentBlocks(
+  blocks?: BlockInput[],
+  markdown?: string
+): BlockInput[] {
+  if (blocks?.length && markdown !== undefined) {
+    throw new Error("Provide either blocks or markdown, not both");
+  }
+  if (markdown !== undefined) {
+    const converted = markdownToBlocks(markdown);
+    if (converted.length === 0) {
+      throw new Error("Markdown content produced no blocks");
+    }
+    return converted;
+  }
+  if (!blocks?.length) {
+    throw new Error("Either blocks or markdown is required");
+  }
+  return blocks;
+}
+
+/**
+ * 將行首 tab 展開為 4 個空白（縮排判斷用）
+ */
+function expandLeadingTabs(line: string): string {
+  const match = line.match(/^[ \t]+/);
+  if (!match || !match[0].includes("\t")) return line;
+
+  let width = 0;
+  for (const ch of match[0]) {
+    width = ch === "\t" ? width + 4 - (width % 4) : width + 1;
+  }
+  return " ".repeat(width) + line.slice(match[0].length);
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === "";
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * 移除最多 n 個行首空白
+ */
+function stripIndent(line: string, n: number): string {
+  let i = 0;
+  while (i < n && line[i] === " ") i++;
+  return line.slice(i);
+}
+
+/**
+ * 判斷該行是否會中斷段落（開始新的 block）
+ */
+function startsNewBlock(line: string, nextLine?: string): boolean {
+  return (
+    FENCE_RE.test(line) ||
+    HEADING_RE.test(line) ||
+    THEMATIC_BREAK_RE.test(line) ||
+    BLOCKQUOTE_RE.test(line) ||
+    MATH_BLOCK_RE.test(line) ||
+    LIST_ITEM_RE.test(line) ||
+    isTableStart(line, nextLine)
+  );
+}
+
+function isTableStart(line: string, nextLine?: string): boolean {
+  if (!line.includes("|") || nextLine === undefined || !TABLE_DELIMITER_RE.test(nextLine)) {
+    return false;
+  }
+  return splitTableRow(line).length === splitTableRow(nextLine).length;
+}
+
+/**
+ * 區塊層級解析
+ */
+function parseBlocks(lines: string[]): BlockInput[] {
+  const blocks: BlockInput[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      const [, indent, marker, info] = fence;
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const closing = lines[i].match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+        if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) {
+          i++;
+          break;
+        }
+        codeLines.push(stripIndent(lines[i], indent.length));
+        i++;
+      }
+      blocks.push(codeBlock(codeLines.join("\n"), info));
+      continue;
+    }
+
+    // Math block（$$ ... $$）→ 只含公式的段落
+    if (MATH_BLOCK_RE.test(line)) {
+      const opening = line.trim().slice(2);
+      const mathLines: string[] = [];
+      if (opening.endsWith("$$")) {
+        mathLines.push(opening.slice(0, -2));
+        i++;
+      } else {
+        if (opening) mathLines.push(opening);
+        i++;
+        while (i < lines.length) {
+          const current = lines[i].trim();
+          i++;
+          if (current.endsWith("$$")) {
+            const rest = current.slice(0, -2);
+            if (rest) mathLines.push(rest);
+            break;
+          }
+          mathLines.push(current);
+        }
+      }
+      const content = mathLines.join("\n").trim();
+      if (content) {
+        blocks.push({ block_type: 2, text: { elements: [{ equation: { content } }] } });
+      }
+      continue;
+    }
+
+    // ATX heading
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      blocks.push(headingBlock(heading[1].length, parseInline(heading[2] ?? "")));
+      i++;
+      continue;
+    }
+
+    // Divider
+    if (THEMATIC_BREAK_RE.test(line)) {
+      blocks.push({ block_type: 22, divider: {} });
+      i++;
+      continue;
+    }
+
+    // Blockquote
+    if (BLOCKQUOTE_RE.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (BLOCKQUOTE_RE.test(lines[i])) {
+          quoteLines.push(lines[i].replace(BLOCKQUOTE_RE, ""));
+        } else if (quoteLines.length && !startsNewBlock(lines[i], lines[i + 1])) {
+          // Lazy continuation
+          quoteLines.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push(quoteBlock(parseBlocks(quoteLines)));
+      continue;
+    }
+
+    // Table
+    if (isTableStart(line, lines[i + 1])) {
+      const header = splitTableRow(line);
+      const alignments = splitTableRow(lines[i + 1]).map(parseAlignment);
+      const rows: string[][] = [header];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes("|")) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push(tableBlock(rows, alignments));
+      continue;
+    }
+
+    // List
+    if (LIST_ITEM_RE.test(line)) {
+      const { items, next } = parseList(lines, i);
+      // 分隔符號改變時 CommonMark 視為新列表，Lark 的相鄰 Ordered blocks 則會接續編號，需明確重新起算
+      if (items[0].block_type === 13 && blocks[blocks.length - 1]?.block_type === 13) {
+        (items[0].ordered as LarkTextContent).style = { sequence: "1" };
+      }
+      blocks.push(...items);
+      i = next;
+      continue;
+    }
+
+    // Indented code
+    if (leadingSpaces(line) >= 4) {
+      const codeLines: string[] = [];
+      while (i < lines.length && (isBlank(lines[i]) || leadingSpaces(lines[i]) >= 4)) {
+        codeLines.push(stripIndent(lines[i], 4));
+        i++;
+      }
+      while (codeLines.length && isBlank(codeLines[codeLines.length - 1])) codeLines.pop();
+      blocks.push(codeBlock(codeLines.join("\n"), ""));
+      continue;
+    }
+
+    // Paragraph（含 setext heading）
+    const paragraphLines: string[] = [line];
+    i++;
+    let setextLevel = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const setext = lines[i].match(SETEXT_RE);
+      if (setext) {
+        setextLevel = setext[1][0] === "=" ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsNewBlock(lines[i], lines[i + 1])) break;
+      paragraphLines.push(lines[i]);
+      i++;
+    }
+
+    const paragraph = joinParagraphLines(paragraphLines);
+    if (!setextLevel) {
+      const placeholder = placeholderBlock(paragraph);
+      if (placeholder) {
+        blocks.push(placeholder);
+        continue;
+      }
+    }
+    const elements = parseInline(paragraph);
+    blocks.push(setextLevel ? headingBlock(setextLevel, elements) : textBlock(elements));
+  }
+
+  return blocks;
+}
+
+/**
+ * 解析連續的列表項目，巢狀內容放入 _children
+ */
+function parseList(lines: string[], start: number): { items: BlockInput[]; next: number } {
+  const items: BlockInput[] = [];
+  const first = lines[start].match(LIST_ITEM_RE)!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM_RE);
+    if (!match || /\d/.test(match[2]) !== ordered || match[2].slice(-1) !== delimiter) break;
+    if (THEMATIC_BREAK_RE.test(lines[i])) break;
+
+    const [, indent, marker, spacing = "", content = ""] = match;
+    const contentIndent = indent.length + marker.length + (content && spacing.length <= 4 ? spacing.length : 1);
+    const itemLines: string[] = [content];
+    i++;
+
+    while (i < lines.length) {
+      const current = lines[i];
+      if (isBlank(current)) {
+        itemLines.push("");
+        i++;
+        continue;
+      }
+      if (leadingSpaces(current) >= contentIndent) {
+        itemLines.push(stripIndent(current, contentIndent));
+        i++;
+        continue;
+      }
+      // Lazy continuation（前一行非空白且不是新 block）
+      if (!isBlank(itemLines[itemLines.length - 1]) && !startsNewBlock(current, lines[i + 1])) {
+        itemLines.push(current.trimStart());
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    // 項目結尾的空行交還給外層
+    while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+      itemLines.pop();
+      i--;
+    }
+    items.push(listItemBlock(itemLines, ordered));
+
+    // 跳過項目之間的空行
+    let lookahead = i;
+    while (lookahead < lines.length && isBlank(lines[lookahead])) lookahead++;
+    if (lookahead < lines.length && LIST_ITEM_RE.test(lines[lookahead]) && leadingSpaces(lines[lookahead]) < contentIndent) {
+      i = lookahead;
+    }
+  }
+
+  return { items, next: i };
+}
+
+/**
+ * 建立單一列表項目（Bullet / Ordered / Todo）
+ */
+function listItemBlock(itemLines: string[], ordered: boolean): BlockInput {
+  let done: boolean | undefined;
+  const task = itemLines[0].match(TASK_RE);
+  if (task) {
+    done = task[1] !== " ";
+    itemLines = [itemLines[0].slice(task[0].length), ...itemLines.slice(1)];
+  }
+
+  const inner = parseBlocks(itemLines);
+  let elements: TextElement[] = [];
+  if (inner.length && inner[0].block_type === 2 && !isBlank(itemLines[0])) {
+    elements = (inner.shift()!.text as LarkTextContent).elements ?? [];
+  }
+  if (elements.length === 0) {
+    elements = [{ text_run: { content: "" } }];
+  }
+
+  let block: BlockInput;
+  if (done !== undefined) {
+    block = { block_type: 17, todo: { elements, style: { done } } };
+  } else if (ordered) {
+    block = { block_type: 13, ordered: { elements } };
+  } else {
+    block = { block_type: 12, bullet: { elements } };
+  }
+
+  if (inner.length) {
+    block._children = inner;
+  }
+  return block;
+}
+
+/**
+ * 還原 blocksToMarkdown 的佔位段落：lark:// 圖片、附件（沿用既有素材 token）與空段落
+ */
+function placeholderBlock(paragraph: string): BlockInput | undefined {
+  const image = paragraph.match(IMAGE_PLACEHOLDER_RE);
+  if (image) return { block_type: 27, image: { token: image[1] } };
+  const file = paragraph.match(FILE_PLACEHOLDER_RE);
+  if (file) return { block_type: 23, file: { token: file[1] } };
+  if (EMPTY_PARAGRAPH_RE.test(paragraph)) return textBlock([{ text_run: { content: "" } }]);
+  return undefined;
+}
+
+function textBlock(elements: TextElement[]): BlockInput {
+  return { block_type: 2, text: { elements } };
+}
+
+function headingBlock(level: number, elements: TextElement[]): BlockInput {
+  return { block_type: 2 + level, [`heading${level}`]: { elements } };
+}
+
+function codeBlock(code: string, info: string): BlockInput {
+  return {
+    block_type: 14,
+    code: {
+      elements: [{ text_run: { content: code } }],
+      style: { language: info ? getLanguageCode(info) : 1 },
+    },
+  };
+}
+
+/**
+ * 引用：單一段落使用 Quote block，多段落或含其他 block 時使用 QuoteContainer + _children
+ */
+function quoteBlock(children: BlockInput[]): BlockInput {
+  if (children.length === 1 && children[0].block_type === 2) {
+    return { block_type: 15, quote: children[0].text };
+  }
+  return { block_type: 34, quote_container: {}, _children: children };
+}
+
+/**
+ * 表格：cell 內容放入 _cellContents（row-major），由 insertTableBlock 填入
+ */
+function tableBlock(rows: string[][], alignments: Array<number | undefined>): BlockInput {
+  const columnSize = rows[0].length;
+  const cellContents: LarkTextContent[] = [];
+
+  for (const row of rows) {
+    for (let col = 0; col < columnSize; col++) {
+      // 欄數不足或空白的 cell 以空字串補齊（elements 不可為空陣列）
+      const elements = parseInline(row[col] ?? "");
+      const content: LarkTextContent = { elements: elements.length ? elements : [{ text_run: { content: "" } }] };
+      if (alignments[col]) {
+        content.style = { align: alignments[col] };
+      }
+      cellContents.push(content);
+    }
+  }
+
+  return {
+    block_type: 31,
+    table: {
+      property: {
+        row_size: rows.length,
+        column_size: columnSize,
+        header_row: true,
+      },
+    },
+    _cellContents: cellContents,
+  };
+}
+
+/**
+ * 拆分表格列（支援 \| 跳脫）
+ */
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = "";
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === "\\" && row[i + 1] === "|") {
+      current += "|";
+      i++;
+    } else if (row[i] === "|") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * 表格對齊（1=left, 2=center, 3=right）
+ */
+function parseAlignment(cell: string): number | undefined {
+  const left = cell.startsWith(":");
+  const right = cell.endsWith(":");
+  if (left && right) return 2;
+  if (right) return 3;
+  if (left) return 1;
+  return undefined;
+}
+
+/**
+ * 合併段落行：行尾兩個空白或反斜線為硬換行，其餘為空白
+ */
+function joinParagraphLines(lines: string[]): string {
+  let text = "";
+  lines.forEach((raw, index) => {
+    const line = index === 0 ? raw.trimStart() : raw.trim();
+    const isLast = index === lines.length - 1;
+    if (isLast) {
+      text += line.trimEnd();
+    } else if (/ {2,}$/.test(raw) || line.endsWith("\\")) {
+      text += line.replace(/\\$/, "").trimEnd() + "\n";
+    } else {
+      text += line.trimEnd() + " ";
+    }
+  });
+  return text;
+}
+
+// ─── Inline 解析 ────────────────────────────────────────────
+
+const ESCAPABLE_RE = /[!-/:-@[-`{-~]/;
+const EMPHASIS_DELIMITERS: Array<{ delimiter: string; style: TextElementStyle }> = [
+  { delimiter: "***", style: { bold: true, italic: true } },
+  { delimiter: "___", style: { bold: true, italic: true } },
+  { delimiter: "**", style: { bold: true } },
+  { delimiter: "__", style: { bold: true } },
+  { delimiter: "~~", style: { strikethrough: true } },
+  { delimiter: "*", style: { italic: true } },
+  { delimiter: "_", style: { italic: true } },
+];
+
+function textRun(content: string, style: TextElementStyle): TextElement {
+  return Object.keys(style).length > 0
+    ? { text_run: { content, text_element_style: { ...style } } }
+    : { text_run: { content } };
+}
+
+/**
+ * 解析行內 Markdown 為 Lark text elements
+ */
+export function parseInline(text: string, style: TextElementStyle = {}): TextElement[] {
+  const elements: TextElement[] = [];
+  let buffer = "";
+
+  const flush = () => {
+    if (buffer) {
+      elements.push(textRun(buffer, style));
+      buffer = "";
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    // 跳脫字元
+    if (ch === "\\" && i + 1 < text.length && ESCAPABLE_RE.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Inline code
+    if (ch === "`") {
+      let runLength = 1;
+      while (text[i + runLength] === "`") runLength++;
+      const close = findCodeSpanClose(text, i + runLength, runLength);
+      if (close === -1) {
+        buffer += "`".repeat(runLength);
+        i += runLength;
+        continue;
+      }
+      let code = text.slice(i + runLength, close);
+      if (code.length > 2 && code.startsWith(" ") && code.endsWith(" ") && code.trim()) {
+        code = code.slice(1, -1);
+      }
+      flush();
+      elements.push(textRun(code, { ...style, inline_code: true }));
+      i = close + runLength;
+      continue;
+    }
+
+    // Inline math
+    if (ch === "$" && text[i + 1] !== "$" && text[i + 1] && !/\s/.test(text[i + 1])) {
+      const close = findMathClose(text, i + 1);
+      if (close !== -1) {
+        flush();
+        elements.push({ equation: { content: text.slice(i + 1, close) } });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    // Image（無法上傳，轉為連結）與 Link
+    if (ch === "[" || (ch === "!" && text[i + 1] === "[")) {
+      const labelStart = ch === "!" ? i + 1 : i;
+      const link = parseLink(text, labelStart);
+      if (link) {
+        flush();
+        const mention = ch === "[" ? mentionElement(link.url) : undefined;
+        if (mention) {
+          elements.push(mention);
+          i = link.end;
+          continue;
+        }
+        const label = ch === "!" ? link.label || link.url : link.label;
+        elements.push(...parseInline(label, { ...style, link: { url: encodeURIComponent(link.url) } }));
+        i = link.end;
+        continue;
+      }
+    }
+
+    // Autolink <https://...>
+    if (ch === "<") {
+      const autolink = text.slice(i).match(/^<((?:https?|mailto):[^\s<>]+)>/i);
+      if (autolink) {
+        flush();
+        elements.push(textRun(autolink[1], { ...style, link: { url: encodeURIComponent(autolink[1]) } }));
+        i += autolink[0].length;
+        continue;
+      }
+      const lineBreak = text.slice(i).match(/^<br\s*\/?>/i);
+      if (lineBreak) {
+        buffer += "\n";
+        i += lineBreak[0].length;
+        continue;
+      }
+    }
+
+    // GFM bare URL
+    if ((ch === "h" || ch === "H") && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+      const bareUrl = text.slice(i).match(/^https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~]/i);
+      if (bareUrl && !style.link) {
+        flush();
+        elements.push(textRun(bareUrl[0], { ...style, link: { url: encodeURIComponent(bareUrl[0]) } }));
+        i += bareUrl[0].length;
+        continue;
+      }
+    }
+
+    // Emphasis / strikethrough
+    if (ch === "*" || ch === "_" || ch === "~") {
+      const emphasis = matchEmphasis(text, i);
+      if (emphasis) {
+        flush();
+        elements.push(...parseInline(emphasis.inner, { ...style, ...emphasis.style }));
+        i = emphasis.end;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return elements;
+}
+
+/**
+ * 找出 inline code 的結尾（與開頭相同數量的反引號），找不到時回傳 -1
+ */
+function findCodeSpanClose(text: string, from: number, runLength: number): number {
+  const ticks = "`".repeat(runLength);
+  let close = text.indexOf(ticks, from);
+  while (close !== -1 && text[close + runLength] === "`") {
+    close = text.indexOf(ticks, close + runLength + 1);
+  }
+  return close;
+}
+
+/**
+ * 還原 lark://user/{user_id} 與 lark://doc/{obj_type}/{token} 佔位連結為 @提及與文件連結
+ */
+function mentionElement(url: string): TextElement | undefined {
+  const user = url.match(/^lark:\/\/user\/([\w-]+)$/);
+  if (user) return { mention_user: { user_id: user[1] } };
+  const doc = url.match(/^lark:\/\/doc\/(\d+)\/([\w-]+)$/);
+  if (doc) return { mention_doc: { token: doc[2], obj_type: Number(doc[1]) } };
+  return undefined;
+}
+
+/**
+ * 找出 inline math 的結尾 $（前一字元不可為空白，後一字元不可為數字）
+ */
+function findMathClose(text: string, from: number): number {
+  for (let j = from; j < text.length; j++) {
+    if (text[j] === "\\") {
+      j++;
+      continue;
+    }
+    if (text[j] === "$") {
+      if (/\s/.test(text[j - 1]) || /\d/.test(text[j + 1] ?? "")) return -1;
+      return j;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 解析 [label](url "title")
+ */
+function parseLink(text: string, start: number): { label: string; url: string; end: number } | null {
+  let depth = 0;
+  let labelEnd = -1;
+  for (let j = start; j < text.length; j++) {
+    if (text[j] === "\\") {
+      j++;
+    } else if (text[j] === "[") {
+      depth++;
+    } else if (text[j] === "]") {
+      depth--;
+      if (depth === 0) {
+        labelEnd = j;
+        break;
+      }
+    }
+  }
+  if (labelEnd === -1 || text[labelEnd + 1] !== "(") return null;
+
+  let parenDepth = 0;
+  let destEnd = -1;
+  for (let j = labelEnd + 1; j < text.length; j++) {
+    if (text[j] === "\\") {
+      j++;
+    } else if (text[j] === "(") {
+      parenDepth++;
+    } else if (text[j] === ")") {
+      parenDepth--;
+      if (parenDepth === 0) {
+        destEnd = j;
+        break;
+      }
+    }
+  }
+  if (destEnd === -1) return null;
+
+  const destination = text.slice(labelEnd + 2, destEnd).trim();
+  const url = destination.startsWith("<")
+    ? destination.slice(1, destination.indexOf(">") === -1 ? undefined : destination.indexOf(">"))
+    : destination.split(/\s+/)[0];
+  if (!url) return null;
+
+  return { label: text.slice(start + 1, labelEnd), url, end: destEnd + 1 };
+}
+
+/**
+ * 比對強調語法，回傳內文與對應樣式
+ */
+function matchEmphasis(
+  text: string,
+  start: number
+): { inner: string; style: TextElementStyle; end: number } | null {
+  const ch = text[start];
+  let runLength = 0;
+  while (text[start + runLength] === ch) runLength++;
+
+  for (const { delimiter, style } of EMPHASIS_DELIMITERS) {
+    if (delimiter[0] !== ch || delimiter.length > runLength) continue;
+
+    const contentStart = start + delimiter.length;
+    if (!text[contentStart] || /\s/.test(text[contentStart])) continue;
+    // 底線不可出現在單字內（snake_case）
+    if (ch === "_" && start > 0 && /[\p{L}\p{N}]/u.test(text[start - 1])) continue;
+
+    let j = text[contentStart] === "`" ? contentStart : contentStart + 1;
+    while (j < text.length) {
+      if (text[j] === "\\") {
+        j += 2;
+        continue;
+      }
+      if (text[j] === "`") {
+        // 跳過 inline code 內的分隔符
+        let ticks = 1;
+        while (text[j + ticks] === "`") ticks++;
+        const close = findCodeSpanClose(text, j + ticks, ticks);
+        j = close === -1 ? j + ticks : close + ticks;
+        continue;
+      }
+      if (text[j] === ch) {
+        let closeRun = 0;
+        while (text[j + closeRun] === ch) closeRun++;
+        const closesHere =
+          closeRun >= delimiter.length &&
+          !/\s/.test(text[j - 1]) &&
+          (closeRun === delimiter.length || delimiter.length === runLength) &&
+          !(ch === "_" && /[\p{L}\p{N}]/u.test(text[j + closeRun] ?? ""));
+        if (closesHere) {
+          return {
+            inner: text.slice(contentStart, j),
+            style,
+            end: j + delimiter.length,
+          };
+        }
+        j += closeRun;
+        continue;
+      }
+      j++;
+    }
+  }
+
+  return null;
 }
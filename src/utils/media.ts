@@ -0,0 +1,132 @@
+/**
+ * 上傳素材的輸入處理
+ * 讀取本機檔案或 base64 資料，並由檔頭判斷圖片格式與尺寸（不依賴外部套件）
+ */
+
+import { readFile } from "fs/promises";
+import { basename, resolve } from "path";
+
+export type ImageFormat = "png" | "jpeg" | "gif" | "webp" | "bmp";
+
+/**
+ * 圖片格式與原始尺寸（px）
+ */
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+// replace_image 的對齊方式（1=left, 2=center, 3=right）
+export const IMAGE_ALIGN: Record<"left" | "center" | "right", number> = { left: 1, center: 2, right: 3 };
+
+const DATA_URL_RE = /^data:([\w.+-]+\/[\w.+-]+)?(;[^,]*)?;base64,/;
+
+/**
+ * 讀取素材：本機檔案路徑與 base64 擇一（base64 可為 data URL）
+ * fileName 未指定時使用檔案路徑的檔名；base64 未指定時為 undefined，由呼叫端決定
+ */
+export async function readMediaInput(input: {
+  filePath?: string;
+  base64?: string;
+  fileName?: string;
+}): Promise<{ data: Buffer; fileName?: string }> {
+  if (input.filePath && input.base64) {
+    throw new Error("Specify either file_path or base64 data, not both");
+  }
+
+  if (input.filePath) {
+    const path = resolve(input.filePath);
+    const data = await readFile(path);
+    return { data, fileName: input.fileName || basename(path) };
+  }
+
+  if (input.base64) {
+    const data = Buffer.from(input.base64.replace(DATA_URL_RE, "").replace(/\s+/g, ""), "base64");
+    if (data.length === 0) {
+      throw new Error("base64 data is empty or invalid");
+    }
+    return { data, fileName: input.fileName };
+  }
+
+  throw new Error("Either file_path or base64 data is required");
+}
+
+/**
+ * JPEG：掃描 marker 找到 SOF（Start of Frame）取得尺寸
+ */
+function jpegSize(data: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1];
+    // 填充位元組
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const length = data.readUInt16BE(offset + 2);
+    // SOF0-SOF15，排除 DHT(C4)、JPG(C8)、DAC(CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+}
+
+/**
+ * WebP：依 VP8 / VP8L / VP8X chunk 取得尺寸
+ */
+function webpSize(data: Buffer): { width: number; height: number } | undefined {
+  const chunk = data.toString("ascii", 12, 16);
+  if (chunk === "VP8 " && data.length >= 30) {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === "VP8L" && data.length >= 25) {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8X" && data.length >= 30) {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  return undefined;
+}
+
+/**
+ * 由檔頭判斷圖片格式與尺寸，無法辨識時回傳 undefined
+ */
+export function probeImage(data: Buffer): ImageInfo | undefined {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { format: "png", width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    const size = jpegSize(data);
+    return size && { format: "jpeg", ...size };
+  }
+  if (data.length >= 10 && data.toString("ascii", 0, 3) === "GIF") {
+    return { format: "gif", width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (data.length >= 16 && data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") {
+    const size = webpSize(data);
+    return size && { format: "webp", ...size };
+  }
+  if (data.length >= 26 && data.toString("ascii", 0, 2) === "BM") {
+    // 高度為負數時表示由上而下儲存
+    return { format: "bmp", width: data.readInt32LE(18), height: Math.abs(data.readInt32LE(22)) };
+  }
+  return undefined;
+}
+
+/**
+ * 計算顯示尺寸：只指定寬或高時依原始比例推算另一邊，皆未指定時使用原始尺寸
+ */
+export function scaleImage(
+  info: ImageInfo,
+  size: { width?: number; height?: number }
+): { width: number; height: number } {
+  if (size.width && size.height) return { width: size.width, height: size.height };
+  if (size.width) return { width: size.width, height: Math.max(1, Math.round((size.width * info.height) / info.width)) };
+  if (size.height) return { width: Math.max(1, Math.round((size.height * info.width) / info.height)), height: size.height };
+  return { width: info.width, height: info.height };
+}
@@ -3,8 +3,15 @@
  */
 
 import { CHARACTER_LIMIT, ResponseFormat } from "../constants.js";
-import type { ToolResponse, PaginatedResponse } from "../types.js";
-import { LarkError, formatLarkError } from "./errors.js";
+import type { ToolResponse, PaginatedResponse, DocumentPage } from "../types.js";
+import {
+  LarkError,
+  RevisionConflictError,
+  RollbackError,
+  formatLarkError,
+  formatRevisionConflict,
+  formatRollbackError,
+} from "./errors.js";
 
 /**
  * 建立成功回應
@@ -42,6 +49,29 @@ export function success(
   };
 }
 
+/**
+ * 建立素材回應：圖片使用 image content，其他檔案以 embedded resource（blob）回傳
+ */
+export function mediaResponse(
+  message: string,
+  media: { uri: string; data: Buffer; contentType: string; fileName?: string }
+): ToolResponse {
+  const base64 = media.data.toString("base64");
+  const item: ToolResponse["content"][number] = media.contentType.startsWith("image/")
+    ? { type: "image", data: base64, mimeType: media.contentType }
+    : { type: "resource", resource: { uri: media.uri, mimeType: media.contentType, blob: base64 } };
+
+  return {
+    content: [{ type: "text", text: message }, item],
+    structuredContent: {
+      uri: media.uri,
+      content_type: media.contentType,
+      file_name: media.fileName,
+      bytes: media.data.length,
+    },
+  };
+}
+
 /**
  * 建立錯誤回應
  * 符合 MCP Best Practices：結構化錯誤訊息、包含建議
@@ -53,6 +83,10 @@ export function error(message: string, details?: unknown): ToolResponse {
     if (details instanceof LarkError) {
       // 使用結構化格式化（符合 MCP Best Practices）
       text += `\n\n${formatLarkError(details)}`;
+    } else if (details instanceof RevisionConflictError) {
+      text += `\n\n${formatRevisionConflict(details)}`;
+    } else if (details instanceof RollbackError) {
+      text += `\n\n${formatRollbackError(details)}`;
     } else if (details instanceof Error) {
       text += `\n\nDetails: ${details.message}`;
       // 提供具體建議
@@ -185,6 +219,22 @@ export function paginatedResponse<T>(
   return success(message, response, format);
 }
 
+/**
+ * 建立分段讀取文件的回應
+ */
+export function documentPageResponse(message: string, page: DocumentPage): ToolResponse {
+  const revision = page.revision_id !== undefined ? `, revision ${page.revision_id}` : "";
+  const range = `root blocks ${page.start_index}-${page.end_index} of ${page.total_blocks}${revision}`;
+  const more = page.has_more ? `; continue with start_index=${page.next_index}` : "";
+  const header = `${message} (${range}${more})`;
+
+  if (page.blocks) {
+    const { content: _content, blocks, ...paging } = page;
+    return success(header, { items: blocks, ...paging }, ResponseFormat.JSON);
+  }
+  return success(header, page.content || "(empty)");
+}
+
 /**
  * 精簡化 Wiki 節點清單
  */
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import type { LarkBlock } from "../types.js";
+import { findSection, listHeadings } from "./sections.js";
+
+const ROOT = "doc";
+
+const FIELDS: Record<number, string> = { 2: "text", 3: "heading1", 4: "heading2", 5: "heading3" };
+
+function block(id: string, blockType: number, content: string, children: string[] = []): LarkBlock {
+  return {
+    block_id: id,
+    block_type: blockType,
+    parent_id: ROOT,
+    children,
+    [FIELDS[blockType]]: { elements: [{ text_run: { content } }] },
+  } as unknown as LarkBlock;
+}
+
+/**
+ * 建立文件 blocks：根節點依序包含 children，extra 為非根層級的 blocks
+ */
+function page(children: LarkBlock[], extra: LarkBlock[] = []): LarkBlock[] {
+  const root = { block_id: ROOT, block_type: 1, children: children.map((b) => b.block_id) } as LarkBlock;
+  return [root, ...children, ...extra];
+}
+
+// # Intro / p / ## Setup / p / ### Details / ## Rollback / # Appendix / ## Setup
+const blocks = page(
+  [
+    block("h1", 3, "Intro"),
+    block("p1", 2, "text"),
+    block("h2", 4, "Setup"),
+    block("p2", 2, "steps", ["n1"]),
+    block("h3", 5, "Details"),
+    block("h4", 4, "  Rollback  Plan "),
+    block("h5", 3, "Appendix"),
+    block("h6", 4, "Setup"),
+  ],
+  [block("n1", 4, "Nested heading")]
+);
+
+describe("listHeadings", () => {
+  test("lists only top-level headings with their root index and level", () => {
+    expect(listHeadings(blocks, ROOT).map((h) => [h.blockId, h.index, h.level])).toEqual([
+      ["h1", 0, 1],
+      ["h2", 2, 2],
+      ["h3", 4, 3],
+      ["h4", 5, 2],
+      ["h5", 6, 1],
+      ["h6", 7, 2],
+    ]);
+  });
+});
+
+describe("findSection", () => {
+  function range(locator: Parameters<typeof findSection>[2]): [string, number, number] {
+    const section = findSection(blocks, ROOT, locator);
+    return [section.heading.blockId, section.startIndex, section.endIndex];
+  }
+
+  test("a section ends before the next heading of the same or a higher level", () => {
+    expect(range({ heading: "Intro" })).toEqual(["h1", 0, 6]);
+    expect(range({ headingBlockId: "h3" })).toEqual(["h3", 4, 5]);
+    expect(range({ headingBlockId: "h6" })).toEqual(["h6", 7, 8]);
+  });
+
+  test("heading text matches case- and whitespace-insensitively", () => {
+    expect(range({ heading: "rollback plan" })).toEqual(["h4", 5, 6]);
+  });
+
+  test("a Markdown prefix restricts the heading level", () => {
+    expect(range({ heading: "# Appendix" })).toEqual(["h5", 6, 8]);
+    expect(() => range({ heading: "### Appendix" })).toThrow('Heading "### Appendix" not found');
+  });
+
+  test("duplicate headings need an occurrence", () => {
+    expect(() => range({ heading: "Setup" })).toThrow(
+      'Heading "Setup" is ambiguous (2 matches: h2 (index 2), h6 (index 7)); specify occurrence or heading_block_id'
+    );
+    expect(range({ heading: "Setup", occurrence: 2 })).toEqual(["h6", 7, 8]);
+    expect(() => range({ heading: "Setup", occurrence: 3 })).toThrow(
+      'Heading "Setup" occurs 2 time(s), but occurrence is 3'
+    );
+  });
+
+  test("unknown headings list the available ones", () => {
+    expect(() => range({ heading: "Missing" })).toThrow(
+      'Heading "Missing" not found (available: # Intro, ## Setup, ### Details, ##   Rollback  Plan , # Appendix, ## Setup)'
+    );
+  });
+
+  test("nested headings and non-heading blocks are not sections", () => {
+    expect(() => range({ headingBlockId: "n1" })).toThrow("Block n1 is not a top-level heading of the document");
+    expect(() => range({ headingBlockId: "p1" })).toThrow("Block p1 is not a top-level heading of the document");
+    expect(() => range({ heading: "Nested heading" })).toThrow('Heading "Nested heading" not found');
+  });
+
+  test("heading and heading_block_id are mutually exclusive and one is required", () => {
+    expect(() => range({ heading: "Intro", headingBlockId: "h1" })).toThrow(
+      "Specify either heading or heading_block_id, not both"
+    );
+    expect(() => range({})).toThrow("Either heading or heading_block_id is required");
+  });
+});
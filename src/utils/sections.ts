@@ -0,0 +1,355 @@
+/**
+ * 標題區段定位
+ * 以根層級標題劃分文件：區段從標題開始，到下一個同級或更高級的根層級標題之前結束
+ */
+
+import type { LarkBlock, DocumentPage } from "../types.js";
+import type { DocumentFormat } from "../constants.js";
+import {
+  getDocumentBlocks,
+  getDocumentRootBlockId,
+  deleteBlockRange,
+  insertBlocks,
+  assertCopyable,
+} from "../services/lark-client.js";
+import { getTextContent, renderDocumentPage } from "./markdown.js";
+import { captureSnapshot, replaceWithRollback } from "./block-snapshot.js";
+
+/**
+ * 根層級標題
+ */
+export interface Heading {
+  blockId: string;
+  /** 在根節點 children 中的位置 */
+  index: number;
+  /** 1-9 */
+  level: number;
+  text: string;
+}
+
+/**
+ * 標題區段：根層級 children [startIndex, endIndex)，startIndex 為標題本身
+ */
+export interface Section {
+  heading: Heading;
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * 區段定位條件（heading 與 headingBlockId 擇一）
+ */
+export interface SectionLocator {
+  /** 標題文字，可加上 Markdown 前綴限定層級（例如 "## Rollback"） */
+  heading?: string;
+  headingBlockId?: string;
+  /** 同名標題出現多次時選擇第幾個（從 1 開始） */
+  occurrence?: number;
+}
+
+const HEADING_PREFIX_RE = /^(#{1,9})\s+(.*)$/;
+
+// 找不到標題時錯誤訊息列出的候選標題數量
+const MAX_LISTED_HEADINGS = 20;
+
+function normalizeHeadingText(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function headingLevel(block: LarkBlock): number | undefined {
+  return block.block_type >= 3 && block.block_type <= 11 ? block.block_type - 2 : undefined;
+}
+
+function blockText(block: LarkBlock): string {
+  return (getTextContent(block)?.elements || [])
+    .map((el) => el.text_run?.content ?? el.equation?.content ?? "")
+    .join("");
+}
+
+// 中日文以字計算，其他語言以空白/標點分隔的詞計算
+const CJK_CHAR_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const WORD_RE = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+function countWords(text: string): number {
+  const cjk = text.match(CJK_CHAR_RE)?.length ?? 0;
+  return cjk + (text.replace(CJK_CHAR_RE, " ").match(WORD_RE)?.length ?? 0);
+}
+
+/**
+ * 計算 block 及其所有子孫 block 的字數
+ */
+function countBlockWords(block: LarkBlock, blockMap: Map<string, LarkBlock>): number {
+  let count = countWords(blockText(block));
+  for (const childId of block.children || []) {
+    const child = blockMap.get(childId);
+    if (child) count += countBlockWords(child, blockMap);
+  }
+  return count;
+}
+
+/**
+ * 列出文件根層級的標題（依文件順序）
+ */
+export function listHeadings(blocks: LarkBlock[], rootBlockId: string): Heading[] {
+  const blockMap = new Map(blocks.map((b) => [b.block_id, b]));
+  const rootChildren = blockMap.get(rootBlockId)?.children || [];
+
+  return rootChildren.flatMap((id, index): Heading[] => {
+    const block = blockMap.get(id);
+    const level = block && headingLevel(block);
+    if (!block || !level) return [];
+
+    return [{ blockId: id, index, level, text: blockText(block) }];
+  });
+}
+
+/**
+ * 計算標題所屬區段的範圍
+ */
+function sectionOf(headings: Heading[], heading: Heading, rootChildCount: number): Section {
+  const next = headings.find((h) => h.index > heading.index && h.level <= heading.level);
+  return { heading, startIndex: heading.index, endIndex: next ? next.index : rootChildCount };
+}
+
+/**
+ * 依標題文字或標題 block ID 定位區段
+ * 找不到、重複且未指定 occurrence、或 block 不是根層級標題時拋出錯誤
+ */
+export function findSection(blocks: LarkBlock[], rootBlockId: string, locator: SectionLocator): Section {
+  const headings = listHeadings(blocks, rootBlockId);
+  const rootChildCount = blocks.find((b) => b.block_id === rootBlockId)?.children?.length ?? 0;
+
+  if (locator.heading && locator.headingBlockId) {
+    throw new Error("Specify either heading or heading_block_id, not both");
+  }
+
+  if (locator.headingBlockId) {
+    const heading = headings.find((h) => h.blockId === locator.headingBlockId);
+    if (!heading) {
+      throw new Error(`Block ${locator.headingBlockId} is not a top-level heading of the document`);
+    }
+    return sectionOf(headings, heading, rootChildCount);
+  }
+
+  if (!locator.heading) {
+    throw new Error("Either heading or heading_block_id is required");
+  }
+
+  const prefixed = HEADING_PREFIX_RE.exec(locator.heading.trim());
+  const level = prefixed ? prefixed[1].length : undefined;
+  const text = normalizeHeadingText(prefixed ? prefixed[2] : locator.heading);
+  const matches = headings.filter(
+    (h) => normalizeHeadingText(h.text) === text && (level === undefined || h.level === level)
+  );
+
+  if (matches.length === 0) {
+    const available = headings
+      .slice(0, MAX_LISTED_HEADINGS)
+      .map((h) => `${"#".repeat(h.level)} ${h.text}`)
+      .join(", ");
+    throw new Error(`Heading "${locator.heading}" not found${available ? ` (available: ${available})` : " (document has no headings)"}`);
+  }
+
+  if (locator.occurrence !== undefined) {
+    const heading = matches[locator.occurrence - 1];
+    if (!heading) {
+      throw new Error(`Heading "${locator.heading}" occurs ${matches.length} time(s), but occurrence is ${locator.occurrence}`);
+    }
+    return sectionOf(headings, heading, rootChildCount);
+  }
+
+  if (matches.length > 1) {
+    const candidates = matches.map((h) => `${h.blockId} (index ${h.index})`).join(", ");
+    throw new Error(
+      `Heading "${locator.heading}" is ambiguous (${matches.length} matches: ${candidates}); specify occurrence or heading_block_id`
+    );
+  }
+
+  return sectionOf(headings, matches[0], rootChildCount);
+}
+
+/**
+ * 大綱節點：標題與其區段範圍，children 為區段內的下一層標題
+ */
+export interface OutlineNode {
+  level: number;
+  text: string;
+  block_id: string;
+  /** 標題的根層級位置（區段起點） */
+  start_index: number;
+  /** 區段結束位置（不包含） */
+  end_index: number;
+  /** 區段內文字數（不含標題本身，含子標題區段） */
+  word_count: number;
+  children: OutlineNode[];
+}
+
+/**
+ * 文件大綱
+ */
+export interface DocumentOutline {
+  /** 根層級 block 數 */
+  block_count: number;
+  /** 全文字數 */
+  word_count: number;
+  heading_count: number;
+  headings: OutlineNode[];
+}
+
+/**
+ * 依根層級標題建立大綱樹（maxLevel 以下的標題省略，其字數計入上層區段）
+ */
+export function buildOutline(blocks: LarkBlock[], rootBlockId: string, maxLevel = 9): DocumentOutline {
+  const blockMap = new Map(blocks.map((b) => [b.block_id, b]));
+  const rootChildren = blockMap.get(rootBlockId)?.children || [];
+
+  // 根層級字數前綴和：區段 [start, end) 的字數 = prefix[end] - prefix[start]
+  const prefix = [0];
+  for (const id of rootChildren) {
+    const block = blockMap.get(id);
+    prefix.push(prefix[prefix.length - 1] + (block ? countBlockWords(block, blockMap) : 0));
+  }
+
+  const headings = listHeadings(blocks, rootBlockId);
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+  let count = 0;
+
+  for (const heading of headings) {
+    if (heading.level > maxLevel) continue;
+    const section = sectionOf(headings, heading, rootChildren.length);
+    const node: OutlineNode = {
+      level: heading.level,
+      text: heading.text,
+      block_id: heading.blockId,
+      start_index: section.startIndex,
+      end_index: section.endIndex,
+      word_count: prefix[section.endIndex] - prefix[section.startIndex + 1],
+      children: [],
+    };
+    count++;
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+
+  return {
+    block_count: rootChildren.length,
+    word_count: prefix[rootChildren.length],
+    heading_count: count,
+    headings: roots,
+  };
+}
+
+/**
+ * 區段的 Output 欄位（doc_section_* / wiki_section_* 共用）
+ */
+export function sectionFields(section: Section) {
+  return {
+    heading: section.heading.text,
+    heading_block_id: section.heading.blockId,
+    level: section.heading.level,
+    start_index: section.startIndex,
+    end_index: section.endIndex,
+  };
+}
+
+async function locateSection(
+  documentId: string,
+  locator: SectionLocator
+): Promise<{ rootBlockId: string; blocks: LarkBlock[]; section: Section }> {
+  const rootBlockId = await getDocumentRootBlockId(documentId);
+  const blocks = await getDocumentBlocks(documentId);
+  return { rootBlockId, blocks, section: findSection(blocks, rootBlockId, locator) };
+}
+
+/**
+ * 讀取區段內容（依 format 渲染整個區段，不分頁）
+ */
+export async function readSection(
+  documentId: string,
+  locator: SectionLocator,
+  options: { includeHeading: boolean; format: DocumentFormat; resolveMentions?: boolean }
+): Promise<{ section: Section; page: DocumentPage }> {
+  const { blocks, section } = await locateSection(documentId, locator);
+  const start = options.includeHeading ? section.startIndex : section.startIndex + 1;
+  const page = await renderDocumentPage(blocks, options.format, start, section.endIndex, {
+    resolveMentions: options.resolveMentions,
+  });
+  return { section, page };
+}
+
+/**
+ * 以新內容取代區段內文（includeHeading 時連同標題一起取代），插入失敗時還原原內容
+ * @throws 區段含無法重建的 block 時（不刪除任何內容）
+ */
+export async function replaceSection(
+  documentId: string,
+  locator: SectionLocator,
+  content: Array<Record<string, unknown>>,
+  options: { includeHeading: boolean; revisionId?: number }
+): Promise<{ section: Section; deleted: number }> {
+  const { rootBlockId, blocks, section } = await locateSection(documentId, locator);
+  const start = options.includeHeading ? section.startIndex : section.startIndex + 1;
+  const hasNestedBlocks = content.some((b) => b._cellContents || b._children);
+
+  const snapshot = captureSnapshot(documentId, blocks, rootBlockId, start, section.endIndex);
+  // 刪除前確認快照可還原（嵌入的試算表、多維表格、畫板等無法重建）
+  assertCopyable(snapshot.trees);
+  await replaceWithRollback(
+    snapshot,
+    { parentId: rootBlockId, index: start },
+    async (insertRevision) => {
+      // 表格/容器需要等待文件狀態同步
+      if (hasNestedBlocks && snapshot.trees.length > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      await insertBlocks(documentId, rootBlockId, content, start, insertRevision);
+    },
+    options.revisionId
+  );
+
+  return { section, deleted: section.endIndex - start };
+}
+
+/**
+ * 在區段末尾（下一個同級或更高級標題之前）插入內容
+ */
+export async function appendToSection(
+  documentId: string,
+  locator: SectionLocator,
+  content: Array<Record<string, unknown>>,
+  revisionId = -1
+): Promise<Section> {
+  const { rootBlockId, section } = await locateSection(documentId, locator);
+  await insertBlocks(documentId, rootBlockId, content, section.endIndex, revisionId);
+  return section;
+}
+
+/**
+ * 刪除區段（keepHeading 時只刪除內文）
+ */
+export async function deleteSection(
+  documentId: string,
+  locator: SectionLocator,
+  options: { keepHeading: boolean; revisionId?: number }
+): Promise<{ section: Section; deleted: number }> {
+  const { rootBlockId, section } = await locateSection(documentId, locator);
+  const start = options.keepHeading ? section.startIndex + 1 : section.startIndex;
+  if (start >= section.endIndex) {
+    throw new Error(`Section "${section.heading.text}" has no content to delete`);
+  }
+
+  await deleteBlockRange(documentId, rootBlockId, start, section.endIndex, options.revisionId);
+  return { section, deleted: section.endIndex - start };
+}
+
+/**
+ * 讀取文件大綱
+ */
+export async function readOutline(documentId: string, maxLevel?: number): Promise<DocumentOutline> {
+  const rootBlockId = await getDocumentRootBlockId(documentId);
+  const blocks = await getDocumentBlocks(documentId);
+  return buildOutline(blocks, rootBlockId, maxLevel);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { buildTableBlocks, parseDelimited } from "./table-builder.js";
+
+describe("parseDelimited", () => {
+  test("quoted fields keep delimiters, newlines and escaped quotes", () => {
+    expect(parseDelimited('name,note\n"Smith, J","said ""hi""\nthen left"\n', ",")).toEqual([
+      ["name", "note"],
+      ["Smith, J", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  test("CRLF line endings and a trailing newline do not add empty rows", () => {
+    expect(parseDelimited("a\tb\r\n1\t2\r\n", "\t")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  test("empty fields are kept", () => {
+    expect(parseDelimited("a,b,c\n1,,3\n4", ",")).toEqual([["a", "b", "c"], ["1", "", "3"], ["4"]]);
+  });
+
+  test("an unterminated quote is an error", () => {
+    expect(() => parseDelimited('a,b\n"open,2\n', ",")).toThrow("Unterminated quoted field in row 2");
+  });
+});
+
+describe("buildTableBlocks", () => {
+  const empty = [{ text_run: { content: "" } }];
+
+  test("empty and missing cells get an empty text run", () => {
+    const [table] = buildTableBlocks(parseDelimited("a,b,c\n1,,3\n4", ","), { headerRow: true });
+    const cells = (table._cellContents as Array<{ elements: unknown[] }>).map((c) => c.elements);
+    expect(cells.slice(3)).toEqual([
+      [{ text_run: { content: "1" } }], empty, [{ text_run: { content: "3" } }],
+      [{ text_run: { content: "4" } }], empty, empty,
+    ]);
+  });
+
+  test("inline_markdown pads empty cells the same way", () => {
+    const [table] = buildTableBlocks([["a", ""], ["**b**"]], { headerRow: true, inlineMarkdown: true });
+    const cells = (table._cellContents as Array<{ elements: unknown[] }>).map((c) => c.elements);
+    expect(cells).toEqual([
+      [{ text_run: { content: "a" } }], empty,
+      [{ text_run: { content: "b", text_element_style: { bold: true } } }], empty,
+    ]);
+  });
+});
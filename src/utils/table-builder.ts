@@ -0,0 +1,187 @@
+/**
+ * 由 CSV / TSV / JSON records 建立原生表格 block
+ * 產生的 block 帶有 _cellContents（row-major），可直接傳給 insertBlocks，由 insertTableBlock 填入儲存格
+ * 超過 Lark 表格列/欄上限時拆分為多個表格：每個表格重複標題列（header_column 時重複第一欄）
+ */
+
+import type { LarkTextContent } from "../types.js";
+import { TABLE_MAX_ROWS, TABLE_MAX_COLUMNS } from "../constants.js";
+import { parseInline } from "./markdown.js";
+
+export type TableAlign = "left" | "center" | "right";
+
+// 與 Markdown 表格對齊相同（1=left, 2=center, 3=right）
+const ALIGN_VALUES: Record<TableAlign, number> = { left: 1, center: 2, right: 3 };
+
+/**
+ * 表格建立選項
+ */
+export interface TableBuildOptions {
+  /** 第一列為標題列 */
+  headerRow: boolean;
+  /** 第一欄為標題欄 */
+  headerColumn?: boolean;
+  /** 各欄寬度（px），依資料欄位順序，數量需與欄數相同 */
+  columnWidth?: number[];
+  /** 各欄對齊方式，依資料欄位順序 */
+  align?: TableAlign[];
+  /** 將儲存格內容解析為行內 Markdown（預設為純文字） */
+  inlineMarkdown?: boolean;
+  /** 單一表格的列數上限（含標題列） */
+  maxRows?: number;
+  /** 單一表格的欄數上限（含標題欄） */
+  maxColumns?: number;
+}
+
+/**
+ * 解析 CSV / TSV（RFC 4180：雙引號包住的欄位可含分隔符號與換行，"" 為跳脫的雙引號）
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+      } else if (ch === '"') {
+        quoted = false;
+        i++;
+      } else {
+        field += ch;
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === "") {
+      quoted = true;
+      i++;
+    } else if (ch === delimiter) {
+      endField();
+      i++;
+    } else if (ch === "\r" || ch === "\n") {
+      endRow();
+      i += ch === "\r" && text[i + 1] === "\n" ? 2 : 1;
+    } else {
+      field += ch;
+      i++;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field in row ${rows.length + 1}`);
+  }
+  // 結尾換行不產生空白列
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function formatRecordValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * 將 JSON records 轉為列資料，第一列為欄位名稱
+ * columns 未指定時依 records 中首次出現的順序收集所有欄位
+ */
+export function recordsToRows(records: Array<Record<string, unknown>>, columns?: string[]): string[][] {
+  const keys = columns?.length ? columns : [...new Set(records.flatMap((record) => Object.keys(record)))];
+  if (keys.length === 0) {
+    throw new Error("Records have no fields");
+  }
+  return [keys, ...records.map((record) => keys.map((key) => formatRecordValue(record[key])))];
+}
+
+/**
+ * 依上限切分索引：保留的前導索引（標題）重複出現在每一段
+ */
+function chunkIndices(total: number, leading: number, limit: number): number[][] {
+  const head = Array.from({ length: leading }, (_, i) => i);
+  const perChunk = limit - leading;
+  if (perChunk < 1) {
+    throw new Error(`Table limit ${limit} leaves no room for data next to the header`);
+  }
+
+  const chunks: number[][] = [];
+  for (let start = leading; start < total; start += perChunk) {
+    const end = Math.min(start + perChunk, total);
+    chunks.push([...head, ...Array.from({ length: end - start }, (_, i) => start + i)]);
+  }
+  return chunks.length > 0 ? chunks : [head];
+}
+
+/**
+ * 由列資料建立表格 blocks（未超過上限時只有一個）
+ */
+export function buildTableBlocks(rows: string[][], options: TableBuildOptions): Array<Record<string, unknown>> {
+  if (rows.length === 0) {
+    throw new Error("Table data has no rows");
+  }
+
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  if (columnCount === 0) {
+    throw new Error("Table data has no columns");
+  }
+  if (options.columnWidth && options.columnWidth.length !== columnCount) {
+    throw new Error(`column_width has ${options.columnWidth.length} entries, but the table has ${columnCount} columns`);
+  }
+  if (options.align && options.align.length > columnCount) {
+    throw new Error(`align has ${options.align.length} entries, but the table has ${columnCount} columns`);
+  }
+
+  const rowChunks = chunkIndices(rows.length, options.headerRow ? 1 : 0, options.maxRows ?? TABLE_MAX_ROWS);
+  const columnChunks = chunkIndices(columnCount, options.headerColumn ? 1 : 0, options.maxColumns ?? TABLE_MAX_COLUMNS);
+
+  const cellContent = (text: string, column: number): LarkTextContent => {
+    const parsed = options.inlineMarkdown ? parseInline(text) : text ? [{ text_run: { content: text } }] : [];
+    // 空白 cell 以空字串補齊（elements 不可為空陣列），與 Markdown 表格相同
+    const elements = parsed.length ? parsed : [{ text_run: { content: "" } }];
+    const align = options.align?.[column];
+    return align ? { elements, style: { align: ALIGN_VALUES[align] } } : { elements };
+  };
+
+  // 欄位分段在外層：每組欄位的表格依序排列，完整讀完一組再讀下一組
+  const blocks: Array<Record<string, unknown>> = [];
+  for (const columns of columnChunks) {
+    const widths = options.columnWidth?.length ? columns.map((c) => options.columnWidth![c]) : undefined;
+    for (const rowIndices of rowChunks) {
+      const cellContents = rowIndices.flatMap((r) => columns.map((c) => cellContent(rows[r][c] ?? "", c)));
+      blocks.push({
+        block_type: 31,
+        table: {
+          property: {
+            row_size: rowIndices.length,
+            column_size: columns.length,
+            header_row: options.headerRow,
+            ...(options.headerColumn ? { header_column: true } : {}),
+            ...(widths ? { column_width: widths } : {}),
+          },
+        },
+        _cellContents: cellContents,
+      });
+    }
+  }
+  return blocks;
+}
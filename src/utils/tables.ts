@@ -0,0 +1,196 @@
+/**
+ * 原生表格（block_type 31）讀取與儲存格編輯
+ * table.cells 為依列優先排列的 cell block IDs，以 table.property 的 row_size / column_size 還原為二維表格
+ */
+
+import type { LarkBlock } from "../types.js";
+import { getDocumentBlocks, batchUpdateBlocks, deleteBlockRange, insertBlocks } from "../services/lark-client.js";
+import { BATCH_UPDATE_LIMIT } from "../constants.js";
+import { extractText, getTextContent, markdownToBlocks, type MentionNames } from "./markdown.js";
+
+/**
+ * 表格儲存格
+ */
+export interface TableCell {
+  row: number;
+  column: number;
+  block_id: string;
+  /** 儲存格內容（行內 Markdown，多個段落以換行分隔） */
+  text: string;
+  /** 合併儲存格的左上角才有 row_span / col_span（大於 1 時） */
+  row_span?: number;
+  col_span?: number;
+  /** 被合併儲存格覆蓋時，為左上角儲存格的 block_id */
+  merged_into?: string;
+}
+
+/**
+ * 二維表格
+ */
+export interface TableGrid {
+  block_id: string;
+  rows: number;
+  columns: number;
+  header_row: boolean;
+  header_column: boolean;
+  column_width?: number[];
+  cells: TableCell[][];
+}
+
+/**
+ * 儲存格更新（markdown 為空字串時清空儲存格）
+ */
+export interface CellUpdate {
+  row: number;
+  column: number;
+  markdown: string;
+}
+
+/**
+ * 取得表格 block，非表格時拋出錯誤
+ */
+export function getTableBlock(blockMap: Map<string, LarkBlock>, tableBlockId: string): LarkBlock {
+  const table = blockMap.get(tableBlockId);
+  if (!table) {
+    throw new Error(`Block ${tableBlockId} not found`);
+  }
+  if (table.block_type !== 31) {
+    throw new Error(`Block ${tableBlockId} is not a table (block_type ${table.block_type})`);
+  }
+  return table;
+}
+
+/**
+ * 讀取文件 blocks 並取得表格的列數與欄數
+ */
+export async function loadTable(
+  documentId: string,
+  tableBlockId: string
+): Promise<{ blocks: LarkBlock[]; table: LarkBlock; rows: number; columns: number }> {
+  const blocks = await getDocumentBlocks(documentId);
+  const table = getTableBlock(new Map(blocks.map((b) => [b.block_id, b])), tableBlockId);
+  const property = table.table?.property;
+  return { blocks, table, rows: property?.row_size || 0, columns: property?.column_size || 0 };
+}
+
+/**
+ * 將表格 block 還原為二維表格
+ */
+export function readTableGrid(blocks: LarkBlock[], tableBlockId: string, mentions?: MentionNames): TableGrid {
+  const blockMap = new Map(blocks.map((b) => [b.block_id, b]));
+  const table = getTableBlock(blockMap, tableBlockId);
+  const property = table.table?.property || {};
+  const cellIds = table.table?.cells || [];
+  const rows = property.row_size || 0;
+  const columns = property.column_size || 0;
+  const mergeInfo = property.merge_info || [];
+
+  const cells: TableCell[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const rowCells: TableCell[] = [];
+    for (let column = 0; column < columns; column++) {
+      const cellId = cellIds[row * columns + column] || "";
+      const cell = blockMap.get(cellId);
+      const text = (cell?.children || [])
+        .map((id) => blockMap.get(id))
+        .filter((b): b is LarkBlock => !!b)
+        .map((b) => extractText(getTextContent(b), mentions))
+        .join("\n");
+      rowCells.push({ row, column, block_id: cellId, text });
+    }
+    cells.push(rowCells);
+  }
+
+  // 標記合併範圍：左上角記錄 span，其餘被覆蓋的儲存格指向左上角
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const { row_span = 1, col_span = 1 } = mergeInfo[row * columns + column] || {};
+      if (row_span <= 1 && col_span <= 1) continue;
+      if (cells[row][column].merged_into) continue;
+
+      const origin = cells[row][column];
+      origin.row_span = row_span;
+      origin.col_span = col_span;
+      for (let r = row; r < Math.min(row + row_span, rows); r++) {
+        for (let c = column; c < Math.min(column + col_span, columns); c++) {
+          if (r !== row || c !== column) cells[r][c].merged_into = origin.block_id;
+        }
+      }
+    }
+  }
+
+  return {
+    block_id: tableBlockId,
+    rows,
+    columns,
+    header_row: property.header_row ?? false,
+    header_column: property.header_column ?? false,
+    ...(property.column_width ? { column_width: property.column_width } : {}),
+    cells,
+  };
+}
+
+/**
+ * 更新儲存格內容
+ * - 內容為單一段落且儲存格第一個子 block 為文字段落：原地更新文字（批次送出），並刪除其餘子 block
+ * - 其他情況（列表、多段落等）：先插入新內容，再刪除原本的子 blocks（儲存格不可為空）
+ * revisionId 只帶入第一個寫入請求
+ */
+export async function updateTableCells(
+  documentId: string,
+  blocks: LarkBlock[],
+  grid: TableGrid,
+  updates: CellUpdate[],
+  revisionId = -1
+): Promise<void> {
+  const blockMap = new Map(blocks.map((b) => [b.block_id, b]));
+  const textUpdates: Array<{ block_id: string; update_text_elements: { elements: Array<Record<string, unknown>> } }> = [];
+  const trims: Array<{ cellId: string; start: number; end: number }> = [];
+  const replacements: Array<{ cellId: string; content: Array<Record<string, unknown>>; oldCount: number }> = [];
+
+  for (const update of updates) {
+    if (update.row >= grid.rows || update.column >= grid.columns) {
+      throw new Error(
+        `Cell (${update.row}, ${update.column}) is out of range (table is ${grid.rows} x ${grid.columns})`
+      );
+    }
+
+    const cellId = grid.cells[update.row][update.column].block_id;
+    const children = blockMap.get(cellId)?.children || [];
+    const content = update.markdown
+      ? markdownToBlocks(update.markdown)
+      : [{ block_type: 2, text: { elements: [{ text_run: { content: "" } }] } }];
+    const first = children.length > 0 ? blockMap.get(children[0]) : undefined;
+
+    if (content.length === 1 && content[0].block_type === 2 && first?.block_type === 2) {
+      const text = content[0].text as { elements: Array<Record<string, unknown>> };
+      textUpdates.push({ block_id: first.block_id, update_text_elements: { elements: text.elements } });
+      if (children.length > 1) {
+        trims.push({ cellId, start: 1, end: children.length });
+      }
+    } else {
+      replacements.push({ cellId, content, oldCount: children.length });
+    }
+  }
+
+  let pendingRevision = revisionId;
+  const takeRevision = () => {
+    const revision = pendingRevision;
+    pendingRevision = -1;
+    return revision;
+  };
+
+  for (let i = 0; i < textUpdates.length; i += BATCH_UPDATE_LIMIT) {
+    await batchUpdateBlocks(documentId, textUpdates.slice(i, i + BATCH_UPDATE_LIMIT), takeRevision());
+  }
+  for (const trim of trims) {
+    await deleteBlockRange(documentId, trim.cellId, trim.start, trim.end, takeRevision());
+  }
+  for (const replacement of replacements) {
+    await insertBlocks(documentId, replacement.cellId, replacement.content, 0, takeRevision());
+    if (replacement.oldCount > 0) {
+      const start = replacement.content.length;
+      await deleteBlockRange(documentId, replacement.cellId, start, start + replacement.oldCount);
+    }
+  }
+}
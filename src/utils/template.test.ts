@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import type { BlockTree } from "../services/lark-client.js";
+import { renderTemplate, renderTemplateTitle } from "./template.js";
+
+function para(content: string, childTrees: BlockTree[] = []): BlockTree {
+  return { content: { block_type: 2, text: { elements: [{ text_run: { content } }] } }, childTrees };
+}
+
+/**
+ * 建立表格子樹：rows 為各列儲存格文字，mergeInfo 依列優先順序對應每個儲存格
+ */
+function table(rows: string[][], mergeInfo?: Array<{ row_span: number; col_span: number }>): BlockTree {
+  return {
+    content: {
+      block_type: 31,
+      table: {
+        property: { row_size: rows.length, column_size: rows[0].length, ...(mergeInfo ? { merge_info: mergeInfo } : {}) },
+      },
+    },
+    childTrees: rows.flat().map((cell) => ({ content: { block_type: 32, table_cell: {} }, childTrees: [para(cell)] })),
+  };
+}
+
+/**
+ * 取出子樹的文字（表格取各儲存格文字）
+ */
+function texts(trees: BlockTree[]): string[] {
+  return trees.flatMap((tree) => {
+    const text = (tree.content as { text?: { elements: Array<{ text_run?: { content: string } }> } }).text;
+    const own = text ? [text.elements.map((e) => e.text_run?.content ?? "").join("")] : [];
+    return [...own, ...texts(tree.childTrees)];
+  });
+}
+
+describe("renderTemplate", () => {
+  test("variables keep the run style and dotted names read nested fields", () => {
+    const tree: BlockTree = {
+      content: {
+        block_type: 2,
+        text: {
+          elements: [
+            { text_run: { content: "Owner: " } },
+            { text_run: { content: "{{owner.name}}", text_element_style: { bold: true } } },
+            { text_run: { content: " ({{owner.team.code}})" } },
+          ],
+        },
+      },
+      childTrees: [],
+    };
+    const { trees, missing } = renderTemplate([tree], { owner: { name: "Ann", team: { code: "T1" } } });
+    expect((trees[0].content as { text: unknown }).text).toEqual({
+      elements: [
+        { text_run: { content: "Owner: " } },
+        { text_run: { content: "Ann", text_element_style: { bold: true } } },
+        { text_run: { content: " (T1)" } },
+      ],
+    });
+    expect(missing).toEqual([]);
+  });
+
+  test("block sections repeat their siblings per item and {{.}} reads scalar items", () => {
+    const { trees } = renderTemplate(
+      [para("Before"), para("{{#tasks}}"), para("- {{title}} by {{owner}}"), para("{{/tasks}}"), para("{{#tags}}"), para("#{{.}}"), para("{{/tags}}")],
+      { owner: "Ann", tasks: [{ title: "Write" }, { title: "Review", owner: "Bob" }], tags: ["x", "y"] }
+    );
+    expect(texts(trees)).toEqual(["Before", "- Write by Ann", "- Review by Bob", "#x", "#y"]);
+  });
+
+  test("inverted sections render only when the value is missing, false or empty", () => {
+    const template = [para("{{^items}}"), para("Nothing yet"), para("{{/items}}")];
+    expect(texts(renderTemplate(template, { items: [] }).trees)).toEqual(["Nothing yet"]);
+    expect(texts(renderTemplate(template, { items: false }).trees)).toEqual(["Nothing yet"]);
+    expect(texts(renderTemplate(template, { items: [1] }).trees)).toEqual([]);
+
+    const { trees, missing } = renderTemplate(template, {});
+    expect(texts(trees)).toEqual(["Nothing yet"]);
+    expect(missing).toEqual(["items"]);
+  });
+
+  test("table rows between section markers repeat with their merge_info", () => {
+    const merged = { row_span: 1, col_span: 2 };
+    const hidden = { row_span: 1, col_span: 1 };
+    const single = { row_span: 1, col_span: 1 };
+    const template = table(
+      [
+        ["Name", "Score"],
+        ["{{#rows}}{{name}}", "{{score}}"],
+        ["{{note}}{{/rows}}", ""],
+        ["Total", "{{total}}"],
+      ],
+      [single, single, single, single, merged, hidden, single, single]
+    );
+
+    const [rendered] = renderTemplate([template], {
+      total: 7,
+      rows: [
+        { name: "a", score: 3, note: "first" },
+        { name: "b", score: 4, note: "second" },
+      ],
+    }).trees;
+    const property = (rendered.content as { table: { property: Record<string, unknown> } }).table.property;
+    expect(property.row_size).toBe(6);
+    expect(property.merge_info).toEqual([single, single, single, single, merged, hidden, single, single, merged, hidden, single, single]);
+    expect(texts(rendered.childTrees)).toEqual(["Name", "Score", "a", "3", "first", "", "b", "4", "second", "", "Total", "7"]);
+  });
+
+  test("tables left without rows are removed", () => {
+    const { trees } = renderTemplate([table([["{{#rows}}{{name}}{{/rows}}"]]), para("After")], { rows: [] });
+    expect(texts(trees)).toEqual(["After"]);
+  });
+
+  test("missing variables stay as placeholders and are listed once", () => {
+    const { trees, missing } = renderTemplate([para("{{known}} {{unknown}}"), para("{{unknown}} {{a.b}}")], {
+      known: "yes",
+      a: {},
+    });
+    expect(texts(trees)).toEqual(["yes {{unknown}}", "{{unknown}} {{a.b}}"]);
+    expect(missing).toEqual(["unknown", "a.b"]);
+  });
+
+  test("unbalanced section markers are errors", () => {
+    expect(() => renderTemplate([para("{{#rows}}"), para("x")], { rows: [1] })).toThrow(
+      "Section {{#rows}} has no matching {{/rows}}"
+    );
+    expect(() => renderTemplate([para("{{/rows}}")], {})).toThrow("Unexpected {{/rows}} without a matching section start");
+  });
+});
+
+describe("renderTemplateTitle", () => {
+  test("substitutes variables and reports missing ones", () => {
+    expect(renderTemplateTitle("{{project}} weekly – {{week}}", { project: "Apollo" })).toEqual({
+      title: "Apollo weekly – {{week}}",
+      missing: ["week"],
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * 文件範本渲染
+ * 在 block 子樹中代換 {{變數}}，並展開重複區段：
+ * - 區塊層級：內容只有 {{#name}} / {{/name}} 的段落包住的 sibling blocks，依陣列變數逐項重複（{{^name}} 為變數為空時才輸出）
+ * - 表格列：包含 {{#name}} 的列到包含 {{/name}} 的列，依陣列變數逐項重複
+ * 區段內可直接使用項目的欄位（{{field}}），純量項目以 {{.}} 取用
+ */
+
+import type { LarkBlock, LarkTextContent } from "../types.js";
+import type { BlockTree } from "../services/lark-client.js";
+import { getTextContent } from "./markdown.js";
+import { elementsToText, findMatches, replaceRanges } from "./text-elements.js";
+
+type TextElement = NonNullable<LarkTextContent["elements"]>[number];
+type Scope = Record<string, unknown>;
+
+const VARIABLE_RE = /\{\{\s*([^{}#^/\s][^{}]*?)\s*\}\}/g;
+const SECTION_MARKER_RE = /\{\{\s*([#^/])\s*([^{}]+?)\s*\}\}/g;
+const SECTION_BLOCK_RE = /^\s*\{\{\s*([#^/])\s*([^{}]+?)\s*\}\}\s*$/;
+
+/**
+ * 渲染狀態：記錄找不到的變數名稱
+ */
+interface RenderContext {
+  missing: Set<string>;
+}
+
+/**
+ * 依序在各層 scope 中尋找變數，支援 a.b 巢狀欄位
+ */
+function lookup(name: string, scopes: Scope[]): { found: boolean; value?: unknown } {
+  const [head, ...path] = name === "." ? ["."] : name.split(".");
+  const scope = scopes.find((s) => Object.prototype.hasOwnProperty.call(s, head));
+  if (!scope) return { found: false };
+
+  let value: unknown = scope[head];
+  for (const key of path) {
+    if (value === null || typeof value !== "object" || !(key in value)) return { found: false };
+    value = (value as Record<string, unknown>)[key];
+  }
+  return { found: true, value };
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * 代換字串中的變數（標題用）
+ */
+function substituteString(text: string, scopes: Scope[], ctx: RenderContext): string {
+  return text.replace(VARIABLE_RE, (placeholder, name: string) => {
+    const { found, value } = lookup(name, scopes);
+    if (!found) {
+      ctx.missing.add(name);
+      return placeholder;
+    }
+    return formatValue(value);
+  });
+}
+
+/**
+ * 代換 text elements 中的變數，保留所在 text_run 的樣式（可跨越多個 text_run）
+ * stripMarkers 時一併移除表格列的區段標記
+ */
+function substituteElements(elements: TextElement[], scopes: Scope[], ctx: RenderContext, stripMarkers: boolean): TextElement[] {
+  const text = elementsToText(elements);
+  const ranges = findMatches(text, VARIABLE_RE).flatMap((match) => {
+    const { found, value } = lookup(match[1], scopes);
+    if (!found) {
+      ctx.missing.add(match[1]);
+      return [];
+    }
+    return [{ start: match.index, end: match.index + match[0].length, replacement: formatValue(value) }];
+  });
+  if (stripMarkers) {
+    for (const match of findMatches(text, SECTION_MARKER_RE)) {
+      ranges.push({ start: match.index, end: match.index + match[0].length, replacement: "" });
+    }
+    ranges.sort((a, b) => a.start - b.start);
+  }
+  return ranges.length > 0 ? replaceRanges(elements, ranges) : elements;
+}
+
+/**
+ * 取得子樹的純文字（表格列判斷區段標記用）
+ */
+function treeText(tree: BlockTree): string {
+  const elements = getTextContent(tree.content as unknown as LarkBlock)?.elements || [];
+  return [elementsToText(elements), ...tree.childTrees.map(treeText)].join("\n");
+}
+
+/**
+ * 區段要輸出的 scope 列表：陣列逐項、真值輸出一次、假值或空陣列不輸出（^ 相反）
+ */
+function sectionScopes(kind: string, name: string, scopes: Scope[], ctx: RenderContext): Scope[] {
+  const { found, value } = lookup(name, scopes);
+  if (!found) ctx.missing.add(name);
+
+  const empty = !value || (Array.isArray(value) && value.length === 0);
+  if (kind === "^") return empty ? [{}] : [];
+  if (empty) return [];
+
+  const items = Array.isArray(value) ? value : [value];
+  return items.map((item) => (item !== null && typeof item === "object" && !Array.isArray(item) ? (item as Scope) : { ".": item }));
+}
+
+/**
+ * 在 [start, end) 中找到與開頭標記對應的結束標記（同名區段可巢狀）
+ */
+function findSectionEnd(markers: Array<{ kind: string; name: string } | undefined>, start: number, name: string): number {
+  let depth = 0;
+  for (let i = start; i < markers.length; i++) {
+    const marker = markers[i];
+    if (!marker || marker.name !== name) continue;
+    if (marker.kind === "/") {
+      if (depth === 0) return i;
+      depth--;
+    } else if (i > start) {
+      depth++;
+    }
+  }
+  throw new Error(`Section {{${markers[start]!.kind}${name}}} has no matching {{/${name}}}`);
+}
+
+/**
+ * 渲染 sibling 子樹列表，展開區塊層級的重複區段
+ */
+function renderList(trees: BlockTree[], scopes: Scope[], ctx: RenderContext): BlockTree[] {
+  const markers = trees.map((tree) => {
+    if (tree.childTrees.length > 0) return undefined;
+    const match = SECTION_BLOCK_RE.exec(treeText(tree));
+    return match ? { kind: match[1], name: match[2] } : undefined;
+  });
+
+  const result: BlockTree[] = [];
+  for (let i = 0; i < trees.length; i++) {
+    const marker = markers[i];
+    if (!marker) {
+      result.push(renderTree(trees[i], scopes, ctx, false));
+      continue;
+    }
+    if (marker.kind === "/") {
+      throw new Error(`Unexpected {{/${marker.name}}} without a matching section start`);
+    }
+
+    const end = findSectionEnd(markers, i, marker.name);
+    const inner = trees.slice(i + 1, end);
+    for (const scope of sectionScopes(marker.kind, marker.name, scopes, ctx)) {
+      result.push(...renderList(inner, [scope, ...scopes], ctx));
+    }
+    i = end;
+  }
+  return result;
+}
+
+/**
+ * 複製並渲染單一子樹
+ */
+function renderTree(tree: BlockTree, scopes: Scope[], ctx: RenderContext, stripMarkers: boolean): BlockTree {
+  const content = structuredClone(tree.content);
+  const text = getTextContent(content as unknown as LarkBlock);
+  if (text?.elements) {
+    text.elements = substituteElements(text.elements, scopes, ctx, stripMarkers);
+  }
+
+  if (content.block_type === 31) {
+    return renderTable({ content, childTrees: tree.childTrees }, scopes, ctx);
+  }
+  return {
+    content,
+    childTrees: stripMarkers
+      ? tree.childTrees.map((child) => renderTree(child, scopes, ctx, true))
+      : renderList(tree.childTrees, scopes, ctx),
+  };
+}
+
+/**
+ * 渲染表格：展開重複的列，並依來源列複製合併儲存格設定
+ */
+function renderTable(tree: BlockTree, scopes: Scope[], ctx: RenderContext): BlockTree {
+  const table = (tree.content as Partial<LarkBlock>).table;
+  const property = table?.property || {};
+  const rows = property.row_size || 0;
+  const columns = property.column_size || 0;
+  const rowCells = Array.from({ length: rows }, (_, r) => tree.childTrees.slice(r * columns, (r + 1) * columns));
+
+  // 每列的第一個區段標記（開頭或結尾）
+  const rowMarkers = rowCells.map((cells) => {
+    const matches = findMatches(cells.map(treeText).join("\n"), SECTION_MARKER_RE);
+    const open = matches.find((m) => m[1] !== "/");
+    const close = matches.find((m) => m[1] === "/");
+    return { open: open && { kind: open[1], name: open[2] }, close: close?.[2] };
+  });
+
+  const outputRows: Array<{ source: number; cells: BlockTree[] }> = [];
+  for (let r = 0; r < rows; r++) {
+    const open = rowMarkers[r].open;
+    if (!open) {
+      outputRows.push({ source: r, cells: rowCells[r].map((cell) => renderTree(cell, scopes, ctx, false)) });
+      continue;
+    }
+
+    let end = r;
+    while (end < rows && rowMarkers[end].close !== open.name) end++;
+    if (end === rows) {
+      throw new Error(`Table section {{${open.kind}${open.name}}} has no matching {{/${open.name}}}`);
+    }
+    for (const scope of sectionScopes(open.kind, open.name, scopes, ctx)) {
+      for (let source = r; source <= end; source++) {
+        outputRows.push({ source, cells: rowCells[source].map((cell) => renderTree(cell, [scope, ...scopes], ctx, true)) });
+      }
+    }
+    r = end;
+  }
+
+  const mergeInfo = property.merge_info;
+  const content = structuredClone(tree.content) as Partial<LarkBlock> & Record<string, unknown>;
+  content.table = {
+    property: {
+      ...property,
+      row_size: outputRows.length,
+      ...(mergeInfo
+        ? { merge_info: outputRows.flatMap((row) => mergeInfo.slice(row.source * columns, (row.source + 1) * columns)) }
+        : {}),
+    },
+  };
+  return { content, childTrees: outputRows.flatMap((row) => row.cells) };
+}
+
+/**
+ * 渲染範本子樹，回傳新的子樹與找不到的變數名稱（保留原本的 {{name}}）
+ * 重複區段後沒有任何列的表格會被移除
+ */
+export function renderTemplate(
+  trees: BlockTree[],
+  variables: Record<string, unknown>
+): { trees: BlockTree[]; missing: string[] } {
+  const ctx: RenderContext = { missing: new Set() };
+  const rendered = renderList(trees, [variables], ctx).filter(
+    (tree) => tree.content.block_type !== 31 || tree.childTrees.length > 0
+  );
+  return { trees: rendered, missing: [...ctx.missing] };
+}
+
+/**
+ * 代換標題中的變數
+ */
+export function renderTemplateTitle(title: string, variables: Record<string, unknown>): { title: string; missing: string[] } {
+  const ctx: RenderContext = { missing: new Set() };
+  return { title: substituteString(title, [variables], ctx), missing: [...ctx.missing] };
+}
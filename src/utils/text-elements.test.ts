@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import { buildPattern, elementsToText, expandReplacement, findMatches, replaceRanges, styleRanges } from "./text-elements.js";
+
+const bold = { bold: true };
+const mention = { mention_user: { user_id: "ou_1" } };
+
+function matched(text: string, pattern: RegExp): string[] {
+  return findMatches(text, pattern).map((m) => m[0]);
+}
+
+describe("buildPattern", () => {
+  test("whole_word accepts regexes with escapes that unicode mode rejects", () => {
+    const pattern = buildPattern("foo\\-bar|a\\:b", { regex: true, wholeWord: true });
+    expect(matched("foo-bar a:b xfoo-bar a:bc", pattern)).toEqual(["foo-bar", "a:b"]);
+  });
+
+  test("whole_word treats non-ASCII letters as part of a word", () => {
+    const pattern = buildPattern("café", { wholeWord: true });
+    expect(matched("café cafés Ücafé (café)", pattern)).toEqual(["café", "café"]);
+  });
+});
+
+describe("replaceRanges", () => {
+  test("replacements take the style of the first replaced character and runs are split around them", () => {
+    const elements = [{ text_run: { content: "Hello " } }, { text_run: { content: "big world", text_element_style: bold } }];
+    expect(replaceRanges(elements, [{ start: 4, end: 9, replacement: "o, small" }])).toEqual([
+      { text_run: { content: "Hello, small" } },
+      { text_run: { content: " world", text_element_style: bold } },
+    ]);
+    expect(replaceRanges(elements, [{ start: 6, end: 9, replacement: "small" }])).toEqual([
+      { text_run: { content: "Hello " } },
+      { text_run: { content: "small world", text_element_style: bold } },
+    ]);
+  });
+
+  test("several ranges are applied in one pass and equal neighbours are merged", () => {
+    const elements = [{ text_run: { content: "a-b-c" } }];
+    const text = elementsToText(elements);
+    const ranges = findMatches(text, /-/g).map((m) => ({ start: m.index, end: m.index + 1, replacement: "" }));
+    expect(replaceRanges(elements, ranges)).toEqual([{ text_run: { content: "abc" } }]);
+  });
+
+  test("non-text elements outside the ranges are kept in place", () => {
+    const elements = [{ text_run: { content: "ping " } }, mention, { text_run: { content: " now" } }];
+    expect(replaceRanges(elements, [{ start: 7, end: 10, replacement: "later" }])).toEqual([
+      { text_run: { content: "ping " } },
+      mention,
+      { text_run: { content: " later" } },
+    ]);
+  });
+
+  test("deleting all text leaves one empty text run", () => {
+    expect(replaceRanges([{ text_run: { content: "gone", text_element_style: bold } }], [{ start: 0, end: 4, replacement: "" }])).toEqual([
+      { text_run: { content: "" } },
+    ]);
+  });
+});
+
+describe("expandReplacement", () => {
+  test("expands $&, numbered and named groups and $$", () => {
+    const [match] = findMatches("v1.2", /v(\d)\.(?<minor>\d)/g);
+    expect(expandReplacement("[$&] $1/$<minor> $$5 $9", match)).toBe("[v1.2] 1/2 $5 $9");
+  });
+});
+
+describe("styleRanges", () => {
+  test("splits runs at the range edges and keeps other styles", () => {
+    const italic = { italic: true };
+    expect(styleRanges([{ text_run: { content: "one two three", text_element_style: italic } }], [{ start: 4, end: 7 }], bold)).toEqual([
+      { text_run: { content: "one ", text_element_style: italic } },
+      { text_run: { content: "two", text_element_style: { italic: true, bold: true } } },
+      { text_run: { content: " three", text_element_style: italic } },
+    ]);
+  });
+
+  test("null removes a style and runs that end up equal are merged", () => {
+    const elements = [{ text_run: { content: "ab" } }, { text_run: { content: "cd", text_element_style: bold } }];
+    expect(styleRanges(elements, [{ start: 2, end: 4 }], { bold: null })).toEqual([{ text_run: { content: "abcd" } }]);
+  });
+
+  test("non-text elements inside a range are left unchanged", () => {
+    const elements = [{ text_run: { content: "hi " } }, mention, { text_run: { content: "!" } }];
+    expect(styleRanges(elements, [{ start: 0, end: 5 }], bold)).toEqual([
+      { text_run: { content: "hi ", text_element_style: bold } },
+      mention,
+      { text_run: { content: "!", text_element_style: bold } },
+    ]);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Text element 處理工具
+ * 在 text_run 之間搜尋文字，並以字元為單位重建 elements：切分 text_run、保留周圍文字樣式、合併相同樣式的 text_run
+ */
+
+import type { LarkTextContent } from "../types.js";
+
+type TextElement = NonNullable<LarkTextContent["elements"]>[number];
+type TextElementStyle = NonNullable<NonNullable<TextElement["text_run"]>["text_element_style"]>;
+
+// 非文字元素（@提及、公式）在搜尋字串中的佔位字元，比對不會跨越這些元素
+const OBJECT_PLACEHOLDER = "\uFFFC";
+
+// 完整單字比對的單字字元：ASCII 英數字與底線，加上常見文字的字母區段（拉丁、希臘、西里爾、亞美尼亞、
+// 希伯來、阿拉伯、印度與東南亞文字、韓文、日文假名、CJK 與全形英數字）。
+// 以明確區段列出而不用 \p{L}，使正規表達式不需 u 旗標（u 模式會拒絕 \-、\: 這類多餘的跳脫）
+const WORD_CHARS =
+  "A-Za-z0-9_\u00AA\u00B5\u00BA\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u052F\u0531-\u058F\u05D0-\u05FF" +
+  "\u0620-\u06FF\u0900-\u0EFF\u1100-\u11FF\u1E00-\u1FFF\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF" +
+  "\uAC00-\uD7AF\uF900-\uFAFF\uFF10-\uFF19\uFF21-\uFF3A\uFF41-\uFF5A";
+
+export interface PatternOptions {
+  /** pattern 為正規表達式（預設為字面字串） */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  /** 只比對完整單字（前後不是字母、數字或底線） */
+  wholeWord?: boolean;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 建立全域比對用的 RegExp（正規表達式語法錯誤時拋出 SyntaxError）
+ */
+export function buildPattern(pattern: string, options: PatternOptions = {}): RegExp {
+  const source = options.regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const flags = options.caseSensitive === false ? "gi" : "g";
+  if (options.wholeWord) {
+    // \b 不認得非 ASCII 字母，改以 WORD_CHARS 判斷單字邊界
+    return new RegExp(`(?<![${WORD_CHARS}])(?:${source})(?![${WORD_CHARS}])`, flags);
+  }
+  return new RegExp(source, flags);
+}
+
+/**
+ * 取得 elements 的搜尋字串（非文字元素以佔位字元表示，位置與 elements 字元一一對應）
+ */
+export function elementsToText(elements: TextElement[]): string {
+  return elements.map((el) => (el.text_run ? el.text_run.content : OBJECT_PLACEHOLDER)).join("");
+}
+
+/**
+ * 搜尋文字，略過空字串比對與跨越非文字元素的比對
+ */
+export function findMatches(text: string, pattern: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (!match[0].includes(OBJECT_PLACEHOLDER)) {
+      matches.push(match);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * 展開取代字串中的 $&、$1-$99、$<name> 與 $$（與 String.prototype.replace 相同語法）
+ */
+export function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === "$") return "$";
+    if (ref === "&") return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? "";
+    const index = Number(ref);
+    return index > 0 && index < match.length ? match[index] ?? "" : token;
+  });
+}
+
+/**
+ * 字元單位：文字字元帶有所屬 text_run 的樣式，非文字元素整個作為一個單位
+ */
+type Unit =
+  | { char: string; style?: TextElementStyle }
+  | { element: TextElement };
+
+function toUnits(elements: TextElement[]): Unit[] {
+  return elements.flatMap((el): Unit[] => {
+    if (!el.text_run) return [{ element: el }];
+    const style = el.text_run.text_element_style;
+    // 以 UTF-16 code unit 為單位，與字串索引對齊
+    const content = el.text_run.content;
+    return Array.from({ length: content.length }, (_, i) => ({ char: content[i], style }));
+  });
+}
+
+/**
+ * 樣式正規化：移除 false / 空值，讓 { bold: false } 與未設定視為相同
+ */
+function normalizeStyle(style?: TextElementStyle): string {
+  if (!style) return "";
+  const entries = Object.entries(style)
+    .filter(([, value]) => value !== false && value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? JSON.stringify(entries) : "";
+}
+
+/**
+ * 將字元單位合併回 elements（相鄰且樣式相同的字元合併為同一個 text_run）
+ */
+function fromUnits(units: Unit[]): TextElement[] {
+  const elements: TextElement[] = [];
+  let content = "";
+  let style: TextElementStyle | undefined;
+  let styleKey: string | null = null;
+
+  const flush = () => {
+    if (content) {
+      elements.push({
+        text_run: normalizeStyle(style) ? { content, text_element_style: style } : { content },
+      });
+    }
+    content = "";
+    styleKey = null;
+  };
+
+  for (const unit of units) {
+    if ("element" in unit) {
+      flush();
+      elements.push(unit.element);
+      continue;
+    }
+    const key = normalizeStyle(unit.style);
+    if (key !== styleKey) {
+      flush();
+      style = unit.style;
+      styleKey = key;
+    }
+    content += unit.char;
+  }
+  flush();
+
+  return elements;
+}
+
+/**
+ * 正規化 elements：合併相鄰且樣式相同的 text_run、移除空 text_run 與 false 樣式
+ */
+export function normalizeElements(elements: TextElement[]): TextElement[] {
+  return fromUnits(toUnits(elements));
+}
+
+/**
+ * 以取代文字替換指定範圍（範圍需依序且不重疊）
+ * 取代文字沿用範圍第一個字元的樣式，範圍外的文字樣式不變
+ */
+export function replaceRanges(
+  elements: TextElement[],
+  ranges: Array<TextRange & { replacement: string }>
+): TextElement[] {
+  const units = toUnits(elements);
+  const result: Unit[] = [];
+  let position = 0;
+
+  for (const range of ranges) {
+    result.push(...units.slice(position, range.start));
+    const first = units[range.start];
+    const style = first && "char" in first ? first.style : undefined;
+    for (const char of range.replacement) result.push({ char, style });
+    position = range.end;
+  }
+  result.push(...units.slice(position));
+
+  // 文字全部被刪除時保留一個空 text_run（update_text_elements 不接受空陣列）
+  const updated = fromUnits(result);
+  return updated.length > 0 ? updated : [{ text_run: { content: "" } }];
+}
+
+/**
+ * 樣式修改：值為 null 時移除該樣式，未列出的樣式保持不變
+ */
+export type TextStylePatch = { [K in keyof TextElementStyle]?: TextElementStyle[K] | null };
+
+function patchStyle(style: TextElementStyle | undefined, patch: TextStylePatch): TextElementStyle | undefined {
+  const result: Record<string, unknown> = { ...style };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+    if (value === null) delete result[key];
+    else result[key] = value;
+  }
+  return Object.keys(result).length > 0 ? (result as TextElementStyle) : undefined;
+}
+
+/**
+ * 對指定範圍的文字套用樣式修改，必要時切分 text_run，範圍外的文字樣式不變
+ * 範圍內的非文字元素（@提及、公式）保持原樣
+ */
+export function styleRanges(elements: TextElement[], ranges: TextRange[], patch: TextStylePatch): TextElement[] {
+  const units = toUnits(elements);
+  for (const range of ranges) {
+    for (let i = range.start; i < Math.min(range.end, units.length); i++) {
+      const unit = units[i];
+      if ("char" in unit) units[i] = { char: unit.char, style: patchStyle(unit.style, patch) };
+    }
+  }
+  return fromUnits(units);
+}